@@ -1,12 +1,100 @@
 import { createServer } from "node:http";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { appendFileSync, createWriteStream, existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { open, rename } from "node:fs/promises";
 import path from "node:path";
 import crypto from "node:crypto";
 import { fileURLToPath } from "node:url";
+import { createGzip } from "node:zlib";
 import colyseusPkg from "colyseus";
 import * as schemaPkg from "@colyseus/schema";
-
-const { Room, Server } = colyseusPkg;
+import {
+  EDGE_SINK_MAX,
+  FORWARD_SPEED,
+  GAME_SPEED,
+  SINK_RATE,
+  SPEEDBAR_BOOST,
+  SPEEDBAR_SINK_BOOST,
+  STORM_CIRCLE_EDGE_WIDTH,
+  STORM_CIRCLE_STAGE_COUNT,
+  TERRAIN_INLAND_LAKE_DEPTH_MAX,
+  TERRAIN_INLAND_LAKE_DEPTH_MIN,
+  TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MAX,
+  TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MIN,
+  TERRAIN_ISLAND_RADIUS_MAX,
+  TERRAIN_ISLAND_RADIUS_MIN,
+  TERRAIN_MAX_HEIGHT_MAX,
+  TERRAIN_MAX_HEIGHT_MIN,
+  TERRAIN_WATER_LEVEL,
+  THERMAL_BASE_HEIGHT_MAX,
+  THERMAL_COUNT,
+  THERMAL_INITIAL_SEED,
+  THERMAL_LIFT_MULTIPLIER,
+  THERMAL_RESEED_SECONDS,
+  THERMAL_SEED_STEP,
+  THERMAL_SMALL_STRENGTH_MAX,
+  THERMAL_SOFT_CEILING_ABOVE,
+  YAW_RATE,
+  createRng,
+  createStormStage,
+  createWorldTerrain,
+  generateTask,
+  generateThermals,
+  getGliderAirspeed,
+  getGliderSinkRate,
+  getInitialStormCircle,
+  getStormCircle,
+  getStormGlideZone,
+  getThermalClimbRate,
+  getThermalTopY,
+  getTurnpointDistance,
+  isInsideTurnpoint,
+  normalizeWorldTerrainParams,
+} from "../shared/world/index.ts";
+import {
+  REPLAY_ANGLE_PRECISION,
+  REPLAY_FILE_EXTENSION,
+  REPLAY_FORMAT_VERSION,
+  REPLAY_NO_PILOT,
+  REPLAY_POSITION_PRECISION,
+  quantizeReplayValue,
+} from "../shared/replay/index.ts";
+import {
+  INTEREST_LEAVE_HYSTERESIS,
+  INTEREST_TIERS,
+  decodePosePacket,
+  encodeInterestPose,
+  LEADERBOARD_PAGE_SIZE_DEFAULT,
+  LEADERBOARD_PAGE_SIZE_MAX,
+  LEADERBOARD_WINDOWS,
+  MATCHMAKING_FALLBACK_MS,
+  NICKNAME_MAX_LENGTH,
+  NO_TEAM,
+  ORB_HOLDER_SINK_RATE_MAX,
+  ORB_HOLDER_SLOWDOWN_PCT_MAX,
+  ORB_MAX_HOLD_MS_MAX,
+  ORB_MAX_HOLD_MS_MIN,
+  ORB_STEAL_BONUS_PCT_MAX,
+  ROUND_MINUTES_DEFAULT,
+  ROUND_MINUTES_MAX,
+  ROUND_MINUTES_MIN,
+  TEAM_COUNT_MAX,
+  TEAM_COUNT_MIN,
+  canCatchDroppedOrb,
+  findChatQuickPreset,
+  getHolderAirspeedScale,
+  getInterestTierIndex,
+  getLeaderboardPeriod,
+  getStealScoreMultiplier,
+  isGameMode,
+  isLeaderboardWindow,
+  isMatchmakingRegion,
+  isNewerPoseSeq,
+  normalizeChatText,
+  toNicknameKey,
+  validateNickname,
+} from "../shared/net/index.ts";
+
+const { Protocol, Room, Server, ServerError } = colyseusPkg;
 const { ArraySchema, MapSchema, Schema, defineTypes } = schemaPkg;
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -15,6 +103,10 @@ const ENV_FILE_PATH = path.resolve(__dirname, "../.env");
 const DEFAULT_STARTUP_CACHE_PATH = path.resolve(__dirname, "./startup-cache.json");
 const DEFAULT_STARTUP_ICON_CACHE_DIR = path.resolve(__dirname, "./startup-icons");
 const DEFAULT_SCOREBOARD_CACHE_PATH = path.resolve(__dirname, "./scoreboard.json");
+const DEFAULT_PLAYER_STORE_DIR = path.resolve(__dirname, "./player-store");
+const DEFAULT_REPLAY_DIR = path.resolve(__dirname, "./replays");
+const DEFAULT_BANS_FILE_PATH = path.resolve(__dirname, "./bans.json");
+const DEFAULT_ADMIN_AUDIT_LOG_PATH = path.resolve(__dirname, "./admin-audit.log");
 
 const loadEnvFile = (filePath) => {
   if (!existsSync(filePath)) {
@@ -54,43 +146,44 @@ loadEnvFile(ENV_FILE_PATH);
 
 const PORT = Number(process.env.PORT ?? 2567);
 const WORLD_NAME = "world";
-const MAX_CLIENTS = 32;
+const MAX_CLIENTS = 64;
+const ROOM_MIN_PLAYERS = 2;
+const ROOM_NAME_MAX_LENGTH = 32;
+const ROOM_CODE_LENGTH = 5;
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const RECONNECT_GRACE_SECONDS = 30;
 const SERVER_TICK_MS = 50;
-const THERMAL_COUNT = 10;
-const THERMAL_RESEED_SECONDS = 18;
-const THERMAL_SMALL_RATIO = 0.7;
-const THERMAL_SMALL_RADIUS_MIN = 5;
-const THERMAL_SMALL_RADIUS_MAX = 8;
-const THERMAL_LARGE_RADIUS_MIN = 12;
-const THERMAL_LARGE_RADIUS_MAX = 20;
-const THERMAL_BASE_HEIGHT_MIN = 32;
-const THERMAL_BASE_HEIGHT_MAX = 54;
-const THERMAL_HEIGHT_AMPLITUDE_MIN = 8;
-const THERMAL_HEIGHT_AMPLITUDE_MAX = 16;
-const THERMAL_SMALL_STRENGTH_MIN = 3.8;
-const THERMAL_SMALL_STRENGTH_MAX = 5.2;
-const THERMAL_LARGE_STRENGTH_MIN = 2.5;
-const THERMAL_LARGE_STRENGTH_MAX = 3.8;
-const THERMAL_MIN_GAP = 14;
-const THERMAL_EDGE_MARGIN = 0;
-const THERMAL_MAX_CENTER_RADIUS = 92;
-const THERMAL_CANDIDATES_PER_SLOT = 64;
-const THERMAL_FALLBACK_ATTEMPTS_PER_SLOT = 120;
-const THERMAL_ACTIVATION_DELAY_MIN_SECONDS = 0;
-const THERMAL_ACTIVATION_DELAY_MAX_SECONDS = 6;
-const SPAWN_RING_RADIUS = 86;
 const SPAWN_Y = 18;
 const ORB_PICKUP_HORIZONTAL_RADIUS = 2.8;
 const ORB_PICKUP_VERTICAL_TOLERANCE = 4.5;
 const ORB_STEAL_HORIZONTAL_RADIUS = 2.4;
 const ORB_STEAL_VERTICAL_TOLERANCE = 3.5;
 const ORB_STEAL_COOLDOWN_MS = 1000;
+const ORB_STEAL_COOLDOWN_MAX_MS = 10000;
 const ORB_SCORE_INTERVAL_MS = 1000;
 const ORB_SPAWN_ALTITUDE_MIN = 24;
 const ORB_SPAWN_ALTITUDE_MAX = 34;
 const ORB_SPAWN_RADIUS = 72;
 const ORB_MIN_PLAYERS = 2;
-const ORB_START_COUNTDOWN_MS = 10000;
+const ORB_MIN_PLAYERS_MAX = 8;
+const ORB_HOLDER_OFFSET_Y = 0.9;
+// A lost orb pops up, keeps part of the holder's momentum and sinks like a small parachute, riding thermals on the
+// way down. It comes to rest just above the ground, in reach of a low pass, and only respawns once it hits water.
+// Rates are per unscaled second, like the glide model.
+const ORB_DROP_POP_SPEED = 4;
+const ORB_DROP_MOMENTUM = 0.6;
+const ORB_DROP_FALL_SPEED = 1.8;
+const ORB_DROP_DRAG = 0.5;
+const ORB_DROP_VERTICAL_RESPONSE = 2;
+const ORB_DROP_REST_HEIGHT = 1.5;
+// Orb rounds: ROUND_WARMUP_MS of free flight once enough pilots are in, a short countdown, the round itself
+// (`roundMinutes` room option) and the results screen.
+const ROUND_WARMUP_MS = 10000;
+const ROUND_COUNTDOWN_MS = 3000;
+const ROUND_RESULTS_MS = 15000;
+// Storm rounds don't wait for clients to report their own crashes: a pose that reaches the ground or water is one,
+// and so is spending this long beyond the storm edge, where the sink peaks.
+const STORM_DEEP_OUTSIDE_LIMIT_MS = 8000;
 const COIN_PICKUP_HORIZONTAL_RADIUS = 3.1;
 const COIN_PICKUP_VERTICAL_TOLERANCE = 5.2;
 const COIN_SPAWN_INTERVAL_MS = 5000;
@@ -103,6 +196,85 @@ const COIN_SPAWN_ALTITUDE_MIN = 18;
 const COIN_SPAWN_ALTITUDE_MAX = 38;
 const COIN_MIN_GAP = 9;
 const COIN_SPAWN_ATTEMPTS = 72;
+// Task rooms open the start gate a while after setting a task and replace it once the task window closes.
+const TASK_START_GATE_DELAY_MS = 20000;
+const TASK_WINDOW_MS = 8 * 60 * 1000;
+// Tolerances around the shared glide model the client `Player` component flies.
+const FLIGHT_MAX_OVERLAPPING_THERMALS = 2;
+const FLIGHT_WORLD_RADIUS = 198;
+const FLIGHT_CEILING_MARGIN = 6;
+const FLIGHT_ENVELOPE_TOLERANCE = 1.3;
+const FLIGHT_BURST_SECONDS = 0.6;
+const FLIGHT_TELEPORT_DISTANCE = 24;
+// A rejected pose sends the pilot back to their last accepted one; if they keep missing it, they respawn.
+const FLIGHT_POSE_CORRECTION_INTERVAL_MS = 1000;
+const FLIGHT_REJECTED_POSES_BEFORE_RESPAWN = 40;
+const FLIGHT_GROUND_TOLERANCE = 1.5;
+const FLIGHT_EFFECT_GRACE_MS = 600;
+const FLIGHT_RESPAWN_WINDOW_MS = 3000;
+const FLIGHT_RESPAWN_RING_TOLERANCE = 4;
+const FLIGHT_RESPAWN_MAX_GROUND_OFFSET = 14;
+const FLIGHT_TAG_WARMUP_MS = 1500;
+const FLIGHT_SUSPICION_WINDOW_MS = 10000;
+const FLIGHT_SUSPICION_THRESHOLD = 8;
+const FLIGHT_LOG_COOLDOWN_MS = 15000;
+// Steal checks rewind the holder to where the challenger saw them on screen.
+const LAG_COMP_HISTORY_MS = 1000;
+const LAG_COMP_PING_INTERVAL_MS = 2000;
+const LAG_COMP_RTT_SMOOTHING = 0.3;
+const LAG_COMP_MAX_RTT_MS = 2000;
+const LAG_COMP_MAX_VIEW_DELAY_MS = 300;
+// Server-flown pilots that keep small rooms busy until enough people show up.
+const BOT_SESSION_PREFIX = "bot-";
+const BOT_FILL_PILOTS = 3;
+const BOT_JOIN_DELAY_MS = 2500;
+const BOT_NAMES = ["Kestrel", "Buzzard", "Swift", "Condor", "Harrier", "Osprey", "Kite", "Merlin"];
+const BOT_SPAWN_GROUND_OFFSET = 12;
+const BOT_LOW_CLEARANCE = 10;
+const BOT_CLIMB_CLEARANCE = 22;
+const BOT_CLIMB_LOOKAHEAD_RAD = 0.7;
+const BOT_CHASE_CLIMB_MARGIN = 5;
+const BOT_COIN_ABOVE_TOLERANCE = 3;
+const BOT_FLEE_LOOKAHEAD = 30;
+const BOT_FLEE_SPEEDBAR_RANGE = 18;
+const BOT_EDGE_RETURN_RATIO = 0.82;
+const BOT_STORM_RETURN_RATIO = 0.7;
+const BOT_WANDER_RADIUS_RATIO = 0.45;
+const BOT_WANDER_TURN_RAD = 0.35;
+const BOT_BANK_RESPONSE = 8;
+const BOT_DIFFICULTIES = {
+  easy: {
+    turnScale: 0.6,
+    reactionMs: 900,
+    aimJitterRad: 0.35,
+    leadSeconds: 0,
+    chaseRange: 45,
+    coinRange: 30,
+    useSpeedbar: false,
+    skillRating: 850,
+  },
+  normal: {
+    turnScale: 0.85,
+    reactionMs: 500,
+    aimJitterRad: 0.15,
+    leadSeconds: 0.6,
+    chaseRange: 80,
+    coinRange: 50,
+    useSpeedbar: true,
+    skillRating: 1000,
+  },
+  hard: {
+    turnScale: 1,
+    reactionMs: 250,
+    aimJitterRad: 0.04,
+    leadSeconds: 1.2,
+    chaseRange: 140,
+    coinRange: 70,
+    useSpeedbar: true,
+    skillRating: 1150,
+  },
+};
+const BOT_DEFAULT_DIFFICULTY = "normal";
 const STARTUP_REFRESH_INTERVAL_MS = Number(
   process.env.TRUSTMRR_REFRESH_INTERVAL_MS ?? 24 * 60 * 60 * 1000,
 );
@@ -140,23 +312,78 @@ const STARTUP_ICON_SYNC_MAX_DOWNLOADS = Math.max(
 const STARTUP_RECENT_HISTORY_SIZE = 18;
 const STARTUP_MIN_GAMEPLAY_GROWTH_PCT = 3;
 const LEADERBOARD_SIZE = 3;
+const LEADERBOARD_API_ROUTE = "/api/leaderboard";
+// Colyseus claims every URL containing `/matchmake`, hence the name.
+const MATCHMAKING_API_ROUTE = "/api/quickplay";
+const PUBLIC_API_CORS_HEADERS = { "Access-Control-Allow-Origin": "*" };
+// Elo-style rating per playerId. Steals are rated pairwise between thief and holder; a finished hold is rated
+// against the room's average, scoring 1 once it lasts SKILL_RATING_HOLD_REFERENCE_SECONDS.
+const SKILL_RATING_DEFAULT = 1000;
+const SKILL_RATING_K = 24;
+const SKILL_RATING_HOLD_REFERENCE_SECONDS = 20;
+// Allowed gap between a pilot's rating and a room's average, widening over MATCHMAKING_FALLBACK_MS.
+const MATCHMAKING_SKILL_GAP_MIN = 150;
+const MATCHMAKING_SKILL_GAP_MAX = 450;
+const MATCHMAKING_RETRY_MS = 1000;
+// Costs added to a room's skill gap (as a fraction of MATCHMAKING_SKILL_GAP_MAX) when ranking candidates.
+const MATCHMAKING_REGION_MISMATCH_COST = 0.5;
+const MATCHMAKING_EMPTY_SEAT_COST = 0.4;
+const ROOM_TERRAIN_LAKE_CHANCE = 0.85;
+// The old JSON scoreboard; it is only read once, to seed an empty player store.
 const SCOREBOARD_CACHE_FILE_PATH =
   process.env.SCOREBOARD_CACHE_FILE_PATH?.trim() || DEFAULT_SCOREBOARD_CACHE_PATH;
+const PLAYER_STORE_DIR = process.env.PLAYER_STORE_DIR?.trim() || DEFAULT_PLAYER_STORE_DIR;
+const PLAYER_STORE_SNAPSHOT_PATH = path.join(PLAYER_STORE_DIR, "players.json");
+const PLAYER_STORE_JOURNAL_PATH = path.join(PLAYER_STORE_DIR, "players.journal");
+const PLAYER_STORE_FLUSH_MS = 2000;
+const PLAYER_STORE_COMPACT_BYTES = 1024 * 1024;
+const PLAYER_TOKEN_KEY_PATH = path.join(PLAYER_STORE_DIR, "identity.key");
+const PLAYER_TOKEN_VERSION = "v1";
+// Records imported from scoreboard.json can be claimed once by their old raw playerId for this long.
+const LEGACY_PLAYER_ID_CLAIM_WINDOW_MS =
+  Math.max(0, Number(process.env.LEGACY_PLAYER_ID_CLAIM_DAYS ?? 30)) * 24 * 60 * 60 * 1000;
+const REPLAY_RECORDING_ENABLED = !["0", "false", "off"].includes(
+  (process.env.REPLAY_RECORDING ?? "").trim().toLowerCase(),
+);
+const REPLAY_DIR = process.env.REPLAY_DIR?.trim() || DEFAULT_REPLAY_DIR;
+const REPLAY_FLUSH_INTERVAL_MS = 5000;
+const LAG_COMP_MAX_REWIND_MS = Number(process.env.LAG_COMP_MAX_REWIND_MS ?? 250);
+const SAFE_LAG_COMP_MAX_REWIND_MS = Number.isFinite(LAG_COMP_MAX_REWIND_MS)
+  ? Math.max(0, LAG_COMP_MAX_REWIND_MS)
+  : 250;
+// `/debug/perf` is only served when PERF_STATS is on; the load-test tool turns it on for servers it spawns.
+const PERF_STATS_ENABLED = ["1", "true", "on"].includes((process.env.PERF_STATS ?? "").trim().toLowerCase());
+const PERF_STATS_ROUTE = "/debug/perf";
+const PERF_TICK_SAMPLE_LIMIT = 20000;
+const HEALTH_ROUTE = "/healthz";
+const METRICS_ROUTE = "/metrics";
+const METRICS_PREFIX = "gliderbattle_";
+const METRICS_TICK_BUCKETS_SECONDS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25];
+// When METRICS_TOKEN is set, scrapers must send it as `Authorization: Bearer <token>`.
+const METRICS_TOKEN = process.env.METRICS_TOKEN?.trim() ?? "";
+// The admin API is disabled unless ADMIN_TOKEN is set; requests must send it as `Authorization: Bearer <token>`.
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN?.trim() ?? "";
+const ADMIN_ROUTE_PREFIX = "/admin/";
+const ADMIN_BODY_MAX_BYTES = 16 * 1024;
+const ADMIN_KICK_CLOSE_CODE = 4100;
+// Resources whose second path segment is a room code or playerId rather than a fixed action name.
+const ADMIN_ID_RESOURCES = new Set(["rooms", "players", "scores"]);
+const ADMIN_BAN_REASON_MAX_LENGTH = 200;
+const BANS_FILE_PATH = process.env.BANS_FILE_PATH?.trim() || DEFAULT_BANS_FILE_PATH;
+// Each pilot may send CHAT_RATE_LIMIT_COUNT lines per sliding CHAT_RATE_LIMIT_WINDOW_MS.
+const CHAT_RATE_LIMIT_COUNT = Number(process.env.CHAT_RATE_LIMIT_COUNT ?? 5);
+const SAFE_CHAT_RATE_LIMIT_COUNT = Number.isFinite(CHAT_RATE_LIMIT_COUNT)
+  ? Math.max(1, Math.floor(CHAT_RATE_LIMIT_COUNT))
+  : 5;
+const CHAT_RATE_LIMIT_WINDOW_MS = 10000;
+const NICKNAME_CHANGE_COOLDOWN_MS = 5000;
+// Comma-separated words masked with asterisks in free-text chat, matched case-insensitively as whole words.
+const CHAT_BLOCKED_WORDS = (process.env.CHAT_BLOCKED_WORDS ?? "")
+  .split(",")
+  .map((word) => word.trim().toLowerCase())
+  .filter(Boolean);
+const ADMIN_AUDIT_LOG_PATH = process.env.ADMIN_AUDIT_LOG_PATH?.trim() || DEFAULT_ADMIN_AUDIT_LOG_PATH;
 
-const TERRAIN_SEED = 1337;
-const TERRAIN_ISLAND_RADIUS = 95;
-const TERRAIN_HEIGHT_BASE = -5;
-const TERRAIN_MAX_HEIGHT = 34;
-const TERRAIN_NOISE_SCALE = 0.028;
-const TERRAIN_WATER_LEVEL = TERRAIN_HEIGHT_BASE - 1.8;
-const TERRAIN_INLAND_LAKE_RADIUS_MIN = 8;
-const TERRAIN_INLAND_LAKE_RADIUS_MAX = 13;
-const TERRAIN_INLAND_LAKE_MAX_CENTER_RADIUS_RATIO = 0.58;
-const TERRAIN_INLAND_LAKE_MIN_DIST_FROM_SPAWN = 34;
-const TERRAIN_INLAND_LAKE_RIM_WIDTH = 2.6;
-const TERRAIN_INLAND_LAKE_DEPTH = 3.4;
-const TERRAIN_INLAND_LAKE_MIN_UNDERWATER_DEPTH = 0.7;
-const TERRAIN_INLAND_LAKE_MIN_RIM_ABOVE_WATER = 0.55;
 
 const CONTENT_TYPES = {
   ".html": "text/html; charset=utf-8",
@@ -197,8 +424,27 @@ const startupCatalog = {
 
 const persistentScores = {
   playersById: new Map(),
+  // Bumped on every record change so cached leaderboard rankings know when to rebuild.
+  revision: 0,
+};
+
+// window -> { revision, period, entries: [{ record, score }], rankByPlayerId }
+const leaderboardRankings = new Map();
+
+// Player records are kept as a snapshot plus an append-only journal. Changes are batched off the simulation
+// tick: each flush appends one line holding every record touched since the previous flush, so a crash mid-write
+// can only tear that last line, which is skipped on load. Once the journal passes PLAYER_STORE_COMPACT_BYTES it is
+// folded into a new snapshot, written to a temp file and renamed over the old one.
+const playerStore = {
+  dirtyIds: new Set(),
+  flushTimer: null,
+  flushChain: Promise.resolve(),
+  journalBytes: 0,
 };
 
+// playerId -> { playerId, reason, bannedAtMs }
+const bannedPlayers = new Map();
+
 const DEV_STARTUP_FALLBACKS = [
   { id: "linear", name: "Linear", iconUrl: "", growth30d: 22 },
   { id: "figma", name: "Figma", iconUrl: "", growth30d: 18 },
@@ -287,6 +533,194 @@ const sendBuffer = (res, buffer, contentType) => {
   res.end(buffer);
 };
 
+const perfTickDurationsMs = [];
+
+const recordTickDuration = (durationMs) => {
+  if (!PERF_STATS_ENABLED) {
+    return;
+  }
+  perfTickDurationsMs.push(durationMs);
+  if (perfTickDurationsMs.length > PERF_TICK_SAMPLE_LIMIT) {
+    perfTickDurationsMs.splice(0, perfTickDurationsMs.length - PERF_TICK_SAMPLE_LIMIT);
+  }
+};
+
+// Tick figures cover the ticks since the previous call; CPU time is cumulative so callers can diff it.
+const takePerfSnapshot = () => {
+  const durations = perfTickDurationsMs.splice(0).sort((a, b) => a - b);
+  const total = durations.reduce((sum, value) => sum + value, 0);
+  let clients = 0;
+  for (const room of activeWorldRooms) {
+    clients += room.clients.length;
+  }
+  const memory = process.memoryUsage();
+  return {
+    atMs: Date.now(),
+    rooms: activeWorldRooms.size,
+    clients,
+    ticks: durations.length,
+    tickAvgMs: durations.length > 0 ? total / durations.length : 0,
+    tickP95Ms: durations.length > 0 ? durations[Math.floor((durations.length - 1) * 0.95)] : 0,
+    tickMaxMs: durations.length > 0 ? durations[durations.length - 1] : 0,
+    cpuMicros: process.cpuUsage(),
+    rssBytes: memory.rss,
+    heapUsedBytes: memory.heapUsed,
+  };
+};
+
+// Process-wide counters for `/metrics`; per-room figures live on each room's `metrics` and disappear with it.
+const serverMetrics = {
+  startedAtMs: Date.now(),
+  messagesReceived: new Map(),
+  orbTransfers: new Map(),
+  coinSpawns: 0,
+  coinPickups: 0,
+  iconCacheHits: 0,
+  iconCacheMisses: 0,
+};
+
+const incrementMetric = (counters, key, amount = 1) => {
+  counters.set(key, (counters.get(key) ?? 0) + amount);
+};
+
+const createRoomMetrics = () => ({
+  tickBucketCounts: METRICS_TICK_BUCKETS_SECONDS.map(() => 0),
+  tickCount: 0,
+  tickSumSeconds: 0,
+  tickOverruns: 0,
+  bytesSent: new Map(),
+});
+
+const observeRoomTick = (roomMetrics, durationMs) => {
+  const seconds = durationMs / 1000;
+  METRICS_TICK_BUCKETS_SECONDS.forEach((bound, index) => {
+    if (seconds <= bound) {
+      roomMetrics.tickBucketCounts[index] += 1;
+    }
+  });
+  roomMetrics.tickCount += 1;
+  roomMetrics.tickSumSeconds += seconds;
+  if (durationMs > SERVER_TICK_MS) {
+    roomMetrics.tickOverruns += 1;
+  }
+};
+
+// Counts what goes out over a client's socket, split into state patches and everything sent with `client.send`.
+const meterClientBytes = (client, roomMetrics) => {
+  const raw = client.raw.bind(client);
+  client.raw = (data, options, cb) => {
+    const kind = data?.[0] === Protocol.ROOM_STATE_PATCH ? "patch" : "message";
+    incrementMetric(roomMetrics.bytesSent, kind, data?.length ?? 0);
+    return raw(data, options, cb);
+  };
+};
+
+const escapeMetricLabel = (value) => String(value).replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
+
+const formatMetricSample = (name, labels, value) => {
+  const entries = Object.entries(labels);
+  const labelText =
+    entries.length > 0 ? `{${entries.map(([key, label]) => `${key}="${escapeMetricLabel(label)}"`).join(",")}}` : "";
+  return `${METRICS_PREFIX}${name}${labelText} ${value}`;
+};
+
+const pushMetricFamily = (lines, name, type, help, samples) => {
+  lines.push(`# HELP ${METRICS_PREFIX}${name} ${help}`);
+  lines.push(`# TYPE ${METRICS_PREFIX}${name} ${type}`);
+  for (const [labels, value] of samples) {
+    lines.push(formatMetricSample(name, labels, value));
+  }
+};
+
+// Prometheus text exposition format, version 0.0.4.
+const renderMetrics = () => {
+  const now = Date.now();
+  // A private room's id is its join code, so only public rooms get per-room series.
+  const rooms = Array.from(activeWorldRooms).filter((room) => !room.rules.isPrivate);
+  const lines = [];
+
+  pushMetricFamily(lines, "uptime_seconds", "gauge", "Seconds since the server process started.", [
+    [{}, (now - serverMetrics.startedAtMs) / 1000],
+  ]);
+  pushMetricFamily(lines, "rooms", "gauge", "Open world rooms, private ones included.", [[{}, activeWorldRooms.size]]);
+  pushMetricFamily(
+    lines,
+    "room_players",
+    "gauge",
+    "Pilots in each room, split into people and bots.",
+    rooms.flatMap((room) => [
+      [{ room: room.roomId, kind: "human" }, room.state.players.size - room.bots.size],
+      [{ room: room.roomId, kind: "bot" }, room.bots.size],
+    ]),
+  );
+  pushMetricFamily(lines, "tick_target_seconds", "gauge", "Configured simulation tick interval (SERVER_TICK_MS).", [
+    [{}, SERVER_TICK_MS / 1000],
+  ]);
+  pushMetricFamily(
+    lines,
+    "tick_duration_seconds",
+    "histogram",
+    "Time spent running one simulation tick.",
+    rooms.flatMap((room) => [
+      ...METRICS_TICK_BUCKETS_SECONDS.map((bound, index) => [
+        { room: room.roomId, le: bound },
+        room.metrics.tickBucketCounts[index],
+      ]),
+      [{ room: room.roomId, le: "+Inf" }, room.metrics.tickCount],
+    ]),
+  );
+  // Histogram _sum/_count samples share the family declared above.
+  for (const room of rooms) {
+    lines.push(formatMetricSample("tick_duration_seconds_sum", { room: room.roomId }, room.metrics.tickSumSeconds));
+    lines.push(formatMetricSample("tick_duration_seconds_count", { room: room.roomId }, room.metrics.tickCount));
+  }
+  pushMetricFamily(
+    lines,
+    "tick_overruns_total",
+    "counter",
+    "Simulation ticks that took longer than SERVER_TICK_MS.",
+    rooms.map((room) => [{ room: room.roomId }, room.metrics.tickOverruns]),
+  );
+  pushMetricFamily(
+    lines,
+    "bytes_sent_total",
+    "counter",
+    "Bytes sent to clients; kind is patch for state patches and message for everything else.",
+    rooms.flatMap((room) =>
+      ["patch", "message"].map((kind) => [{ room: room.roomId, kind }, room.metrics.bytesSent.get(kind) ?? 0]),
+    ),
+  );
+  pushMetricFamily(
+    lines,
+    "messages_received_total",
+    "counter",
+    "Client messages received, by message type.",
+    Array.from(serverMetrics.messagesReceived, ([type, count]) => [{ type }, count]),
+  );
+  pushMetricFamily(
+    lines,
+    "orb_transfers_total",
+    "counter",
+    "Times the orb changed hands; kind is pickup for a free orb and steal for a tag.",
+    ["pickup", "steal"].map((kind) => [{ kind }, serverMetrics.orbTransfers.get(kind) ?? 0]),
+  );
+  pushMetricFamily(lines, "coin_spawns_total", "counter", "Startup coins spawned.", [[{}, serverMetrics.coinSpawns]]);
+  pushMetricFamily(lines, "coin_pickups_total", "counter", "Startup coins picked up.", [[{}, serverMetrics.coinPickups]]);
+  pushMetricFamily(lines, "startup_catalog_items", "gauge", "Startups in the coin catalog.", [
+    [{}, startupCatalog.items.length],
+  ]);
+  if (startupCatalog.lastSyncedAtMs > 0) {
+    pushMetricFamily(lines, "startup_catalog_age_seconds", "gauge", "Seconds since the startup catalog last synced.", [
+      [{}, Math.max(0, now - startupCatalog.lastSyncedAtMs) / 1000],
+    ]);
+  }
+  pushMetricFamily(lines, "icon_cache_requests_total", "counter", "Startup icon requests, by whether the disk cache had the file.", [
+    [{ result: "hit" }, serverMetrics.iconCacheHits],
+    [{ result: "miss" }, serverMetrics.iconCacheMisses],
+  ]);
+  return `${lines.join("\n")}\n`;
+};
+
 const findStartupById = (startupId) =>
   startupCatalog.items.find((item) => item.id === startupId) ?? null;
 
@@ -419,240 +853,22 @@ const serveDist = (req, res) => {
   serveStaticFile(res, targetPath);
 };
 
-const createRng = (seed) => {
-  let t = seed >>> 0;
-  return () => {
-    t += 0x6d2b79f5;
-    let x = Math.imul(t ^ (t >>> 15), 1 | t);
-    x ^= x + Math.imul(x ^ (x >>> 7), 61 | x);
-    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
-  };
-};
-
-const fract = (n) => n - Math.floor(n);
-const smoothstep = (t) => t * t * (3 - 2 * t);
-const hash2 = (x, z, seed) =>
-  fract(Math.sin(x * 127.1 + z * 311.7 + seed * 17.13) * 43758.5453123);
-
-const valueNoise2 = (x, z, seed) => {
-  const x0 = Math.floor(x);
-  const z0 = Math.floor(z);
-  const x1 = x0 + 1;
-  const z1 = z0 + 1;
-
-  const tx = smoothstep(x - x0);
-  const tz = smoothstep(z - z0);
-
-  const n00 = hash2(x0, z0, seed);
-  const n10 = hash2(x1, z0, seed);
-  const n01 = hash2(x0, z1, seed);
-  const n11 = hash2(x1, z1, seed);
-
-  const nx0 = n00 + (n10 - n00) * tx;
-  const nx1 = n01 + (n11 - n01) * tx;
-  return nx0 + (nx1 - nx0) * tz;
-};
-
-const fractalNoise = (x, z) => {
-  let frequency = TERRAIN_NOISE_SCALE;
-  let amplitude = 1;
-  let total = 0;
-  let amplitudeSum = 0;
-
-  for (let octave = 0; octave < 4; octave += 1) {
-    total +=
-      (valueNoise2(x * frequency, z * frequency, TERRAIN_SEED + octave * 53) * 2 - 1) *
-      amplitude;
-    amplitudeSum += amplitude;
-    amplitude *= 0.5;
-    frequency *= 2;
-  }
-
-  return total / Math.max(amplitudeSum, Number.EPSILON);
-};
-
-const ridgeNoise = (x, z) => {
-  const n = valueNoise2(
-    x * TERRAIN_NOISE_SCALE * 2.3,
-    z * TERRAIN_NOISE_SCALE * 2.3,
-    TERRAIN_SEED + 999,
-  );
-  return 1 - Math.abs(n * 2 - 1);
-};
-
-const islandMask = (x, z) => {
-  const ratio = Math.hypot(x, z) / TERRAIN_ISLAND_RADIUS;
-  if (ratio >= 1) {
-    return 0;
-  }
-  return 1 - smoothstep(ratio * ratio);
-};
-
-const baseTerrainHeightAt = (x, z) => {
-  const mask = islandMask(x, z);
-  if (mask <= 0) {
-    return TERRAIN_HEIGHT_BASE - 2;
-  }
-
-  const base = fractalNoise(x, z);
-  const ridges = ridgeNoise(x, z);
-  const mixed = base * 0.75 + ridges * 0.25;
-  return TERRAIN_HEIGHT_BASE + mixed * TERRAIN_MAX_HEIGHT * mask;
-};
-
-const lakeDepthFromDistance = (distance, radius, baseHeight, waterY) => {
-  const outerRadius = radius + TERRAIN_INLAND_LAKE_RIM_WIDTH;
-  if (distance >= outerRadius) {
-    return 0;
-  }
-
-  const tOuter = clamp(distance / outerRadius, 0, 1);
-  const outerFalloff = 1 - smoothstep(tOuter);
-  const innerT = clamp(1 - distance / Math.max(radius, Number.EPSILON), 0, 1);
-  const bowl = innerT * innerT;
-  const proceduralDepth = TERRAIN_INLAND_LAKE_DEPTH * (bowl * 0.85 + outerFalloff * 0.15);
-  const minDepthToExposeWater = Math.max(0, baseHeight - (waterY - 0.18));
-  return Math.max(proceduralDepth, minDepthToExposeWater * innerT);
-};
-
-const carvedHeightForLakeCandidate = (x, z, lakeX, lakeZ, lakeRadius) => {
-  const baseHeight = baseTerrainHeightAt(x, z);
-  const distance = Math.hypot(x - lakeX, z - lakeZ);
-  return (
-    baseHeight -
-    lakeDepthFromDistance(distance, lakeRadius, baseHeight, TERRAIN_WATER_LEVEL)
-  );
-};
-
-const generateInlandLake = () => {
-  const rng = createRng(TERRAIN_SEED + 911);
-  const maxCenterRadius = TERRAIN_ISLAND_RADIUS * TERRAIN_INLAND_LAKE_MAX_CENTER_RADIUS_RATIO;
-  const attempts = 260;
-  const shoreSafety = 5;
-
-  for (let i = 0; i < attempts; i += 1) {
-    const theta = rng() * Math.PI * 2;
-    const centerRadius = Math.sqrt(rng()) * maxCenterRadius;
-    const x = Math.cos(theta) * centerRadius;
-    const z = Math.sin(theta) * centerRadius;
-    const radius =
-      TERRAIN_INLAND_LAKE_RADIUS_MIN +
-      (TERRAIN_INLAND_LAKE_RADIUS_MAX - TERRAIN_INLAND_LAKE_RADIUS_MIN) * rng();
-
-    if (Math.hypot(x, z) < TERRAIN_INLAND_LAKE_MIN_DIST_FROM_SPAWN) {
-      continue;
-    }
-    if (Math.hypot(x, z) + radius + shoreSafety > TERRAIN_ISLAND_RADIUS * 0.82) {
-      continue;
-    }
-
-    const centerGround = baseTerrainHeightAt(x, z);
-    if (centerGround < TERRAIN_WATER_LEVEL + 3) {
-      continue;
-    }
-
-    let valid = true;
-    let minRimGround = Number.POSITIVE_INFINITY;
-    for (let sample = 0; sample < 16; sample += 1) {
-      const angle = (sample / 16) * Math.PI * 2;
-      const sx = x + Math.cos(angle) * (radius + TERRAIN_INLAND_LAKE_RIM_WIDTH);
-      const sz = z + Math.sin(angle) * (radius + TERRAIN_INLAND_LAKE_RIM_WIDTH);
-      if (islandMask(sx, sz) <= 0.2) {
-        valid = false;
-        break;
-      }
-      minRimGround = Math.min(minRimGround, baseTerrainHeightAt(sx, sz));
-    }
-    if (!valid || minRimGround < TERRAIN_WATER_LEVEL + 0.8) {
-      continue;
-    }
-
-    const centerCarvedY = carvedHeightForLakeCandidate(x, z, x, z, radius);
-    if (centerCarvedY > TERRAIN_WATER_LEVEL - TERRAIN_INLAND_LAKE_MIN_UNDERWATER_DEPTH) {
-      continue;
-    }
-
-    let rimOk = true;
-    for (let sample = 0; sample < 16; sample += 1) {
-      const angle = (sample / 16) * Math.PI * 2;
-      const sx = x + Math.cos(angle) * (radius + TERRAIN_INLAND_LAKE_RIM_WIDTH * 0.5);
-      const sz = z + Math.sin(angle) * (radius + TERRAIN_INLAND_LAKE_RIM_WIDTH * 0.5);
-      const carvedRimY = carvedHeightForLakeCandidate(sx, sz, x, z, radius);
-      if (carvedRimY < TERRAIN_WATER_LEVEL + TERRAIN_INLAND_LAKE_MIN_RIM_ABOVE_WATER) {
-        rimOk = false;
-        break;
-      }
-    }
-    if (!rimOk) {
-      continue;
-    }
-
-    return { x, z, radius, waterY: TERRAIN_WATER_LEVEL };
-  }
-
-  const fallbackCandidates = [
-    { x: 34, z: -22, radius: 10.5 },
-    { x: -30, z: 25, radius: 9.8 },
-    { x: 22, z: 31, radius: 9.2 },
-  ];
-
-  for (const candidate of fallbackCandidates) {
-    if (Math.hypot(candidate.x, candidate.z) + candidate.radius + 4 > TERRAIN_ISLAND_RADIUS * 0.84) {
-      continue;
-    }
-    if (Math.hypot(candidate.x, candidate.z) < TERRAIN_INLAND_LAKE_MIN_DIST_FROM_SPAWN) {
-      continue;
-    }
-    if (baseTerrainHeightAt(candidate.x, candidate.z) < TERRAIN_WATER_LEVEL + 3) {
-      continue;
-    }
-    const centerCarvedY = carvedHeightForLakeCandidate(
-      candidate.x,
-      candidate.z,
-      candidate.x,
-      candidate.z,
-      candidate.radius,
-    );
-    if (centerCarvedY > TERRAIN_WATER_LEVEL - TERRAIN_INLAND_LAKE_MIN_UNDERWATER_DEPTH) {
-      continue;
-    }
-    return {
-      x: candidate.x,
-      z: candidate.z,
-      radius: candidate.radius,
-      waterY: TERRAIN_WATER_LEVEL,
-    };
-  }
-
-  return {
-    x: 28,
-    z: -24,
-    radius: 9.5,
-    waterY: TERRAIN_WATER_LEVEL,
-  };
-};
-
-const inlandLake = generateInlandLake();
-
-const isInInlandLake = (x, z) => {
-  if (!inlandLake) {
-    return false;
-  }
-  return Math.hypot(x - inlandLake.x, z - inlandLake.z) <= inlandLake.radius * 0.98;
-};
-
-const lakeDepthAt = (x, z) => {
-  if (!inlandLake) {
-    return 0;
-  }
-
-  const distance = Math.hypot(x - inlandLake.x, z - inlandLake.z);
-  const baseHeight = baseTerrainHeightAt(x, z);
-  return lakeDepthFromDistance(distance, inlandLake.radius, baseHeight, inlandLake.waterY);
+const randomInRange = (min, max) => min + Math.random() * (max - min);
+
+// Every room flies its own island; clients rebuild the same ground from the params published in WorldState.
+const pickRoomTerrainParams = () => {
+  const lakeRadiusMin = randomInRange(TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MIN, TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MAX - 4);
+  return normalizeWorldTerrainParams({
+    seed: crypto.randomInt(1, 2 ** 31),
+    islandRadius: randomInRange(TERRAIN_ISLAND_RADIUS_MIN, TERRAIN_ISLAND_RADIUS_MAX),
+    maxHeight: randomInRange(TERRAIN_MAX_HEIGHT_MIN, TERRAIN_MAX_HEIGHT_MAX),
+    lakeEnabled: Math.random() < ROOM_TERRAIN_LAKE_CHANCE,
+    lakeRadiusMin,
+    lakeRadiusMax: lakeRadiusMin + randomInRange(2, 4),
+    lakeDepth: randomInRange(TERRAIN_INLAND_LAKE_DEPTH_MIN, TERRAIN_INLAND_LAKE_DEPTH_MAX),
+  });
 };
 
-const terrainHeightAt = (x, z) => baseTerrainHeightAt(x, z) - lakeDepthAt(x, z);
-
 const toAbsoluteImageUrl = (value) => {
   const candidate = asTrimmedString(value);
   if (!candidate) {
@@ -1083,149 +1299,671 @@ const sanitizePlayerId = (value) => {
   return /^[a-zA-Z0-9_-]{8,80}$/.test(playerId) ? playerId : "";
 };
 
-const getPersistentLeaderboardEntries = () =>
-  Array.from(persistentScores.playersById.values())
-    .filter((entry) => Number.isFinite(entry.bestOrbScore) && entry.bestOrbScore > 0)
-    .sort((a, b) => {
-      if (b.bestOrbScore !== a.bestOrbScore) {
-        return b.bestOrbScore - a.bestOrbScore;
-      }
-      if (b.updatedAtMs !== a.updatedAtMs) {
-        return b.updatedAtMs - a.updatedAtMs;
-      }
-      return a.nickname.localeCompare(b.nickname);
-    })
-    .slice(0, LEADERBOARD_SIZE);
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 
-const persistScoreboard = () => {
-  try {
-    ensureParentDir(SCOREBOARD_CACHE_FILE_PATH);
-    writeFileSync(
-      SCOREBOARD_CACHE_FILE_PATH,
-      JSON.stringify(
-        {
-          players: Array.from(persistentScores.playersById.values()),
-        },
-        null,
-        2,
-      ),
-      "utf8",
-    );
-  } catch (error) {
-    console.warn("[scores] failed to persist scoreboard.", error);
+const chatBlockedWordsPattern =
+  CHAT_BLOCKED_WORDS.length > 0 ? new RegExp(`\\b(?:${CHAT_BLOCKED_WORDS.map(escapeRegExp).join("|")})\\b`, "gi") : null;
+
+const filterChatText = (text) =>
+  chatBlockedWordsPattern ? text.replace(chatBlockedWordsPattern, (match) => "*".repeat(match.length)) : text;
+
+// The shared rules plus the chat word filter; uniqueness depends on the room and is checked there.
+const checkNickname = (value) => {
+  const result = validateNickname(value);
+  if (result.ok && filterChatText(result.nickname) !== result.nickname) {
+    return { ok: false, error: "That nickname is not allowed." };
   }
+  return result;
 };
 
-const hydrateScoreboardFromDisk = () => {
-  if (!existsSync(SCOREBOARD_CACHE_FILE_PATH)) {
-    return false;
+// Returns 0 and records the send when the pilot is under the limit, otherwise how long until they may send again.
+const takeChatAllowance = (sendTimes, now) => {
+  while (sendTimes.length > 0 && now - sendTimes[0] >= CHAT_RATE_LIMIT_WINDOW_MS) {
+    sendTimes.shift();
+  }
+  if (sendTimes.length >= SAFE_CHAT_RATE_LIMIT_COUNT) {
+    return sendTimes[0] + CHAT_RATE_LIMIT_WINDOW_MS - now;
   }
+  sendTimes.push(now);
+  return 0;
+};
 
-  try {
-    const parsed = JSON.parse(readFileSync(SCOREBOARD_CACHE_FILE_PATH, "utf8"));
-    const players = Array.isArray(parsed?.players) ? parsed.players : [];
-    persistentScores.playersById.clear();
-    for (const entry of players) {
-      const playerId = sanitizePlayerId(entry?.playerId);
-      if (!playerId) {
-        continue;
-      }
-      persistentScores.playersById.set(playerId, {
-        playerId,
-        nickname: sanitizeNickname(entry?.nickname, `Pilot-${playerId.slice(0, 4)}`),
-        bestOrbScore: Math.max(0, Math.floor(asFiniteNumber(entry?.bestOrbScore, 0))),
-        createdAtMs: Math.max(0, Math.floor(asFiniteNumber(entry?.createdAtMs, Date.now()))),
-        updatedAtMs: Math.max(0, Math.floor(asFiniteNumber(entry?.updatedAtMs, Date.now()))),
-      });
+const toBoundedInteger = (value, fallback, min, max) => {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? clamp(Math.round(numeric), min, max) : fallback;
+};
+
+const toBoundedNumber = (value, fallback, min, max) => {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? clamp(numeric, min, max) : fallback;
+};
+
+// Room options arrive from whichever client created the room, so every field falls back to the public defaults.
+const sanitizeRoomOptions = (options) => {
+  const maxPlayers = toBoundedInteger(options?.maxPlayers, MAX_CLIENTS, ROOM_MIN_PLAYERS, MAX_CLIENTS);
+  const orbMaxHoldMs = toBoundedInteger(options?.orbMaxHoldMs, 0, 0, ORB_MAX_HOLD_MS_MAX);
+  return {
+    name: asTrimmedString(options?.roomName).replace(/\s+/g, " ").slice(0, ROOM_NAME_MAX_LENGTH),
+    isPrivate: options?.private === true,
+    maxPlayers,
+    // Task rooms race through turnpoints and storm rooms fly for survival instead of chasing the orb.
+    orbEnabled: options?.orbEnabled !== false && options?.mode !== "task" && options?.mode !== "storm",
+    orbMinPlayers: toBoundedInteger(
+      options?.orbMinPlayers,
+      ORB_MIN_PLAYERS,
+      ROOM_MIN_PLAYERS,
+      Math.min(ORB_MIN_PLAYERS_MAX, maxPlayers),
+    ),
+    orbStealCooldownMs: toBoundedInteger(
+      options?.orbStealCooldownMs,
+      ORB_STEAL_COOLDOWN_MS,
+      0,
+      ORB_STEAL_COOLDOWN_MAX_MS,
+    ),
+    orbHolderSinkRate: toBoundedNumber(options?.orbHolderSinkRate, 0, 0, ORB_HOLDER_SINK_RATE_MAX),
+    orbHolderSlowdownPct: toBoundedInteger(options?.orbHolderSlowdownPct, 0, 0, ORB_HOLDER_SLOWDOWN_PCT_MAX),
+    orbHolderTrail: options?.orbHolderTrail === true,
+    orbStealBonusPct: toBoundedInteger(options?.orbStealBonusPct, 0, 0, ORB_STEAL_BONUS_PCT_MAX),
+    // 0 turns the limit off; anything else is raised to the shortest limit that still leaves time to score.
+    orbMaxHoldMs: orbMaxHoldMs > 0 ? Math.max(orbMaxHoldMs, ORB_MAX_HOLD_MS_MIN) : 0,
+    botsEnabled: options?.bots !== false,
+    botDifficulty: Object.hasOwn(BOT_DIFFICULTIES, options?.botDifficulty)
+      ? options.botDifficulty
+      : BOT_DEFAULT_DIFFICULTY,
+    region: isMatchmakingRegion(options?.region) ? options.region : "",
+    mode: isGameMode(options?.mode) ? options.mode : "ffa",
+    teamCount: toBoundedInteger(options?.teamCount, TEAM_COUNT_MIN, TEAM_COUNT_MIN, TEAM_COUNT_MAX),
+    roundDurationMs:
+      toBoundedInteger(options?.roundMinutes, ROUND_MINUTES_DEFAULT, ROUND_MINUTES_MIN, ROUND_MINUTES_MAX) * 60000,
+  };
+};
+
+const createRoomCode = () => {
+  const usedCodes = new Set(Array.from(activeWorldRooms, (room) => room.roomId));
+  for (;;) {
+    let code = "";
+    for (let index = 0; index < ROOM_CODE_LENGTH; index += 1) {
+      code += ROOM_CODE_ALPHABET[crypto.randomInt(ROOM_CODE_ALPHABET.length)];
+    }
+    if (!usedCodes.has(code)) {
+      return code;
     }
-    return true;
-  } catch (error) {
-    console.warn("[scores] failed to hydrate scoreboard cache.", error);
-    return false;
   }
 };
 
-hydrateScoreboardFromDisk();
-
-class NetPlayer extends Schema {
-  constructor() {
-    super();
-    this.playerId = "";
-    this.nickname = "";
-    this.x = 0;
-    this.y = SPAWN_Y;
-    this.z = 0;
-    this.yaw = 0;
-    this.bank = 0;
-    this.speedbar = false;
-    this.currentOrbScore = 0;
-    this.bestOrbScore = 0;
-    this.speedEffectPct = 0;
-    this.speedEffectEndsAtMs = 0;
-    this.speedEffectActive = false;
-    this.lastCoinPickupPct = 0;
-    this.lastCoinPickupAtMs = 0;
-    this.lastCoinPickupSeq = 0;
-    this.lastCoinPickupStartupName = "";
-    this.updatedAtMs = Date.now();
+const getWindowOrbScore = (record, window, period) => {
+  if (window === "daily") {
+    return record.dailyPeriod === period ? record.dailyOrbScore : 0;
   }
-}
+  if (window === "weekly") {
+    return record.weeklyPeriod === period ? record.weeklyOrbScore : 0;
+  }
+  return record.bestOrbScore;
+};
 
-defineTypes(NetPlayer, {
-  playerId: "string",
-  nickname: "string",
-  x: "number",
-  y: "number",
-  z: "number",
-  yaw: "number",
-  bank: "number",
-  speedbar: "boolean",
-  currentOrbScore: "number",
-  bestOrbScore: "number",
-  speedEffectPct: "number",
-  speedEffectEndsAtMs: "number",
-  speedEffectActive: "boolean",
-  lastCoinPickupPct: "number",
-  lastCoinPickupAtMs: "number",
-  lastCoinPickupSeq: "number",
-  lastCoinPickupStartupName: "string",
-  updatedAtMs: "number",
-});
+const getLeaderboardRanking = (window, now) => {
+  const period = getLeaderboardPeriod(window, now);
+  const cached = leaderboardRankings.get(window);
+  if (cached?.revision === persistentScores.revision && cached.period === period) {
+    return cached;
+  }
 
-class NetLeaderboardEntry extends Schema {
-  constructor() {
-    super();
-    this.sessionId = "";
-    this.nickname = "";
-    this.score = 0;
+  const entries = [];
+  for (const record of persistentScores.playersById.values()) {
+    const score = getWindowOrbScore(record, window, period);
+    if (Number.isFinite(score) && score > 0) {
+      entries.push({ record, score });
+    }
   }
-}
+  entries.sort((a, b) => {
+    if (b.score !== a.score) {
+      return b.score - a.score;
+    }
+    if (b.record.updatedAtMs !== a.record.updatedAtMs) {
+      return b.record.updatedAtMs - a.record.updatedAtMs;
+    }
+    return a.record.nickname.localeCompare(b.record.nickname);
+  });
+  const ranking = {
+    revision: persistentScores.revision,
+    period,
+    entries,
+    rankByPlayerId: new Map(entries.map((entry, index) => [entry.record.playerId, index + 1])),
+  };
+  leaderboardRankings.set(window, ranking);
+  return ranking;
+};
 
-defineTypes(NetLeaderboardEntry, {
-  sessionId: "string",
-  nickname: "string",
-  score: "number",
-});
+const getPersistentLeaderboardEntries = () =>
+  getLeaderboardRanking("alltime", Date.now())
+    .entries.slice(0, LEADERBOARD_SIZE)
+    .map((entry) => entry.record);
 
-class NetOrb extends Schema {
-  constructor() {
-    super();
-    this.x = 0;
-    this.y = ORB_SPAWN_ALTITUDE_MIN;
-    this.z = 0;
-    this.holderSessionId = "";
-    this.lastTransferAtMs = 0;
-    this.spawnSeq = 0;
+const toPlayerRecord = (entry) => {
+  const playerId = sanitizePlayerId(entry?.playerId);
+  if (!playerId) {
+    return null;
   }
-}
+  return {
+    playerId,
+    nickname: sanitizeNickname(entry?.nickname, `Pilot-${playerId.slice(0, 4)}`),
+    bestOrbScore: Math.max(0, Math.floor(asFiniteNumber(entry?.bestOrbScore, 0))),
+    dailyOrbScore: Math.max(0, Math.floor(asFiniteNumber(entry?.dailyOrbScore, 0))),
+    dailyPeriod: asTrimmedString(entry?.dailyPeriod),
+    weeklyOrbScore: Math.max(0, Math.floor(asFiniteNumber(entry?.weeklyOrbScore, 0))),
+    weeklyPeriod: asTrimmedString(entry?.weeklyPeriod),
+    skillRating: Math.max(0, asFiniteNumber(entry?.skillRating, SKILL_RATING_DEFAULT)),
+    // Until then the old raw playerId still claims this record; 0 once claimed or for records made with a token.
+    legacyClaimUntilMs: Math.max(0, Math.floor(asFiniteNumber(entry?.legacyClaimUntilMs, 0))),
+    createdAtMs: Math.max(0, Math.floor(asFiniteNumber(entry?.createdAtMs, Date.now()))),
+    updatedAtMs: Math.max(0, Math.floor(asFiniteNumber(entry?.updatedAtMs, Date.now()))),
+  };
+};
 
-defineTypes(NetOrb, {
+const loadPlayerRecords = (entries) => {
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    const record = toPlayerRecord(entry);
+    if (record) {
+      persistentScores.playersById.set(record.playerId, record);
+    }
+  }
+};
+
+const writeFileDurably = async (filePath, text, flag) => {
+  const handle = await open(filePath, flag);
+  try {
+    await handle.writeFile(text, "utf8");
+    await handle.datasync();
+  } finally {
+    await handle.close();
+  }
+};
+
+const compactPlayerStore = async () => {
+  ensureParentDir(PLAYER_STORE_SNAPSHOT_PATH);
+  const snapshot = JSON.stringify(
+    { savedAtMs: Date.now(), players: Array.from(persistentScores.playersById.values()) },
+    null,
+    2,
+  );
+  const tempPath = `${PLAYER_STORE_SNAPSHOT_PATH}.tmp`;
+  await writeFileDurably(tempPath, snapshot, "w");
+  await rename(tempPath, PLAYER_STORE_SNAPSHOT_PATH);
+  // Replaying journal lines onto the new snapshot is harmless, so a crash before this truncate loses nothing.
+  await writeFileDurably(PLAYER_STORE_JOURNAL_PATH, "", "w");
+  playerStore.journalBytes = 0;
+};
+
+const appendPlayerStoreBatch = async (line) => {
+  ensureParentDir(PLAYER_STORE_JOURNAL_PATH);
+  await writeFileDurably(PLAYER_STORE_JOURNAL_PATH, line, "a");
+  playerStore.journalBytes += Buffer.byteLength(line);
+  if (playerStore.journalBytes >= PLAYER_STORE_COMPACT_BYTES) {
+    await compactPlayerStore();
+  }
+};
+
+const markPlayerRecordDirty = (playerId) => {
+  persistentScores.revision += 1;
+  playerStore.dirtyIds.add(playerId);
+  if (!playerStore.flushTimer) {
+    playerStore.flushTimer = setTimeout(() => {
+      void flushPlayerStore();
+    }, PLAYER_STORE_FLUSH_MS);
+  }
+};
+
+// Resolves once everything changed so far is on disk.
+const flushPlayerStore = () => {
+  if (playerStore.flushTimer) {
+    clearTimeout(playerStore.flushTimer);
+    playerStore.flushTimer = null;
+  }
+  if (playerStore.dirtyIds.size === 0) {
+    return playerStore.flushChain;
+  }
+
+  const playerIds = Array.from(playerStore.dirtyIds);
+  playerStore.dirtyIds.clear();
+  const upserts = [];
+  const deletes = [];
+  for (const playerId of playerIds) {
+    const record = persistentScores.playersById.get(playerId);
+    if (record) {
+      upserts.push(record);
+    } else {
+      deletes.push(playerId);
+    }
+  }
+  const line = `${JSON.stringify({ atMs: Date.now(), upserts, deletes })}\n`;
+  playerStore.flushChain = playerStore.flushChain
+    .then(() => appendPlayerStoreBatch(line))
+    .catch((error) => {
+      console.warn("[scores] failed to persist player records; retrying.", error);
+      for (const playerId of playerIds) {
+        markPlayerRecordDirty(playerId);
+      }
+    });
+  return playerStore.flushChain;
+};
+
+const replayPlayerStoreJournal = () => {
+  if (!existsSync(PLAYER_STORE_JOURNAL_PATH)) {
+    return 0;
+  }
+  const lines = readFileSync(PLAYER_STORE_JOURNAL_PATH, "utf8").split("\n").filter(Boolean);
+  let applied = 0;
+  for (const line of lines) {
+    let batch;
+    try {
+      batch = JSON.parse(line);
+    } catch {
+      console.warn(`[scores] skipped ${lines.length - applied} unreadable player journal line(s).`);
+      break;
+    }
+    loadPlayerRecords(batch?.upserts);
+    for (const playerId of Array.isArray(batch?.deletes) ? batch.deletes : []) {
+      persistentScores.playersById.delete(playerId);
+    }
+    applied += 1;
+  }
+  return lines.length;
+};
+
+const migrateLegacyScoreboard = () => {
+  if (!existsSync(SCOREBOARD_CACHE_FILE_PATH)) {
+    return false;
+  }
+  const parsed = JSON.parse(readFileSync(SCOREBOARD_CACHE_FILE_PATH, "utf8"));
+  const legacyClaimUntilMs = Date.now() + LEGACY_PLAYER_ID_CLAIM_WINDOW_MS;
+  loadPlayerRecords(
+    (Array.isArray(parsed?.players) ? parsed.players : []).map((entry) => ({ ...entry, legacyClaimUntilMs })),
+  );
+  console.log(
+    `[scores] migrated ${persistentScores.playersById.size} player record(s) from ${SCOREBOARD_CACHE_FILE_PATH}.`,
+  );
+  return true;
+};
+
+const hydratePlayerStore = () => {
+  persistentScores.playersById.clear();
+  try {
+    const hasSnapshot = existsSync(PLAYER_STORE_SNAPSHOT_PATH);
+    if (!hasSnapshot && !existsSync(PLAYER_STORE_JOURNAL_PATH)) {
+      if (migrateLegacyScoreboard()) {
+        playerStore.flushChain = compactPlayerStore();
+      }
+      return;
+    }
+    if (hasSnapshot) {
+      loadPlayerRecords(JSON.parse(readFileSync(PLAYER_STORE_SNAPSHOT_PATH, "utf8"))?.players);
+    }
+    if (replayPlayerStoreJournal() > 0) {
+      playerStore.flushChain = compactPlayerStore();
+    }
+  } catch (error) {
+    console.warn("[scores] failed to load the player store.", error);
+  }
+  playerStore.flushChain = playerStore.flushChain.catch((error) => {
+    console.warn("[scores] failed to compact the player store.", error);
+  });
+};
+
+hydratePlayerStore();
+
+// Set PLAYER_TOKEN_SECRET when several servers share one player store; otherwise a key is generated next to
+// the store on first start so issued tokens stay valid across restarts.
+const loadPlayerTokenSecret = () => {
+  const configured = process.env.PLAYER_TOKEN_SECRET?.trim();
+  if (configured) {
+    return configured;
+  }
+  try {
+    const stored = existsSync(PLAYER_TOKEN_KEY_PATH) ? readFileSync(PLAYER_TOKEN_KEY_PATH, "utf8").trim() : "";
+    if (stored) {
+      return stored;
+    }
+    const generated = crypto.randomBytes(32).toString("hex");
+    ensureParentDir(PLAYER_TOKEN_KEY_PATH);
+    writeFileSync(PLAYER_TOKEN_KEY_PATH, `${generated}\n`, { encoding: "utf8", mode: 0o600 });
+    return generated;
+  } catch (error) {
+    console.warn("[identity] failed to persist the token key; issued tokens will not survive a restart.", error);
+    return crypto.randomBytes(32).toString("hex");
+  }
+};
+
+const playerTokenSecret = loadPlayerTokenSecret();
+
+const signPlayerId = (playerId) =>
+  crypto.createHmac("sha256", playerTokenSecret).update(`${PLAYER_TOKEN_VERSION}.${playerId}`).digest("base64url");
+
+// Tokens look like `v1.<playerId>.<signature>`; player IDs never contain dots.
+const issuePlayerToken = (playerId) => `${PLAYER_TOKEN_VERSION}.${playerId}.${signPlayerId(playerId)}`;
+
+// Returns the playerId a token was issued for, or "" when it is missing, malformed or not signed by us.
+const verifyPlayerToken = (token) => {
+  const [version, rawPlayerId, signature, ...rest] = asTrimmedString(token).split(".");
+  const playerId = sanitizePlayerId(rawPlayerId);
+  if (version !== PLAYER_TOKEN_VERSION || !playerId || !signature || rest.length > 0) {
+    return "";
+  }
+  const given = Buffer.from(signature);
+  const expected = Buffer.from(signPlayerId(playerId));
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? playerId : "";
+};
+
+// Works out who is joining. A valid token wins. Clients from before tokens existed send their raw playerId
+// instead. Those ids are public (old scoreboard files, synced state), so one only takes over an imported record
+// while its claim window is open, and only once: the first claim retires the raw id. Everyone else gets a fresh
+// id. Clients that send neither field (the load tester, scripts) stay anonymous and never touch the store.
+const resolvePlayerIdentity = (options) => {
+  const tokenPlayerId = verifyPlayerToken(options?.identityToken);
+  if (tokenPlayerId) {
+    return { playerId: tokenPlayerId, token: asTrimmedString(options.identityToken) };
+  }
+  if (options?.identityToken === undefined && options?.playerId === undefined) {
+    return null;
+  }
+  const legacyPlayerId = sanitizePlayerId(options?.playerId);
+  const legacyRecord = legacyPlayerId ? persistentScores.playersById.get(legacyPlayerId) : null;
+  if (legacyRecord && Date.now() <= legacyRecord.legacyClaimUntilMs) {
+    persistentScores.playersById.set(legacyPlayerId, { ...legacyRecord, legacyClaimUntilMs: 0 });
+    markPlayerRecordDirty(legacyPlayerId);
+    console.log(`[identity] legacy player ${legacyPlayerId} claimed their record.`);
+    return { playerId: legacyPlayerId, token: issuePlayerToken(legacyPlayerId) };
+  }
+  const playerId = crypto.randomBytes(16).toString("hex");
+  return { playerId, token: issuePlayerToken(playerId) };
+};
+
+// Stable, non-reversible key for a pilot in synced state, so the room never hands out player IDs.
+const toPublicPlayerKey = (playerId) => crypto.createHash("sha256").update(playerId).digest("hex").slice(0, 16);
+
+const persistBans = () => {
+  try {
+    ensureParentDir(BANS_FILE_PATH);
+    writeFileSync(BANS_FILE_PATH, JSON.stringify({ bans: Array.from(bannedPlayers.values()) }, null, 2), "utf8");
+  } catch (error) {
+    console.warn("[admin] failed to persist bans.", error);
+  }
+};
+
+const hydrateBansFromDisk = () => {
+  if (!existsSync(BANS_FILE_PATH)) {
+    return;
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(BANS_FILE_PATH, "utf8"));
+    bannedPlayers.clear();
+    for (const entry of Array.isArray(parsed?.bans) ? parsed.bans : []) {
+      const playerId = sanitizePlayerId(entry?.playerId);
+      if (playerId) {
+        bannedPlayers.set(playerId, {
+          playerId,
+          reason: asTrimmedString(entry?.reason).slice(0, ADMIN_BAN_REASON_MAX_LENGTH),
+          bannedAtMs: Math.max(0, Math.floor(asFiniteNumber(entry?.bannedAtMs, Date.now()))),
+        });
+      }
+    }
+  } catch (error) {
+    console.warn("[admin] failed to read bans file.", error);
+  }
+};
+
+hydrateBansFromDisk();
+
+class NetPlayer extends Schema {
+  constructor() {
+    super();
+    this.playerId = "";
+    // Synced stand-in for playerId, the same across rejoins; anonymous pilots get one per session.
+    this.playerKey = "";
+    this.nickname = "";
+    this.nicknameChangedAtMs = 0;
+    this.skillRating = SKILL_RATING_DEFAULT;
+    this.x = 0;
+    this.y = SPAWN_Y;
+    this.z = 0;
+    this.yaw = 0;
+    this.bank = 0;
+    this.speedbar = false;
+    this.currentOrbScore = 0;
+    this.bestOrbScore = 0;
+    this.speedEffectPct = 0;
+    this.speedEffectEndsAtMs = 0;
+    this.speedEffectActive = false;
+    this.lastCoinPickupPct = 0;
+    this.lastCoinPickupAtMs = 0;
+    this.lastCoinPickupSeq = 0;
+    this.lastCoinPickupStartupName = "";
+    // Not synced; lets the replay recorder credit each removed coin to the pilot who took it.
+    this.lastCoinPickupId = "";
+    this.team = NO_TEAM;
+    this.taskNextTurnpoint = 0;
+    this.taskStartedAtMs = 0;
+    this.taskElapsedMs = 0;
+    this.taskRank = 0;
+    this.roundHoldMs = 0;
+    this.roundSteals = 0;
+    this.roundPickups = 0;
+    this.roundSurvivedMs = 0;
+    this.eliminated = false;
+    this.connected = true;
+    this.isBot = false;
+    this.updatedAtMs = Date.now();
+  }
+}
+
+// The pose fields (x, y, z, yaw, bank, speedbar, updatedAtMs) are deliberately not synced: each client gets
+// them through its own distance-graded `poses` stream, see `buildInterestMessage`.
+defineTypes(NetPlayer, {
+  playerKey: "string",
+  nickname: "string",
+  currentOrbScore: "number",
+  bestOrbScore: "number",
+  speedEffectPct: "number",
+  speedEffectEndsAtMs: "number",
+  speedEffectActive: "boolean",
+  lastCoinPickupPct: "number",
+  lastCoinPickupAtMs: "number",
+  lastCoinPickupSeq: "number",
+  lastCoinPickupStartupName: "string",
+  team: "number",
+  taskNextTurnpoint: "number",
+  taskStartedAtMs: "number",
+  taskElapsedMs: "number",
+  taskRank: "number",
+  roundHoldMs: "number",
+  roundSteals: "number",
+  roundPickups: "number",
+  roundSurvivedMs: "number",
+  eliminated: "boolean",
+  connected: "boolean",
+  isBot: "boolean",
+});
+
+// One per team in team rooms, indexed by team; empty in free-for-all rooms.
+class NetTeamScore extends Schema {
+  constructor() {
+    super();
+    this.team = NO_TEAM;
+    this.score = 0;
+  }
+}
+
+defineTypes(NetTeamScore, {
+  team: "number",
+  score: "number",
+});
+
+// An open altitude limit is sent as 0; real limits never are, since goal floors sit above the ground and start
+// ceilings at or above thermal base.
+class NetTaskTurnpoint extends Schema {
+  constructor() {
+    super();
+    this.kind = "turnpoint";
+    this.x = 0;
+    this.z = 0;
+    this.radius = 0;
+    this.minAltitude = 0;
+    this.maxAltitude = 0;
+  }
+}
+
+defineTypes(NetTaskTurnpoint, {
+  kind: "string",
+  x: "number",
+  z: "number",
+  radius: "number",
+  minAltitude: "number",
+  maxAltitude: "number",
+});
+
+// The current cross-country task; `turnpoints` stays empty outside task rooms.
+class NetTask extends Schema {
+  constructor() {
+    super();
+    this.seq = 0;
+    this.startOpensAtMs = 0;
+    this.deadlineAtMs = 0;
+    this.turnpoints = new ArraySchema();
+  }
+}
+
+defineTypes(NetTask, {
+  seq: "number",
+  startOpensAtMs: "number",
+  deadlineAtMs: "number",
+  turnpoints: [NetTaskTurnpoint],
+});
+
+class NetRoundResult extends Schema {
+  constructor() {
+    super();
+    this.sessionId = "";
+    this.nickname = "";
+    this.team = NO_TEAM;
+    this.isBot = false;
+    this.holdMs = 0;
+    this.steals = 0;
+    this.pickups = 0;
+    this.survivedMs = 0;
+  }
+}
+
+defineTypes(NetRoundResult, {
+  sessionId: "string",
+  nickname: "string",
+  team: "number",
+  isBot: "boolean",
+  holdMs: "number",
+  steals: "number",
+  pickups: "number",
+  survivedMs: "number",
+});
+
+// The storm circle of a live storm round, as its current stage: it holds at `from*` until `shrinkStartsAtMs`
+// and closes in on `to*` by `shrinkEndsAtMs`. Clients interpolate the circle themselves with `getStormCircle`.
+class NetStorm extends Schema {
+  constructor() {
+    super();
+    this.active = false;
+    this.stage = 0;
+    this.fromX = 0;
+    this.fromZ = 0;
+    this.fromRadius = 0;
+    this.toX = 0;
+    this.toZ = 0;
+    this.toRadius = 0;
+    this.shrinkStartsAtMs = 0;
+    this.shrinkEndsAtMs = 0;
+  }
+}
+
+defineTypes(NetStorm, {
+  active: "boolean",
+  stage: "number",
+  fromX: "number",
+  fromZ: "number",
+  fromRadius: "number",
+  toX: "number",
+  toZ: "number",
+  toRadius: "number",
+  shrinkStartsAtMs: "number",
+  shrinkEndsAtMs: "number",
+});
+
+// `phaseEndsAtMs` is 0 while warmup waits for enough pilots. `results` holds the last finished round until the
+// next one starts; an empty `winnerSessionId` (or NO_TEAM `winnerTeam`) means nobody won outright.
+class NetMatch extends Schema {
+  constructor() {
+    super();
+    this.phase = "warmup";
+    this.phaseEndsAtMs = 0;
+    this.round = 0;
+    this.winnerSessionId = "";
+    this.winnerTeam = NO_TEAM;
+    this.results = new ArraySchema();
+  }
+}
+
+defineTypes(NetMatch, {
+  phase: "string",
+  phaseEndsAtMs: "number",
+  round: "number",
+  winnerSessionId: "string",
+  winnerTeam: "number",
+  results: [NetRoundResult],
+});
+
+class NetLeaderboardEntry extends Schema {
+  constructor() {
+    super();
+    this.sessionId = "";
+    this.nickname = "";
+    this.score = 0;
+  }
+}
+
+defineTypes(NetLeaderboardEntry, {
+  sessionId: "string",
+  nickname: "string",
+  score: "number",
+});
+
+class NetOrb extends Schema {
+  constructor() {
+    super();
+    this.x = 0;
+    this.y = ORB_SPAWN_ALTITUDE_MIN;
+    this.z = 0;
+    this.holderSessionId = "";
+    this.lastTransferAtMs = 0;
+    this.spawnSeq = 0;
+    // Points per second for the current hold; above 1 only after a steal in rooms with `orbStealBonusPct`.
+    this.scoreMultiplier = 1;
+    // Set while a lost orb falls or lies where it came down; `vx`/`vy`/`vz` (world units per second) let clients
+    // extrapolate between patches.
+    this.dropped = false;
+    this.vx = 0;
+    this.vy = 0;
+    this.vz = 0;
+  }
+}
+
+defineTypes(NetOrb, {
   x: "number",
   y: "number",
   z: "number",
   holderSessionId: "string",
   lastTransferAtMs: "number",
   spawnSeq: "number",
+  scoreMultiplier: "number",
+  dropped: "boolean",
+  vx: "number",
+  vy: "number",
+  vz: "number",
 });
 
 class NetThermal extends Schema {
@@ -1288,27 +2026,105 @@ defineTypes(NetStartupCoin, {
   expiresAtMs: "number",
 });
 
+class NetTerrain extends Schema {
+  constructor() {
+    super();
+    this.seed = 0;
+    this.islandRadius = 0;
+    this.maxHeight = 0;
+    this.lakeEnabled = false;
+    this.lakeRadiusMin = 0;
+    this.lakeRadiusMax = 0;
+    this.lakeDepth = 0;
+  }
+}
+
+defineTypes(NetTerrain, {
+  seed: "number",
+  islandRadius: "number",
+  maxHeight: "number",
+  lakeEnabled: "boolean",
+  lakeRadiusMin: "number",
+  lakeRadiusMax: "number",
+  lakeDepth: "number",
+});
+
+class NetRoomInfo extends Schema {
+  constructor() {
+    super();
+    this.code = "";
+    this.name = "";
+    this.isPrivate = false;
+    this.maxPlayers = MAX_CLIENTS;
+    this.orbEnabled = true;
+    this.orbMinPlayers = ORB_MIN_PLAYERS;
+    this.orbStealCooldownMs = ORB_STEAL_COOLDOWN_MS;
+    this.orbHolderSinkRate = 0;
+    this.orbHolderSlowdownPct = 0;
+    this.orbHolderTrail = false;
+    this.orbStealBonusPct = 0;
+    this.orbMaxHoldMs = 0;
+    this.botsEnabled = true;
+    this.botDifficulty = BOT_DEFAULT_DIFFICULTY;
+    this.mode = "ffa";
+    this.teamCount = 0;
+    this.roundDurationMs = ROUND_MINUTES_DEFAULT * 60000;
+  }
+}
+
+defineTypes(NetRoomInfo, {
+  code: "string",
+  name: "string",
+  isPrivate: "boolean",
+  maxPlayers: "number",
+  orbEnabled: "boolean",
+  orbMinPlayers: "number",
+  orbStealCooldownMs: "number",
+  orbHolderSinkRate: "number",
+  orbHolderSlowdownPct: "number",
+  orbHolderTrail: "boolean",
+  orbStealBonusPct: "number",
+  orbMaxHoldMs: "number",
+  botsEnabled: "boolean",
+  botDifficulty: "string",
+  mode: "string",
+  teamCount: "number",
+  roundDurationMs: "number",
+});
+
 class WorldState extends Schema {
   constructor() {
     super();
+    this.room = new NetRoomInfo();
     this.players = new MapSchema();
     this.thermals = new ArraySchema();
+    this.terrain = new NetTerrain();
     this.orb = new NetOrb();
     this.coins = new ArraySchema();
     this.leaderboard = new ArraySchema();
+    this.teams = new ArraySchema();
+    this.task = new NetTask();
+    this.match = new NetMatch();
+    this.storm = new NetStorm();
     this.orbActive = false;
     this.orbCountdownRemainingMs = 0;
-    this.worldSeed = 5000;
+    this.worldSeed = THERMAL_INITIAL_SEED;
     this.serverTimeMs = Date.now();
   }
 }
 
 defineTypes(WorldState, {
+  room: NetRoomInfo,
   players: { map: NetPlayer },
   thermals: [NetThermal],
+  terrain: NetTerrain,
   orb: NetOrb,
   coins: [NetStartupCoin],
   leaderboard: [NetLeaderboardEntry],
+  teams: [NetTeamScore],
+  task: NetTask,
+  match: NetMatch,
+  storm: NetStorm,
   orbActive: "boolean",
   orbCountdownRemainingMs: "number",
   worldSeed: "number",
@@ -1326,20 +2142,42 @@ const syncPersistentLeaderboardToRoom = (room) => {
   room.state.leaderboard.clear();
   for (const entry of entries) {
     const netEntry = new NetLeaderboardEntry();
-    netEntry.sessionId = entry.playerId;
+    netEntry.sessionId = toPublicPlayerKey(entry.playerId);
     netEntry.nickname = entry.nickname;
     netEntry.score = entry.bestOrbScore;
     room.state.leaderboard.push(netEntry);
   }
 };
 
+// The all-time rows rooms were last sent, so that changes further down the board do not resend it to everyone.
+let syncedLeaderboardTop = [];
+
 const syncPersistentLeaderboardToRooms = () => {
+  syncedLeaderboardTop = getPersistentLeaderboardEntries().map(({ playerId, bestOrbScore }) => ({
+    playerId,
+    bestOrbScore,
+  }));
   for (const room of activeWorldRooms) {
     syncPersistentLeaderboardToRoom(room);
   }
 };
 
-const upsertPersistentPlayerScore = (playerId, nickname, bestOrbScore) => {
+// True when a new all-time best or nickname for `playerId` changes the rows rooms show.
+const affectsSyncedLeaderboard = (playerId, bestOrbScore) => {
+  if (syncedLeaderboardTop.some((entry) => entry.playerId === playerId)) {
+    return true;
+  }
+  if (bestOrbScore <= 0) {
+    return false;
+  }
+  return (
+    syncedLeaderboardTop.length < LEADERBOARD_SIZE ||
+    bestOrbScore >= syncedLeaderboardTop[syncedLeaderboardTop.length - 1].bestOrbScore
+  );
+};
+
+// `orbScore` is a run the pilot has just reached; it raises their all-time, weekly and daily bests as needed.
+const upsertPersistentPlayerScore = (playerId, nickname, orbScore) => {
   const normalizedPlayerId = sanitizePlayerId(playerId);
   if (!normalizedPlayerId) {
     return;
@@ -1347,28 +2185,58 @@ const upsertPersistentPlayerScore = (playerId, nickname, bestOrbScore) => {
 
   const now = Date.now();
   const normalizedNickname = sanitizeNickname(nickname, `Pilot-${normalizedPlayerId.slice(0, 4)}`);
-  const nextBestScore = Math.max(0, Math.floor(asFiniteNumber(bestOrbScore, 0)));
+  const score = Math.max(0, Math.floor(asFiniteNumber(orbScore, 0)));
   const existing = persistentScores.playersById.get(normalizedPlayerId);
+  const dailyPeriod = getLeaderboardPeriod("daily", now);
+  const weeklyPeriod = getLeaderboardPeriod("weekly", now);
+  const dailyBest = existing ? getWindowOrbScore(existing, "daily", dailyPeriod) : 0;
+  const weeklyBest = existing ? getWindowOrbScore(existing, "weekly", weeklyPeriod) : 0;
   const shouldPersist =
     !existing ||
-    nextBestScore > existing.bestOrbScore ||
+    score > existing.bestOrbScore ||
+    score > dailyBest ||
+    score > weeklyBest ||
     normalizedNickname !== existing.nickname;
 
   if (!shouldPersist) {
     return;
   }
 
+  const bestOrbScore = Math.max(existing?.bestOrbScore ?? 0, score);
   persistentScores.playersById.set(normalizedPlayerId, {
     playerId: normalizedPlayerId,
     nickname: normalizedNickname,
-    bestOrbScore: existing ? Math.max(existing.bestOrbScore, nextBestScore) : nextBestScore,
+    bestOrbScore,
+    dailyOrbScore: score > dailyBest ? score : (existing?.dailyOrbScore ?? 0),
+    dailyPeriod: score > dailyBest ? dailyPeriod : (existing?.dailyPeriod ?? ""),
+    weeklyOrbScore: score > weeklyBest ? score : (existing?.weeklyOrbScore ?? 0),
+    weeklyPeriod: score > weeklyBest ? weeklyPeriod : (existing?.weeklyPeriod ?? ""),
+    skillRating: existing?.skillRating ?? SKILL_RATING_DEFAULT,
+    legacyClaimUntilMs: existing?.legacyClaimUntilMs ?? 0,
     createdAtMs: existing?.createdAtMs ?? now,
     updatedAtMs: now,
   });
-  persistScoreboard();
-  syncPersistentLeaderboardToRooms();
+  markPlayerRecordDirty(normalizedPlayerId);
+  // Daily and weekly bests only show through the leaderboard API; rooms carry the all-time top rows.
+  const allTimeChanged =
+    !existing || bestOrbScore > existing.bestOrbScore || normalizedNickname !== existing.nickname;
+  if (allTimeChanged && affectsSyncedLeaderboard(normalizedPlayerId, bestOrbScore)) {
+    syncPersistentLeaderboardToRooms();
+  }
+};
+
+const setPersistentSkillRating = (playerId, skillRating) => {
+  const record = persistentScores.playersById.get(playerId);
+  if (!record) {
+    return;
+  }
+  persistentScores.playersById.set(playerId, { ...record, skillRating });
+  markPlayerRecordDirty(playerId);
 };
 
+// Chance that a pilot rated `rating` comes out ahead of one rated `opponentRating`.
+const getExpectedScore = (rating, opponentRating) => 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+
 const canTag = (ax, ay, az, bx, by, bz, horizontalRadius, verticalTolerance) => {
   const dx = ax - bx;
   const dz = az - bz;
@@ -1378,145 +2246,495 @@ const canTag = (ax, ay, az, bx, by, bz, horizontalRadius, verticalTolerance) =>
   );
 };
 
-const respawnOrb = (state) => {
-  const angle = Math.random() * Math.PI * 2;
-  const distanceFromCenter = Math.sqrt(Math.random()) * ORB_SPAWN_RADIUS;
-  state.orb.x = Math.cos(angle) * distanceFromCenter;
-  state.orb.z = Math.sin(angle) * distanceFromCenter;
-  state.orb.y =
-    ORB_SPAWN_ALTITUDE_MIN + Math.random() * (ORB_SPAWN_ALTITUDE_MAX - ORB_SPAWN_ALTITUDE_MIN);
-  state.orb.holderSessionId = "";
-  state.orb.lastTransferAtMs = Date.now();
-  state.orb.spawnSeq += 1;
+const FLIGHT_MAX_CLIMB_RATE =
+  (THERMAL_SMALL_STRENGTH_MAX * THERMAL_LIFT_MULTIPLIER * FLIGHT_MAX_OVERLAPPING_THERMALS -
+    SINK_RATE) *
+  GAME_SPEED;
+const FLIGHT_MAX_SINK_RATE =
+  (SINK_RATE + SPEEDBAR_SINK_BOOST + EDGE_SINK_MAX) * GAME_SPEED;
+const FLIGHT_CEILING_Y =
+  THERMAL_BASE_HEIGHT_MAX + THERMAL_SOFT_CEILING_ABOVE + FLIGHT_CEILING_MARGIN;
+
+const getMaxHorizontalSpeed = (boostPct) =>
+  (FORWARD_SPEED + SPEEDBAR_BOOST) *
+  (1 + Math.max(0, boostPct) / 100) *
+  GAME_SPEED;
+
+const createFlightGuard = (now) => ({
+  anchored: false,
+  spawnMode: "join",
+  respawnUntilMs: 0,
+  tagReadyAtMs: Number.POSITIVE_INFINITY,
+  lastPoseAtMs: now,
+  horizontalBudget: 0,
+  climbBudget: 0,
+  sinkBudget: 0,
+  effectPct: 0,
+  effectGraceUntilMs: 0,
+  violationTimes: [],
+  lastLoggedAtMs: 0,
+  rejectedPoses: 0,
+  correctedAtMs: 0,
+});
+
+const resetFlightBudgets = (guard, now) => {
+  guard.horizontalBudget =
+    getMaxHorizontalSpeed(guard.effectPct) * FLIGHT_ENVELOPE_TOLERANCE * FLIGHT_BURST_SECONDS;
+  guard.climbBudget = FLIGHT_MAX_CLIMB_RATE * FLIGHT_ENVELOPE_TOLERANCE * FLIGHT_BURST_SECONDS;
+  guard.sinkBudget = FLIGHT_MAX_SINK_RATE * FLIGHT_ENVELOPE_TOLERANCE * FLIGHT_BURST_SECONDS;
+  guard.lastPoseAtMs = now;
 };
 
-const buildThermals = (seed) => {
-  const rng = createRng(seed);
-  const thermals = [];
-  const randomInRange = (min, max) => min + (max - min) * rng();
-  const batchNowSeconds = Date.now() * 0.001;
+// The pilot is out of play until their respawn pose arrives; their last pose still marks where they crashed.
+const markFlightRespawn = (guard, now) => {
+  guard.anchored = false;
+  guard.tagReadyAtMs = Number.POSITIVE_INFINITY;
+  guard.spawnMode = "crash";
+  guard.respawnUntilMs = now + FLIGHT_RESPAWN_WINDOW_MS;
+};
 
-  while (thermals.length < THERMAL_COUNT) {
-    let bestCandidate = null;
+const markFlightReconnect = (guard, now) => {
+  // A crash still waiting for its respawn pose stays one: the next pose will be on the spawn ring.
+  if (guard.spawnMode === "crash") {
+    guard.respawnUntilMs = now + FLIGHT_RESPAWN_WINDOW_MS;
+    return;
+  }
+  guard.spawnMode = "reconnect";
+};
 
-    for (let i = 0; i < THERMAL_CANDIDATES_PER_SLOT; i += 1) {
-      const angle = rng() * Math.PI * 2;
-      const maxRadius = Math.max(
-        Math.min(THERMAL_MAX_CENTER_RADIUS, THERMAL_MAX_CENTER_RADIUS - THERMAL_EDGE_MARGIN),
-        10,
-      );
-      const dist = Math.sqrt(rng()) * maxRadius;
-      const x = Math.cos(angle) * dist;
-      const z = Math.sin(angle) * dist;
-      const isSmall = rng() < THERMAL_SMALL_RATIO;
-      const radius = isSmall
-        ? randomInRange(THERMAL_SMALL_RADIUS_MIN, THERMAL_SMALL_RADIUS_MAX)
-        : randomInRange(THERMAL_LARGE_RADIUS_MIN, THERMAL_LARGE_RADIUS_MAX);
-
-      let overlapsExisting = false;
-      let minClearance = Infinity;
-      for (const existing of thermals) {
-        const centerDistance = Math.hypot(existing.x - x, existing.z - z);
-        const clearance = centerDistance - (existing.radius + radius + THERMAL_MIN_GAP);
-        minClearance = Math.min(minClearance, clearance);
-        if (clearance < 0) {
-          overlapsExisting = true;
-          break;
-        }
-      }
-      if (overlapsExisting) {
-        continue;
-      }
+const isFlightTagReady = (guard, now) =>
+  Boolean(guard?.anchored) && now >= guard.tagReadyAtMs;
 
-      const edgeBias = dist / maxRadius;
-      const spreadScore = Number.isFinite(minClearance) ? minClearance : maxRadius * 0.5;
-      const score = spreadScore + edgeBias * 6;
+const flightFloorAt = (terrain, x, z) => {
+  const groundY = terrain.heightAt(x, z);
+  return groundY <= TERRAIN_WATER_LEVEL ? TERRAIN_WATER_LEVEL - 0.25 : groundY;
+};
 
-      if (!bestCandidate || score > bestCandidate.score) {
-        bestCandidate = { x, z, radius, isSmall, score };
-      }
+const isPlausibleRespawnPoint = (terrain, x, y, z) => {
+  const ringDistance = Math.abs(Math.hypot(x, z) - terrain.spawnRingRadius);
+  if (ringDistance > FLIGHT_RESPAWN_RING_TOLERANCE) {
+    return false;
+  }
+  const maxSpawnY = Math.max(terrain.heightAt(x, z) + FLIGHT_RESPAWN_MAX_GROUND_OFFSET, SPAWN_Y);
+  return y <= maxSpawnY + FLIGHT_GROUND_TOLERANCE;
+};
+
+// The client keeps flying locally while its socket is down, so allow whatever distance it could have covered meanwhile.
+const isWithinReconnectReach = (guard, player, x, z, now) => {
+  const offlineSeconds = Math.max(0, (now - guard.lastPoseAtMs) / 1000);
+  const reach =
+    getMaxHorizontalSpeed(guard.effectPct) * FLIGHT_ENVELOPE_TOLERANCE * offlineSeconds +
+    FLIGHT_TELEPORT_DISTANCE;
+  return Math.hypot(x - player.x, z - player.z) <= reach;
+};
+
+const refillFlightBudget = (budget, rate, dtSeconds) =>
+  Math.min(budget + rate * dtSeconds, rate * FLIGHT_BURST_SECONDS);
+
+const recordFlightViolation = (guard, player, sessionId, reason, now, immediate = false) => {
+  guard.violationTimes.push(now);
+  while (guard.violationTimes.length > 0 && now - guard.violationTimes[0] > FLIGHT_SUSPICION_WINDOW_MS) {
+    guard.violationTimes.shift();
+  }
+
+  const suspicious = immediate || guard.violationTimes.length >= FLIGHT_SUSPICION_THRESHOLD;
+  if (!suspicious || now - guard.lastLoggedAtMs < FLIGHT_LOG_COOLDOWN_MS) {
+    return;
+  }
+  guard.lastLoggedAtMs = now;
+  console.warn(
+    `[flight-check] suspicious pilot ${player.nickname} (player ${player.playerId || "anonymous"}, session ${sessionId}): ${reason}; ${guard.violationTimes.length} violations in ${FLIGHT_SUSPICION_WINDOW_MS / 1000}s.`,
+  );
+};
+
+// Clamps or rejects a client pose against what the client-side glide model can physically reach. `handicap` is the
+// orb holder's flight handicap (see `getOrbHolderHandicap`), which shrinks the envelope while they hold the orb.
+const validateFlightPose = (terrain, guard, player, sessionId, pose, now, handicap = null) => {
+  let x = Number.isFinite(pose.x) ? pose.x : player.x;
+  let y = Number.isFinite(pose.y) ? pose.y : player.y;
+  let z = Number.isFinite(pose.z) ? pose.z : player.z;
+
+  const radius = Math.hypot(x, z);
+  if (radius > FLIGHT_WORLD_RADIUS) {
+    x *= FLIGHT_WORLD_RADIUS / radius;
+    z *= FLIGHT_WORLD_RADIUS / radius;
+    recordFlightViolation(guard, player, sessionId, "left the world bounds", now);
+  }
+  if (y > FLIGHT_CEILING_Y) {
+    y = FLIGHT_CEILING_Y;
+    recordFlightViolation(guard, player, sessionId, "flew above the thermal ceiling", now);
+  }
+
+  if (player.speedEffectActive && player.speedEffectPct > 0) {
+    guard.effectPct = player.speedEffectPct;
+    guard.effectGraceUntilMs = player.speedEffectEndsAtMs + FLIGHT_EFFECT_GRACE_MS;
+  } else if (now > guard.effectGraceUntilMs) {
+    guard.effectPct = 0;
+  }
+
+  // A new pilot's first pose has to be on the spawn ring; until one is, they fly on from the spot `onJoin` gave them.
+  const respawning =
+    (guard.spawnMode === "join" && isPlausibleRespawnPoint(terrain, x, y, z)) ||
+    (guard.spawnMode === "crash" && now <= guard.respawnUntilMs && isPlausibleRespawnPoint(terrain, x, y, z)) ||
+    (guard.spawnMode === "reconnect" && isWithinReconnectReach(guard, player, x, z, now));
+  if (respawning) {
+    guard.anchored = true;
+    guard.rejectedPoses = 0;
+    guard.spawnMode = null;
+    guard.tagReadyAtMs = now + FLIGHT_TAG_WARMUP_MS;
+    resetFlightBudgets(guard, now);
+    return { x, y: Math.max(y, flightFloorAt(terrain, x, z)), z };
+  }
+  if (guard.spawnMode === "reconnect") {
+    // Further than they could have flown while offline: they carry on from the last pose we accepted.
+    guard.anchored = true;
+    guard.spawnMode = null;
+    guard.tagReadyAtMs = now + FLIGHT_TAG_WARMUP_MS;
+    resetFlightBudgets(guard, now);
+    recordFlightViolation(guard, player, sessionId, "reconnected out of reach", now);
+    return { x: player.x, y: player.y, z: player.z, corrected: true };
+  }
+  if (guard.spawnMode === "crash" && now > guard.respawnUntilMs) {
+    // No respawn pose in time: they fly on from where they crashed.
+    guard.anchored = true;
+    guard.tagReadyAtMs = now + FLIGHT_TAG_WARMUP_MS;
+    guard.spawnMode = null;
+  }
+
+  const dtSeconds = clamp((now - guard.lastPoseAtMs) / 1000, 0, FLIGHT_BURST_SECONDS);
+  guard.lastPoseAtMs = now;
+  const handicapSink = (handicap?.sinkRate ?? 0) * GAME_SPEED;
+  const horizontalRate =
+    getMaxHorizontalSpeed(guard.effectPct) * (handicap?.airspeedScale ?? 1) * FLIGHT_ENVELOPE_TOLERANCE;
+  const climbRate = Math.max(0, FLIGHT_MAX_CLIMB_RATE - handicapSink) * FLIGHT_ENVELOPE_TOLERANCE;
+  const sinkRate = (FLIGHT_MAX_SINK_RATE + handicapSink) * FLIGHT_ENVELOPE_TOLERANCE;
+  guard.horizontalBudget = refillFlightBudget(guard.horizontalBudget, horizontalRate, dtSeconds);
+  guard.climbBudget = refillFlightBudget(guard.climbBudget, climbRate, dtSeconds);
+  guard.sinkBudget = refillFlightBudget(guard.sinkBudget, sinkRate, dtSeconds);
+
+  const dx = x - player.x;
+  const dz = z - player.z;
+  const horizontalDistance = Math.hypot(dx, dz);
+  if (horizontalDistance > guard.horizontalBudget + FLIGHT_TELEPORT_DISTANCE) {
+    recordFlightViolation(
+      guard,
+      player,
+      sessionId,
+      `teleport of ${horizontalDistance.toFixed(1)}m rejected`,
+      now,
+      true,
+    );
+    // Poses still in flight after a respawn are no reason to respawn them again.
+    if (guard.anchored) {
+      guard.rejectedPoses += 1;
     }
+    return null;
+  }
+  guard.rejectedPoses = 0;
+  if (horizontalDistance > guard.horizontalBudget) {
+    const scale = guard.horizontalBudget / horizontalDistance;
+    x = player.x + dx * scale;
+    z = player.z + dz * scale;
+    recordFlightViolation(guard, player, sessionId, "exceeded max airspeed", now);
+  }
+  guard.horizontalBudget = Math.max(0, guard.horizontalBudget - Math.hypot(x - player.x, z - player.z));
+
+  const dy = y - player.y;
+  if (dy > guard.climbBudget) {
+    y = player.y + guard.climbBudget;
+    recordFlightViolation(guard, player, sessionId, "exceeded max thermal climb", now);
+  } else if (-dy > guard.sinkBudget) {
+    y = player.y - guard.sinkBudget;
+    recordFlightViolation(guard, player, sessionId, "exceeded max sink rate", now);
+  }
+  if (y >= player.y) {
+    guard.climbBudget = Math.max(0, guard.climbBudget - (y - player.y));
+  } else {
+    guard.sinkBudget = Math.max(0, guard.sinkBudget - (player.y - y));
+  }
 
-    if (!bestCandidate) {
-      let placed = false;
-      for (let attempt = 0; attempt < THERMAL_FALLBACK_ATTEMPTS_PER_SLOT; attempt += 1) {
-        const angle = rng() * Math.PI * 2;
-        const maxRadius = Math.max(
-          Math.min(THERMAL_MAX_CENTER_RADIUS, THERMAL_MAX_CENTER_RADIUS - THERMAL_EDGE_MARGIN),
-          10,
-        );
-        const dist = Math.sqrt(rng()) * maxRadius;
-        const x = Math.cos(angle) * dist;
-        const z = Math.sin(angle) * dist;
-        const isSmall = rng() < THERMAL_SMALL_RATIO;
-        const radius = isSmall
-          ? randomInRange(THERMAL_SMALL_RADIUS_MIN, THERMAL_SMALL_RADIUS_MAX)
-          : randomInRange(THERMAL_LARGE_RADIUS_MIN, THERMAL_LARGE_RADIUS_MAX);
-
-        const overlapsExisting = thermals.some((existing) => {
-          const centerDistance = Math.hypot(existing.x - x, existing.z - z);
-          return centerDistance < existing.radius + radius + THERMAL_MIN_GAP;
-        });
-        if (overlapsExisting) {
-          continue;
-        }
-        bestCandidate = { x, z, radius, isSmall, score: 0 };
-        placed = true;
-        break;
-      }
+  const floorY = flightFloorAt(terrain, x, z) - FLIGHT_GROUND_TOLERANCE;
+  if (y < floorY) {
+    y = floorY;
+    recordFlightViolation(guard, player, sessionId, "flew through terrain", now);
+  }
 
-      if (!placed) {
-        break;
+  return { x, y, z };
+};
+
+const createPoseTrack = () => ({
+  samples: [],
+  rttMs: 0,
+  viewDelayMs: 0,
+  lastSeq: null,
+});
+
+const recordPoseSample = (track, now, x, y, z) => {
+  track.samples.push({ t: now, x, y, z });
+  const cutoff = now - LAG_COMP_HISTORY_MS;
+  while (track.samples.length > 2 && track.samples[1].t <= cutoff) {
+    track.samples.shift();
+  }
+};
+
+const recordRoundTrip = (track, rttMs) => {
+  if (!Number.isFinite(rttMs) || rttMs < 0 || rttMs > LAG_COMP_MAX_RTT_MS) {
+    return;
+  }
+  track.rttMs = track.rttMs > 0 ? track.rttMs + (rttMs - track.rttMs) * LAG_COMP_RTT_SMOOTHING : rttMs;
+};
+
+// A challenger's pose is rtt/2 old on arrival and they draw everyone else rtt/2 + viewDelay (+ half a patch) late.
+const getRewindMs = (track) =>
+  Math.min(SAFE_LAG_COMP_MAX_REWIND_MS, track.rttMs + track.viewDelayMs + SERVER_TICK_MS / 2);
+
+const samplePoseTrack = (track, t) => {
+  const samples = track.samples;
+  if (samples.length === 0) {
+    return null;
+  }
+  if (t <= samples[0].t) {
+    return samples[0];
+  }
+  for (let index = samples.length - 1; index >= 0; index -= 1) {
+    const sample = samples[index];
+    if (sample.t > t) {
+      continue;
+    }
+    const next = samples[index + 1];
+    if (!next) {
+      return sample;
+    }
+    const alpha = (t - sample.t) / Math.max(next.t - sample.t, 1);
+    return {
+      t,
+      x: sample.x + (next.x - sample.x) * alpha,
+      y: sample.y + (next.y - sample.y) * alpha,
+      z: sample.z + (next.z - sample.z) * alpha,
+    };
+  }
+  return null;
+};
+
+const createInterestView = () => ({
+  tick: 0,
+  // sessionId -> { sentTick, sentUpdatedAtMs } for every pilot currently in this viewer's relevant set.
+  entries: new Map(),
+  // The pilot an eliminated viewer is watching; distances are measured from them instead.
+  spectateSessionId: "",
+});
+
+const findInterestFocus = (view, state, viewer) => {
+  if (!viewer.eliminated) {
+    return viewer;
+  }
+  const watched = state.players.get(view.spectateSessionId);
+  if (watched && !watched.eliminated) {
+    return watched;
+  }
+  for (const player of state.players.values()) {
+    if (!player.eliminated) {
+      return player;
+    }
+  }
+  return viewer;
+};
+
+// Builds one viewer's share of the pose stream: near pilots every tick at full precision, distant ones less
+// often and coarser, and pilots past the last tier dropped. The orb holder is always sent in full.
+const buildInterestMessage = (view, state, viewerSessionId, now) => {
+  const viewer = state.players.get(viewerSessionId);
+  if (!viewer) {
+    return null;
+  }
+
+  view.tick += 1;
+  const focus = findInterestFocus(view, state, viewer);
+  const cullDistance = INTEREST_TIERS[INTEREST_TIERS.length - 1].maxDistance;
+  const holderSessionId = state.orbActive ? state.orb.holderSessionId : "";
+  const poses = [];
+  const gone = [];
+  for (const [sessionId, player] of state.players.entries()) {
+    if (sessionId === viewerSessionId) {
+      continue;
+    }
+    const entry = view.entries.get(sessionId);
+    const distance = Math.hypot(player.x - focus.x, player.y - focus.y, player.z - focus.z);
+    let tierIndex = sessionId === holderSessionId ? 0 : getInterestTierIndex(distance);
+    if (tierIndex < 0 && entry && distance <= cullDistance + INTEREST_LEAVE_HYSTERESIS) {
+      tierIndex = INTEREST_TIERS.length - 1;
+    }
+    if (tierIndex < 0) {
+      if (entry) {
+        view.entries.delete(sessionId);
+        gone.push(sessionId);
       }
+      continue;
+    }
+    if (
+      entry &&
+      (entry.sentUpdatedAtMs === player.updatedAtMs || view.tick - entry.sentTick < INTEREST_TIERS[tierIndex].everyTicks)
+    ) {
+      continue;
     }
+    view.entries.set(sessionId, { sentTick: view.tick, sentUpdatedAtMs: player.updatedAtMs });
+    poses.push(encodeInterestPose(sessionId, tierIndex, player));
+  }
 
-    if (!bestCandidate) {
-      break;
+  for (const sessionId of view.entries.keys()) {
+    if (!state.players.has(sessionId)) {
+      view.entries.delete(sessionId);
     }
+  }
+  return poses.length > 0 || gone.length > 0 ? { t: now, poses, gone } : null;
+};
 
-    const thermal = new NetThermal();
-    thermal.id = `thermal-${seed}-${thermals.length}`;
-    thermal.sizeClass = bestCandidate.isSmall ? "small" : "large";
-    thermal.activationAt = batchNowSeconds;
-    thermal.groundY = 0;
-    thermal.x = bestCandidate.x;
-    thermal.z = bestCandidate.z;
-    thermal.radius = bestCandidate.radius;
-    thermal.baseHeight = randomInRange(THERMAL_BASE_HEIGHT_MIN, THERMAL_BASE_HEIGHT_MAX);
-    thermal.heightAmplitude = randomInRange(
-      THERMAL_HEIGHT_AMPLITUDE_MIN,
-      THERMAL_HEIGHT_AMPLITUDE_MAX,
-    );
-    thermal.strength = bestCandidate.isSmall
-      ? randomInRange(THERMAL_SMALL_STRENGTH_MIN, THERMAL_SMALL_STRENGTH_MAX)
-      : randomInRange(THERMAL_LARGE_STRENGTH_MIN, THERMAL_LARGE_STRENGTH_MAX);
-    thermal.phase = rng() * Math.PI * 2;
-    thermals.push(thermal);
+const respawnOrb = (state) => {
+  const angle = Math.random() * Math.PI * 2;
+  const distanceFromCenter = Math.sqrt(Math.random()) * ORB_SPAWN_RADIUS;
+  state.orb.x = Math.cos(angle) * distanceFromCenter;
+  state.orb.z = Math.sin(angle) * distanceFromCenter;
+  state.orb.y =
+    ORB_SPAWN_ALTITUDE_MIN + Math.random() * (ORB_SPAWN_ALTITUDE_MAX - ORB_SPAWN_ALTITUDE_MIN);
+  state.orb.holderSessionId = "";
+  state.orb.lastTransferAtMs = Date.now();
+  state.orb.spawnSeq += 1;
+  stopOrb(state.orb);
+};
+
+const stopOrb = (orb) => {
+  orb.dropped = false;
+  orb.vx = 0;
+  orb.vy = 0;
+  orb.vz = 0;
+};
+
+// The holder lost the orb where they are now, so it falls from there instead of respawning somewhere new.
+const dropOrb = (state, terrain, holder) => {
+  const orb = state.orb;
+  const speed = getGliderAirspeed(holder.speedbar) * GAME_SPEED * ORB_DROP_MOMENTUM;
+  orb.x = holder.x;
+  orb.y = Math.max(holder.y + ORB_HOLDER_OFFSET_Y, terrain.heightAt(holder.x, holder.z) + ORB_DROP_REST_HEIGHT);
+  orb.z = holder.z;
+  orb.vx = -Math.sin(holder.yaw) * speed;
+  orb.vy = ORB_DROP_POP_SPEED * GAME_SPEED;
+  orb.vz = -Math.cos(holder.yaw) * speed;
+  orb.dropped = true;
+  orb.holderSessionId = "";
+  orb.lastTransferAtMs = Date.now();
+};
+
+// Moves a dropped orb on by one tick. Returns true once it has come down in the sea or a lake.
+const stepDroppedOrb = (state, terrain, deltaSeconds, now) => {
+  const orb = state.orb;
+  const drag = Math.exp(-ORB_DROP_DRAG * GAME_SPEED * deltaSeconds);
+  const lift = getThermalClimbRate(state.thermals, orb.x, orb.y, orb.z, now * 0.001);
+  const targetVy = (lift - ORB_DROP_FALL_SPEED) * GAME_SPEED;
+  orb.vx *= drag;
+  orb.vz *= drag;
+  orb.vy += (targetVy - orb.vy) * (1 - Math.exp(-ORB_DROP_VERTICAL_RESPONSE * GAME_SPEED * deltaSeconds));
+  orb.x += orb.vx * deltaSeconds;
+  orb.y += orb.vy * deltaSeconds;
+  orb.z += orb.vz * deltaSeconds;
+
+  const groundY = terrain.heightAt(orb.x, orb.z);
+  if (groundY <= TERRAIN_WATER_LEVEL) {
+    return orb.y <= TERRAIN_WATER_LEVEL;
+  }
+  if (orb.vy <= 0 && orb.y <= groundY + ORB_DROP_REST_HEIGHT) {
+    orb.y = groundY + ORB_DROP_REST_HEIGHT;
+    orb.vx = 0;
+    orb.vy = 0;
+    orb.vz = 0;
   }
+  return false;
+};
 
-  const activationRange = Math.max(
-    THERMAL_ACTIVATION_DELAY_MAX_SECONDS - THERMAL_ACTIVATION_DELAY_MIN_SECONDS,
-    0,
-  );
-  if (activationRange > 0 && thermals.length > 0) {
-    const slotSize = activationRange / thermals.length;
-    const ranked = thermals
-      .map((_, index) => ({ index, key: rng() }))
-      .sort((a, b) => a.key - b.key);
-
-    for (let rank = 0; rank < ranked.length; rank += 1) {
-      const { index } = ranked[rank];
-      const centerDelay = THERMAL_ACTIVATION_DELAY_MIN_SECONDS + (rank + 0.5) * slotSize;
-      const jitter = (rng() - 0.5) * slotSize * 0.7;
-      thermals[index].activationAt = batchNowSeconds + clamp(
-        centerDelay + jitter,
-        THERMAL_ACTIVATION_DELAY_MIN_SECONDS,
-        THERMAL_ACTIVATION_DELAY_MAX_SECONDS,
-      );
+const buildThermals = (terrain, seed) =>
+  generateThermals(THERMAL_COUNT, terrain.heightAt, terrain.islandRadius, seed).map((column) => {
+    const thermal = new NetThermal();
+    thermal.id = column.id;
+    thermal.sizeClass = column.sizeClass;
+    thermal.activationAt = column.activationAt;
+    thermal.groundY = column.groundY;
+    thermal.x = column.x;
+    thermal.z = column.z;
+    thermal.radius = column.radius;
+    thermal.baseHeight = column.baseHeight;
+    thermal.heightAmplitude = column.heightAmplitude;
+    thermal.strength = column.strength;
+    thermal.phase = column.phase;
+    return thermal;
+  });
+
+const toNetTaskTurnpoint = (turnpoint) => {
+  const netTurnpoint = new NetTaskTurnpoint();
+  netTurnpoint.kind = turnpoint.kind;
+  netTurnpoint.x = turnpoint.x;
+  netTurnpoint.z = turnpoint.z;
+  netTurnpoint.radius = turnpoint.radius;
+  netTurnpoint.minAltitude = turnpoint.minAltitude ?? 0;
+  netTurnpoint.maxAltitude = turnpoint.maxAltitude ?? 0;
+  return netTurnpoint;
+};
+
+const resetTaskProgress = (player) => {
+  player.taskNextTurnpoint = 0;
+  player.taskStartedAtMs = 0;
+  player.taskElapsedMs = 0;
+  player.taskRank = 0;
+};
+
+// Pilots in goal rank by elapsed time; the rest by turnpoints made, then by distance to their next cylinder.
+const compareTaskProgress = (turnpoints, a, b) => {
+  if (a.taskElapsedMs > 0 || b.taskElapsedMs > 0) {
+    if (a.taskElapsedMs > 0 && b.taskElapsedMs > 0) {
+      return a.taskElapsedMs - b.taskElapsedMs;
     }
+    return a.taskElapsedMs > 0 ? -1 : 1;
   }
+  if (a.taskNextTurnpoint !== b.taskNextTurnpoint) {
+    return b.taskNextTurnpoint - a.taskNextTurnpoint;
+  }
+  const next = turnpoints[a.taskNextTurnpoint];
+  return getTurnpointDistance(next, a.x, a.z) - getTurnpointDistance(next, b.x, b.z);
+};
 
-  return thermals;
+const writeStormStage = (netStorm, stage) => {
+  netStorm.active = true;
+  netStorm.stage = stage.stage;
+  netStorm.fromX = stage.from.x;
+  netStorm.fromZ = stage.from.z;
+  netStorm.fromRadius = stage.from.radius;
+  netStorm.toX = stage.to.x;
+  netStorm.toZ = stage.to.z;
+  netStorm.toRadius = stage.to.radius;
+  netStorm.shrinkStartsAtMs = stage.shrinkStartsAtMs;
+  netStorm.shrinkEndsAtMs = stage.shrinkEndsAtMs;
+};
+
+const readStormStage = (netStorm) => ({
+  stage: netStorm.stage,
+  from: { x: netStorm.fromX, z: netStorm.fromZ, radius: netStorm.fromRadius },
+  to: { x: netStorm.toX, z: netStorm.toZ, radius: netStorm.toRadius },
+  shrinkStartsAtMs: netStorm.shrinkStartsAtMs,
+  shrinkEndsAtMs: netStorm.shrinkEndsAtMs,
+});
+
+// Null outside a live storm round.
+const getActiveStormCircle = (state, now) => (state.storm.active ? getStormCircle(readStormStage(state.storm), now) : null);
+
+// The extra sink and lost airspeed a pilot flies with while holding the orb; null when they are not holding it or
+// the room has no flight handicaps.
+const getOrbHolderHandicap = (state, sessionId) => {
+  const room = state.room;
+  if (!state.orbActive || state.orb.holderSessionId !== sessionId) {
+    return null;
+  }
+  if (room.orbHolderSinkRate === 0 && room.orbHolderSlowdownPct === 0) {
+    return null;
+  }
+  return { sinkRate: room.orbHolderSinkRate, airspeedScale: getHolderAirspeedScale(room.orbHolderSlowdownPct) };
 };
 
 const chooseStartupForCoin = (state) => {
@@ -1575,15 +2793,15 @@ const recordStartupUsage = (startupId) => {
   }
 };
 
-const buildCoinSpawnPoint = (state, x, z) => {
+const buildCoinSpawnPoint = (state, terrain, x, z) => {
   if (Math.hypot(x, z) > COIN_SPAWN_MAX_CENTER_RADIUS) {
     return null;
   }
-  if (isInInlandLake(x, z)) {
+  if (terrain.isInInlandLake(x, z)) {
     return null;
   }
 
-  const groundY = terrainHeightAt(x, z);
+  const groundY = terrain.heightAt(x, z);
   if (!Number.isFinite(groundY) || groundY <= TERRAIN_WATER_LEVEL + 0.8) {
     return null;
   }
@@ -1602,11 +2820,11 @@ const buildCoinSpawnPoint = (state, x, z) => {
   };
 };
 
-const pickCoinSpawnPoint = (state) => {
+const pickCoinSpawnPoint = (state, terrain) => {
   for (let attempt = 0; attempt < COIN_SPAWN_ATTEMPTS; attempt += 1) {
     const angle = Math.random() * Math.PI * 2;
     const radius = Math.sqrt(Math.random()) * COIN_SPAWN_MAX_CENTER_RADIUS;
-    const point = buildCoinSpawnPoint(state, Math.cos(angle) * radius, Math.sin(angle) * radius);
+    const point = buildCoinSpawnPoint(state, terrain, Math.cos(angle) * radius, Math.sin(angle) * radius);
     if (point) {
       return point;
     }
@@ -1620,7 +2838,7 @@ const pickCoinSpawnPoint = (state) => {
   ];
 
   for (const fallback of fallbackPositions) {
-    const point = buildCoinSpawnPoint(state, fallback.x, fallback.z);
+    const point = buildCoinSpawnPoint(state, terrain, fallback.x, fallback.z);
     if (point) {
       return point;
     }
@@ -1629,13 +2847,13 @@ const pickCoinSpawnPoint = (state) => {
   return null;
 };
 
-const spawnStartupCoin = (state, now) => {
+const spawnStartupCoin = (state, terrain, now) => {
   if (state.coins.length >= COIN_MAX_ACTIVE) {
     return false;
   }
 
   const startup = chooseStartupForCoin(state);
-  const point = startup ? pickCoinSpawnPoint(state) : null;
+  const point = startup ? pickCoinSpawnPoint(state, terrain) : null;
   if (!startup || !point) {
     return false;
   }
@@ -1652,6 +2870,7 @@ const spawnStartupCoin = (state, now) => {
   coin.spawnedAtMs = now;
   coin.expiresAtMs = now + COIN_EXPIRE_AFTER_MS;
   state.coins.push(coin);
+  serverMetrics.coinSpawns += 1;
   recordStartupUsage(startup.id);
   return true;
 };
@@ -1686,296 +2905,1988 @@ const applyCoinPickup = (player, coin, now) => {
   player.lastCoinPickupAtMs = now;
   player.lastCoinPickupSeq += 1;
   player.lastCoinPickupStartupName = coin.name;
+  player.lastCoinPickupId = coin.id;
 };
 
-class WorldRoom extends Room {
-  beginOrbCountdown() {
-    this.orbCountdownEndsAtMs = Date.now() + ORB_START_COUNTDOWN_MS;
-    this.state.orbActive = false;
-  }
+const quantizeReplayPosition = (value) => quantizeReplayValue(value, REPLAY_POSITION_PRECISION);
+const quantizeReplayAngle = (value) => quantizeReplayValue(value, REPLAY_ANGLE_PRECISION);
 
-  clearOrbState() {
-    this.orbCountdownEndsAtMs = null;
-    this.state.orbActive = false;
-    this.state.orbCountdownRemainingMs = 0;
-    this.state.orb.holderSessionId = "";
+const writeReplayRecord = (recorder, record) => {
+  recorder.gzip.write(`${JSON.stringify(record)}\n`);
+};
+
+const createMatchRecorder = (room, now) => {
+  if (!REPLAY_RECORDING_ENABLED) {
+    return null;
   }
 
-  clearCoins(now = Date.now()) {
-    this.state.coins.clear();
-    this.nextCoinSpawnAtMs = now + COIN_SPAWN_INTERVAL_MS;
+  const stamp = new Date(now).toISOString().replace(/[:.]/g, "-");
+  const filePath = path.join(REPLAY_DIR, `${room.roomId}-${stamp}${REPLAY_FILE_EXTENSION}`);
+  try {
+    mkdirSync(REPLAY_DIR, { recursive: true });
+  } catch (error) {
+    console.warn("[replay] recording disabled, could not create replay directory.", error);
+    return null;
   }
 
-  canOrbRun() {
-    return this.state.players.size >= ORB_MIN_PLAYERS;
+  const gzip = createGzip();
+  const output = createWriteStream(filePath);
+  output.on("error", (error) => {
+    console.warn(`[replay] failed writing ${filePath}.`, error);
+  });
+  gzip.pipe(output);
+
+  const recorder = {
+    filePath,
+    gzip,
+    startedAtMs: now,
+    nextSlot: 0,
+    pilots: new Map(),
+    orbKey: "",
+    coinIds: new Set(),
+    thermalKey: "",
+    leaderboardKey: "",
+  };
+  writeReplayRecord(recorder, {
+    type: "header",
+    version: REPLAY_FORMAT_VERSION,
+    roomCode: room.roomId,
+    roomName: room.state.room.name,
+    startedAtMs: now,
+    tickMs: SERVER_TICK_MS,
+    terrain: room.worldTerrain.params,
+  });
+  return recorder;
+};
+
+// Diffs the room state against what was last written so only changes (plus one pose frame) hit the file each tick.
+const captureMatchFrame = (recorder, state, now) => {
+  const t = now - recorder.startedAtMs;
+
+  const thermalKey = Array.from(state.thermals, (thermal) => thermal.id).join(",");
+  if (thermalKey !== recorder.thermalKey) {
+    recorder.thermalKey = thermalKey;
+    writeReplayRecord(recorder, {
+      type: "thermals",
+      t,
+      seed: state.worldSeed,
+      thermals: Array.from(state.thermals, (thermal) => thermal.toJSON()),
+    });
   }
 
-  updateOrbLifecycle(now) {
-    if (!this.canOrbRun()) {
-      this.clearOrbState();
-      return;
+  const poses = [];
+  const pickerSlotByCoinId = new Map();
+  for (const [sessionId, player] of state.players.entries()) {
+    let pilot = recorder.pilots.get(sessionId);
+    if (!pilot) {
+      pilot = {
+        slot: recorder.nextSlot,
+        currentOrbScore: -1,
+        bestOrbScore: -1,
+        effectActive: false,
+        effectPct: 0,
+        pickupSeq: player.lastCoinPickupSeq,
+      };
+      recorder.nextSlot += 1;
+      recorder.pilots.set(sessionId, pilot);
+      writeReplayRecord(recorder, {
+        type: "join",
+        t,
+        slot: pilot.slot,
+        sessionId,
+        nickname: player.nickname,
+        isBot: player.isBot,
+      });
     }
 
-    if (this.state.orbActive) {
-      this.state.orbCountdownRemainingMs = 0;
-      return;
+    if (pilot.currentOrbScore !== player.currentOrbScore || pilot.bestOrbScore !== player.bestOrbScore) {
+      pilot.currentOrbScore = player.currentOrbScore;
+      pilot.bestOrbScore = player.bestOrbScore;
+      writeReplayRecord(recorder, {
+        type: "score",
+        t,
+        slot: pilot.slot,
+        current: player.currentOrbScore,
+        best: player.bestOrbScore,
+      });
+    }
+    if (pilot.effectActive !== player.speedEffectActive || pilot.effectPct !== player.speedEffectPct) {
+      pilot.effectActive = player.speedEffectActive;
+      pilot.effectPct = player.speedEffectPct;
+      writeReplayRecord(recorder, {
+        type: "effect",
+        t,
+        slot: pilot.slot,
+        active: player.speedEffectActive,
+        speedPct: player.speedEffectPct,
+        endsAtMs: player.speedEffectEndsAtMs,
+      });
     }
+    if (pilot.pickupSeq !== player.lastCoinPickupSeq) {
+      pilot.pickupSeq = player.lastCoinPickupSeq;
+      pickerSlotByCoinId.set(player.lastCoinPickupId, pilot.slot);
+    }
+
+    poses.push([
+      pilot.slot,
+      quantizeReplayPosition(player.x),
+      quantizeReplayPosition(player.y),
+      quantizeReplayPosition(player.z),
+      quantizeReplayAngle(player.yaw),
+      quantizeReplayAngle(player.bank),
+      player.speedbar ? 1 : 0,
+    ]);
+  }
 
-    if (this.orbCountdownEndsAtMs === null) {
-      this.beginOrbCountdown();
+  const coinIds = new Set();
+  for (const coin of state.coins) {
+    coinIds.add(coin.id);
+    if (!recorder.coinIds.has(coin.id)) {
+      writeReplayRecord(recorder, { type: "coin", t, coin: coin.toJSON() });
     }
+  }
+  for (const coinId of recorder.coinIds) {
+    if (!coinIds.has(coinId)) {
+      writeReplayRecord(recorder, {
+        type: "coin-remove",
+        t,
+        id: coinId,
+        // Coins also expire; those have no pilot.
+        pickedBy: pickerSlotByCoinId.get(coinId) ?? REPLAY_NO_PILOT,
+      });
+    }
+  }
+  recorder.coinIds = coinIds;
+
+  const orb = state.orb;
+  // A dropped orb moves on its own, so every step of its fall is recorded too.
+  const orbPosition = orb.dropped
+    ? `:${quantizeReplayPosition(orb.x)}:${quantizeReplayPosition(orb.y)}:${quantizeReplayPosition(orb.z)}`
+    : "";
+  const orbKey = `${state.orbActive}:${orb.holderSessionId}:${orb.spawnSeq}${orbPosition}`;
+  if (orbKey !== recorder.orbKey) {
+    recorder.orbKey = orbKey;
+    writeReplayRecord(recorder, {
+      type: "orb",
+      t,
+      active: state.orbActive,
+      holder: recorder.pilots.get(orb.holderSessionId)?.slot ?? REPLAY_NO_PILOT,
+      x: quantizeReplayPosition(orb.x),
+      y: quantizeReplayPosition(orb.y),
+      z: quantizeReplayPosition(orb.z),
+    });
+  }
 
-    const remaining = Math.max(0, this.orbCountdownEndsAtMs - now);
-    this.state.orbCountdownRemainingMs = remaining;
-    if (remaining === 0) {
-      this.orbCountdownEndsAtMs = null;
-      this.state.orbActive = true;
-      respawnOrb(this.state);
+  const leaderboard = Array.from(state.leaderboard, (entry) => ({
+    nickname: entry.nickname,
+    score: entry.score,
+  }));
+  const leaderboardKey = JSON.stringify(leaderboard);
+  if (leaderboardKey !== recorder.leaderboardKey) {
+    recorder.leaderboardKey = leaderboardKey;
+    writeReplayRecord(recorder, { type: "leaderboard", t, entries: leaderboard });
+  }
+
+  writeReplayRecord(recorder, { type: "frame", t, poses });
+
+  for (const [sessionId, pilot] of recorder.pilots) {
+    if (!state.players.has(sessionId)) {
+      recorder.pilots.delete(sessionId);
+      writeReplayRecord(recorder, { type: "leave", t, slot: pilot.slot });
     }
   }
+};
 
-  updateCoinLifecycle(now) {
-    if (this.state.players.size === 0) {
-      this.clearCoins(now);
-      return;
+const closeMatchRecorder = (recorder) => {
+  recorder.gzip.end();
+  console.log(`[replay] saved ${recorder.filePath}`);
+};
+
+const wrapAngle = (angle) => Math.atan2(Math.sin(angle), Math.cos(angle));
+// Yaw that points the glider's nose (local -Z) from one point towards another.
+const headingYawTo = (fromX, fromZ, toX, toZ) => Math.atan2(fromX - toX, fromZ - toZ);
+
+const createBotBrain = (difficulty, now) => ({
+  difficulty,
+  goal: null,
+  aimErrorRad: 0,
+  speedbar: false,
+  nextDecisionAtMs: now,
+  tagReadyAtMs: now + FLIGHT_TAG_WARMUP_MS,
+  wanderAngle: Math.random() * Math.PI * 2,
+});
+
+const placeBotOnSpawnRing = (player, terrain) => {
+  const angle = Math.random() * Math.PI * 2;
+  player.x = Math.cos(angle) * terrain.spawnRingRadius;
+  player.z = Math.sin(angle) * terrain.spawnRingRadius;
+  player.y = Math.max(terrain.heightAt(player.x, player.z) + BOT_SPAWN_GROUND_OFFSET, SPAWN_Y);
+  player.yaw = Math.atan2(player.x, player.z);
+  player.bank = 0;
+  player.speedbar = false;
+};
+
+const pickBotThermal = (state, terrain, player, nowSeconds) => {
+  let bestThermal = null;
+  let bestScore = Infinity;
+  for (const thermal of state.thermals) {
+    if (nowSeconds < thermal.activationAt || player.y >= getThermalTopY(thermal) - BOT_CHASE_CLIMB_MARGIN) {
+      continue;
     }
+    const distance = Math.hypot(thermal.x - player.x, thermal.z - player.z);
+    const arrivalY = player.y - (distance / FORWARD_SPEED) * SINK_RATE;
+    const reachable = arrivalY > flightFloorAt(terrain, thermal.x, thermal.z) + 1;
+    const score = distance / thermal.strength + (reachable ? 0 : 1000);
+    if (score < bestScore) {
+      bestScore = score;
+      bestThermal = thermal;
+    }
+  }
+  return bestThermal;
+};
 
-    if (now < this.nextCoinSpawnAtMs) {
-      return;
+const pickBotWanderGoal = (terrain, brain) => {
+  brain.wanderAngle += (Math.random() * 2 - 1) * BOT_WANDER_TURN_RAD;
+  const wanderRadius = terrain.islandRadius * BOT_WANDER_RADIUS_RATIO;
+  return {
+    kind: "wander",
+    x: Math.cos(brain.wanderAngle) * wanderRadius,
+    z: Math.sin(brain.wanderAngle) * wanderRadius,
+  };
+};
+
+const toThermalGoal = (thermal) => ({ kind: "thermal", x: thermal.x, z: thermal.z, radius: thermal.radius });
+
+const areTeammates = (a, b) => a.team !== NO_TEAM && a.team === b.team;
+
+const findNearestThreat = (state, sessionId, player) => {
+  let nearest = null;
+  let nearestDistance = Infinity;
+  for (const [otherSessionId, other] of state.players.entries()) {
+    if (otherSessionId === sessionId || !other.connected || areTeammates(player, other)) {
+      continue;
     }
+    const distance = Math.hypot(other.x - player.x, other.z - player.z);
+    if (distance < nearestDistance) {
+      nearest = other;
+      nearestDistance = distance;
+    }
+  }
+  return { threat: nearest, distance: nearestDistance };
+};
 
-    if (startupCatalog.items.length > 0 && this.state.coins.length < COIN_MAX_ACTIVE) {
-      spawnStartupCoin(this.state, now);
+// Re-plans the bot's target: stay over the island, keep the orb away from chasers, otherwise hunt it,
+// grab coins on the way and circle up in thermals whenever altitude runs short.
+const decideBotGoal = (state, terrain, sessionId, player, brain, now) => {
+  const { difficulty } = brain;
+  const nowSeconds = now * 0.001;
+  const clearance = player.y - flightFloorAt(terrain, player.x, player.z);
+  const distanceFromCenter = Math.hypot(player.x, player.z);
+  const climbThermal = () => pickBotThermal(state, terrain, player, nowSeconds);
+  brain.speedbar = false;
+  brain.aimErrorRad = (Math.random() * 2 - 1) * difficulty.aimJitterRad;
+
+  if (distanceFromCenter > terrain.islandRadius * BOT_EDGE_RETURN_RATIO) {
+    return { kind: "home", x: 0, z: 0 };
+  }
+
+  // Getting caught out by the storm is the only way to lose a storm round, so heading back in comes first.
+  const stormCircle = getActiveStormCircle(state, now);
+  if (
+    stormCircle &&
+    Math.hypot(player.x - stormCircle.x, player.z - stormCircle.z) > stormCircle.radius * BOT_STORM_RETURN_RATIO
+  ) {
+    return { kind: "storm", x: stormCircle.x, z: stormCircle.z };
+  }
+
+  const orb = state.orb;
+  if (state.orbActive && orb.holderSessionId === sessionId) {
+    const { threat, distance } = findNearestThreat(state, sessionId, player);
+    if ((!threat || distance > difficulty.chaseRange * 0.5) && clearance < BOT_CLIMB_CLEARANCE) {
+      const thermal = climbThermal();
+      if (thermal) {
+        return toThermalGoal(thermal);
+      }
     }
-    this.nextCoinSpawnAtMs = now + COIN_SPAWN_INTERVAL_MS;
+    if (!threat) {
+      return pickBotWanderGoal(terrain, brain);
+    }
+    const awayX = (player.x - threat.x) / Math.max(distance, 0.001);
+    const awayZ = (player.z - threat.z) / Math.max(distance, 0.001);
+    const centerPull = 2 * (distanceFromCenter / terrain.islandRadius) ** 2;
+    const centerX = -player.x / Math.max(distanceFromCenter, 0.001);
+    const centerZ = -player.z / Math.max(distanceFromCenter, 0.001);
+    const fleeX = awayX + centerX * centerPull;
+    const fleeZ = awayZ + centerZ * centerPull;
+    const fleeLength = Math.max(Math.hypot(fleeX, fleeZ), 0.001);
+    brain.speedbar =
+      difficulty.useSpeedbar && distance < BOT_FLEE_SPEEDBAR_RANGE && clearance > BOT_LOW_CLEARANCE;
+    return {
+      kind: "flee",
+      x: player.x + (fleeX / fleeLength) * BOT_FLEE_LOOKAHEAD,
+      z: player.z + (fleeZ / fleeLength) * BOT_FLEE_LOOKAHEAD,
+    };
   }
 
-  handleCoinPickups(now) {
-    if (this.state.coins.length === 0) {
-      return;
+  const stillClimbing = brain.goal?.kind === "thermal" && clearance < BOT_CLIMB_CLEARANCE;
+  if (clearance < BOT_LOW_CLEARANCE || stillClimbing) {
+    const thermal = climbThermal();
+    if (thermal) {
+      return toThermalGoal(thermal);
     }
+  }
 
-    const claimedPlayers = new Set();
-    for (let coinIndex = this.state.coins.length - 1; coinIndex >= 0; coinIndex -= 1) {
-      const coin = this.state.coins[coinIndex];
-      for (const [sessionId, player] of this.state.players.entries()) {
-        if (claimedPlayers.has(sessionId)) {
-          continue;
+  // A teammate holding the orb is left alone; the bot goes after coins or altitude instead.
+  const holder = orb.holderSessionId ? state.players.get(orb.holderSessionId) : null;
+  if (state.orbActive && !(holder && areTeammates(player, holder))) {
+    const leadDistance = holder ? getGliderAirspeed(holder.speedbar) * GAME_SPEED * difficulty.leadSeconds : 0;
+    const target = holder
+      ? {
+          x: holder.x - Math.sin(holder.yaw) * leadDistance,
+          y: holder.y,
+          z: holder.z - Math.cos(holder.yaw) * leadDistance,
         }
-        if (
-          canTag(
-            player.x,
-            player.y,
-            player.z,
-            coin.x,
-            coin.y,
-            coin.z,
-            COIN_PICKUP_HORIZONTAL_RADIUS,
-            COIN_PICKUP_VERTICAL_TOLERANCE,
-          )
-        ) {
-          applyCoinPickup(player, coin, now);
-          claimedPlayers.add(sessionId);
-          this.state.coins.splice(coinIndex, 1);
-          break;
+      : { x: orb.x, y: orb.y, z: orb.z };
+    if (Math.hypot(target.x - player.x, target.z - player.z) <= difficulty.chaseRange) {
+      if (target.y - player.y > BOT_CHASE_CLIMB_MARGIN) {
+        const thermal = climbThermal();
+        if (thermal) {
+          return toThermalGoal(thermal);
         }
       }
+      brain.speedbar = difficulty.useSpeedbar && player.y - target.y > BOT_CHASE_CLIMB_MARGIN;
+      return { kind: holder ? "chase" : "orb", x: target.x, z: target.z };
     }
   }
 
-  onCreate() {
-    this.maxClients = MAX_CLIENTS;
-    this.setPatchRate(SERVER_TICK_MS);
-    this.setState(new WorldState());
-    activeWorldRooms.add(this);
-    syncPersistentLeaderboardToRoom(this);
-    this.scoreAccumulatorMs = 0;
-    this.orbCountdownEndsAtMs = null;
-    this.nextCoinSpawnAtMs = Date.now() + COIN_SPAWN_INTERVAL_MS;
-    this.state.thermals.push(...buildThermals(this.state.worldSeed));
-    if (shouldRefreshStartupCatalog()) {
-      void syncStartupCatalog();
+  let nearestCoin = null;
+  let nearestCoinDistance = difficulty.coinRange;
+  for (const coin of state.coins) {
+    const distance = Math.hypot(coin.x - player.x, coin.z - player.z);
+    if (distance < nearestCoinDistance && coin.y <= player.y + BOT_COIN_ABOVE_TOLERANCE) {
+      nearestCoin = coin;
+      nearestCoinDistance = distance;
     }
+  }
+  if (nearestCoin) {
+    return { kind: "coin", x: nearestCoin.x, z: nearestCoin.z };
+  }
 
-    this.onMessage("pose", (client, pose) => {
-      const player = this.state.players.get(client.sessionId);
-      if (!player || !pose || typeof pose !== "object") {
-        return;
+  if (clearance < BOT_CLIMB_CLEARANCE) {
+    const thermal = climbThermal();
+    if (thermal) {
+      return toThermalGoal(thermal);
+    }
+  }
+
+  return pickBotWanderGoal(terrain, brain);
+};
+
+const getBotSteerPoint = (player, goal) => {
+  if (goal.kind !== "thermal" || Math.hypot(goal.x - player.x, goal.z - player.z) >= goal.radius) {
+    return goal;
+  }
+  // Inside the column: aim a little ahead on a tight circle around the core to keep climbing.
+  const angle = Math.atan2(player.z - goal.z, player.x - goal.x) + BOT_CLIMB_LOOKAHEAD_RAD;
+  const circleRadius = goal.radius * 0.5;
+  return { x: goal.x + Math.cos(angle) * circleRadius, z: goal.z + Math.sin(angle) * circleRadius };
+};
+
+// Advances one bot with the same glide model the client flies; returns true when it hit ground or water.
+const stepBotFlight = (state, terrain, player, brain, deltaSeconds, now, handicap) => {
+  const scaledDelta = deltaSeconds * GAME_SPEED;
+  const steerPoint = getBotSteerPoint(player, brain.goal);
+  const desiredYaw = headingYawTo(player.x, player.z, steerPoint.x, steerPoint.z) + brain.aimErrorRad;
+  const yawDelta = wrapAngle(desiredYaw - player.yaw);
+  const maxTurn = YAW_RATE * brain.difficulty.turnScale * scaledDelta;
+  player.yaw = wrapAngle(player.yaw + clamp(yawDelta, -maxTurn, maxTurn));
+  const targetBank = yawDelta > maxTurn * 0.5 ? -1 : yawDelta < -maxTurn * 0.5 ? 1 : 0;
+  player.bank += (targetBank - player.bank) * (1 - Math.exp(-BOT_BANK_RESPONSE * scaledDelta));
+  player.speedbar = brain.speedbar;
+
+  const speedEffectPct = player.speedEffectActive ? player.speedEffectPct : 0;
+  const airspeed = getGliderAirspeed(player.speedbar, speedEffectPct) * (handicap?.airspeedScale ?? 1);
+  const stormCircle = getActiveStormCircle(state, now);
+  const zone = stormCircle
+    ? getStormGlideZone(stormCircle, player.x, player.z)
+    : {
+        distanceFromCenter: Math.hypot(player.x, player.z),
+        islandRadius: terrain.islandRadius,
+        waterRadius: FLIGHT_WORLD_RADIUS,
+      };
+  const sinkRate =
+    getGliderSinkRate(player.speedbar, zone.distanceFromCenter, zone.islandRadius, zone.waterRadius) +
+    (handicap?.sinkRate ?? 0);
+  const climbRate = getThermalClimbRate(state.thermals, player.x, player.y, player.z, now * 0.001);
+  player.x -= Math.sin(player.yaw) * airspeed * scaledDelta;
+  player.z -= Math.cos(player.yaw) * airspeed * scaledDelta;
+  player.y += (climbRate - sinkRate) * scaledDelta;
+  player.updatedAtMs = now;
+  return player.y <= flightFloorAt(terrain, player.x, player.z);
+};
+
+class WorldRoom extends Room {
+  setMatchPhase(phase, endsAtMs) {
+    this.state.match.phase = phase;
+    this.state.match.phaseEndsAtMs = endsAtMs;
+  }
+
+  clearOrbState() {
+    this.state.orbActive = false;
+    this.state.orb.holderSessionId = "";
+    stopOrb(this.state.orb);
+  }
+
+  startRound(now) {
+    const match = this.state.match;
+    match.round += 1;
+    match.winnerSessionId = "";
+    match.winnerTeam = NO_TEAM;
+    match.results.clear();
+    for (const player of this.state.players.values()) {
+      player.currentOrbScore = 0;
+      player.roundHoldMs = 0;
+      player.roundSteals = 0;
+      player.roundPickups = 0;
+      player.roundSurvivedMs = 0;
+      player.eliminated = false;
+    }
+    for (const team of this.state.teams) {
+      team.score = 0;
+    }
+    this.roundStartedAtMs = now;
+    if (this.rules.mode === "storm") {
+      this.startStorm(now);
+    } else {
+      this.scoreAccumulatorMs = 0;
+      this.state.orbActive = true;
+      respawnOrb(this.state);
+    }
+    this.setMatchPhase("live", now + this.rules.roundDurationMs);
+  }
+
+  // The storm closes over the whole round: every stage holds, then shrinks, and the last one ends with the round.
+  startStorm(now) {
+    this.stormRng = createRng(crypto.randomInt(1, 2 ** 31));
+    this.stormStageDurationMs = this.rules.roundDurationMs / STORM_CIRCLE_STAGE_COUNT;
+    writeStormStage(
+      this.state.storm,
+      createStormStage(
+        this.worldTerrain,
+        this.stormRng,
+        getInitialStormCircle(this.worldTerrain),
+        0,
+        now,
+        this.stormStageDurationMs,
+      ),
+    );
+  }
+
+  updateStorm(now) {
+    const storm = this.state.storm;
+    if (!storm.active || now < storm.shrinkEndsAtMs || storm.stage >= STORM_CIRCLE_STAGE_COUNT - 1) {
+      return;
+    }
+    const previous = readStormStage(storm);
+    writeStormStage(
+      storm,
+      createStormStage(
+        this.worldTerrain,
+        this.stormRng,
+        previous.to,
+        previous.stage + 1,
+        previous.shrinkEndsAtMs,
+        this.stormStageDurationMs,
+      ),
+    );
+  }
+
+  isStormRoundLive() {
+    return this.rules.mode === "storm" && this.state.match.phase === "live";
+  }
+
+  countStormSurvivors() {
+    let survivors = 0;
+    for (const player of this.state.players.values()) {
+      if (!player.eliminated) {
+        survivors += 1;
       }
+    }
+    return survivors;
+  }
 
-      player.x = Number.isFinite(pose.x) ? pose.x : player.x;
-      player.y = Number.isFinite(pose.y) ? pose.y : player.y;
-      player.z = Number.isFinite(pose.z) ? pose.z : player.z;
-      player.yaw = Number.isFinite(pose.yaw) ? pose.yaw : player.yaw;
-      player.bank = Number.isFinite(pose.bank) ? pose.bank : player.bank;
-      player.speedbar = Boolean(pose.speedbar);
-      player.updatedAtMs = Date.now();
-    });
+  eliminatePilot(player, now) {
+    player.eliminated = true;
+    player.roundSurvivedMs = Math.max(0, now - this.roundStartedAtMs);
+  }
 
-    this.onMessage("crash", (client) => {
-      if (this.state.orbActive && this.state.orb.holderSessionId === client.sessionId) {
-        const holder = this.state.players.get(client.sessionId);
-        if (holder) {
-          holder.currentOrbScore = 0;
+  updateStormExposure(now) {
+    const circle = this.isStormRoundLive() ? getActiveStormCircle(this.state, now) : null;
+    if (!circle) {
+      this.stormExposureSinceMs.clear();
+      return;
+    }
+    for (const [sessionId, player] of this.state.players.entries()) {
+      const deepOutside =
+        !player.eliminated &&
+        Math.hypot(player.x - circle.x, player.z - circle.z) > circle.radius + STORM_CIRCLE_EDGE_WIDTH;
+      if (!deepOutside) {
+        this.stormExposureSinceMs.delete(sessionId);
+        continue;
+      }
+      const sinceMs = this.stormExposureSinceMs.get(sessionId) ?? now;
+      this.stormExposureSinceMs.set(sessionId, sinceMs);
+      if (now - sinceMs >= STORM_DEEP_OUTSIDE_LIMIT_MS) {
+        this.stormExposureSinceMs.delete(sessionId);
+        this.eliminatePilot(player, now);
+      }
+    }
+  }
+
+  finishRound(now) {
+    const match = this.state.match;
+    if (this.state.orb.holderSessionId) {
+      this.rateOrbHold(this.state.orb.holderSessionId);
+    }
+    this.clearOrbState();
+
+    const stormRound = this.rules.mode === "storm";
+    if (stormRound) {
+      for (const player of this.state.players.values()) {
+        if (!player.eliminated) {
+          player.roundSurvivedMs = Math.max(0, now - this.roundStartedAtMs);
         }
-        respawnOrb(this.state);
       }
-    });
+      this.state.storm.active = false;
+    }
+    const getRoundScore = (player) => (stormRound ? player.roundSurvivedMs : player.roundHoldMs);
+    const ranked = Array.from(this.state.players.entries()).sort(
+      ([, a], [, b]) => getRoundScore(b) - getRoundScore(a) || b.roundSteals - a.roundSteals,
+    );
+    match.results.clear();
+    for (const [sessionId, player] of ranked) {
+      const result = new NetRoundResult();
+      result.sessionId = sessionId;
+      result.nickname = player.nickname;
+      result.team = player.team;
+      result.isBot = player.isBot;
+      result.holdMs = Math.round(player.roundHoldMs);
+      result.steals = player.roundSteals;
+      result.pickups = player.roundPickups;
+      result.survivedMs = Math.round(player.roundSurvivedMs);
+      match.results.push(result);
+    }
+    // Winning takes the most holding time (or the longest flight in a storm round) outright; a tie at the top,
+    // such as two pilots still flying when the time runs out, is a draw.
+    const [first, second] = ranked;
+    match.winnerSessionId =
+      first && getRoundScore(first[1]) > 0 && (!second || getRoundScore(second[1]) < getRoundScore(first[1]))
+        ? first[0]
+        : "";
+    const teamsByScore = Array.from(this.state.teams).sort((a, b) => b.score - a.score);
+    match.winnerTeam =
+      teamsByScore.length > 0 && teamsByScore[0].score > 0 && teamsByScore[1].score < teamsByScore[0].score
+        ? teamsByScore[0].team
+        : NO_TEAM;
+    this.setMatchPhase("results", now + ROUND_RESULTS_MS);
+  }
 
-    this.setSimulationInterval((deltaTime) => {
-      this.state.serverTimeMs = Date.now();
-      const now = this.state.serverTimeMs;
-      const orb = this.state.orb;
+  clearCoins(now = Date.now()) {
+    this.state.coins.clear();
+    this.nextCoinSpawnAtMs = now + COIN_SPAWN_INTERVAL_MS;
+  }
 
-      updatePlayerCoinEffects(this.state, now);
-      removeExpiredCoins(this.state, now);
-      this.updateCoinLifecycle(now);
-      this.handleCoinPickups(now);
-      this.updateOrbLifecycle(now);
+  applyTerrain(params) {
+    this.worldTerrain = createWorldTerrain(params);
+    const netTerrain = this.state.terrain;
+    netTerrain.seed = this.worldTerrain.params.seed;
+    netTerrain.islandRadius = this.worldTerrain.params.islandRadius;
+    netTerrain.maxHeight = this.worldTerrain.params.maxHeight;
+    netTerrain.lakeEnabled = this.worldTerrain.params.lakeEnabled;
+    netTerrain.lakeRadiusMin = this.worldTerrain.params.lakeRadiusMin;
+    netTerrain.lakeRadiusMax = this.worldTerrain.params.lakeRadiusMax;
+    netTerrain.lakeDepth = this.worldTerrain.params.lakeDepth;
+    this.clearCoins();
+    this.state.thermals.clear();
+    this.state.thermals.push(...buildThermals(this.worldTerrain, this.state.worldSeed));
+  }
 
-      if (!this.state.orbActive) {
-        this.scoreAccumulatorMs = 0;
-        return;
+  canPlayerTag(sessionId, now) {
+    const bot = this.bots.get(sessionId);
+    if (bot) {
+      return now >= bot.tagReadyAtMs;
+    }
+    return (
+      Boolean(this.state.players.get(sessionId)?.connected) &&
+      isFlightTagReady(this.flightGuards.get(sessionId), now)
+    );
+  }
+
+  // Where the holder appeared on the challenger's screen; bots see the live state and never rewind.
+  getStealTargetPose(challengerSessionId, holderSessionId, now) {
+    const holderTrack = this.poseTracks.get(holderSessionId);
+    const challengerTrack = this.poseTracks.get(challengerSessionId);
+    if (!holderTrack || !challengerTrack || this.bots.has(challengerSessionId)) {
+      return null;
+    }
+    return samplePoseTrack(holderTrack, now - getRewindMs(challengerTrack));
+  }
+
+  canStealFrom(sessionId, player, holder, now) {
+    if (
+      canTag(
+        player.x,
+        player.y,
+        player.z,
+        holder.x,
+        holder.y,
+        holder.z,
+        ORB_STEAL_HORIZONTAL_RADIUS,
+        ORB_STEAL_VERTICAL_TOLERANCE,
+      )
+    ) {
+      return true;
+    }
+    const seenHolder = this.getStealTargetPose(sessionId, this.state.orb.holderSessionId, now);
+    return Boolean(
+      seenHolder &&
+        canTag(
+          player.x,
+          player.y,
+          player.z,
+          seenHolder.x,
+          seenHolder.y,
+          seenHolder.z,
+          ORB_STEAL_HORIZONTAL_RADIUS,
+          ORB_STEAL_VERTICAL_TOLERANCE,
+        ),
+    );
+  }
+
+  canRoundRun() {
+    return (
+      (this.rules.orbEnabled || this.rules.mode === "storm") && this.state.players.size >= this.rules.orbMinPlayers
+    );
+  }
+
+  // warmup -> countdown -> live -> results -> warmup. Warmup holds until the room has enough pilots, and a round
+  // that loses them ends early with results for whoever flew it.
+  updateMatchPhase(now) {
+    const match = this.state.match;
+    const canRun = this.canRoundRun();
+    const stormDecided = this.isStormRoundLive() && this.countStormSurvivors() <= 1;
+    if (match.phase === "live" && (!canRun || now >= match.phaseEndsAtMs || stormDecided)) {
+      this.finishRound(now);
+    } else if (match.phase === "results" && now >= match.phaseEndsAtMs) {
+      // Eliminated pilots spectate until here and fly the warmup with everyone else.
+      for (const player of this.state.players.values()) {
+        player.eliminated = false;
       }
+      this.setMatchPhase("warmup", 0);
+    } else if (match.phase === "warmup" || match.phase === "countdown") {
+      if (!canRun) {
+        this.setMatchPhase("warmup", 0);
+      } else if (match.phase === "warmup" && match.phaseEndsAtMs === 0) {
+        this.setMatchPhase("warmup", now + ROUND_WARMUP_MS);
+      } else if (match.phase === "warmup" && now >= match.phaseEndsAtMs) {
+        this.setMatchPhase("countdown", now + ROUND_COUNTDOWN_MS);
+      } else if (match.phase === "countdown" && now >= match.phaseEndsAtMs) {
+        this.startRound(now);
+      }
+    }
 
-      if (orb.holderSessionId) {
-        const holder = this.state.players.get(orb.holderSessionId);
-        if (!holder) {
-          respawnOrb(this.state);
-        } else {
-          orb.x = holder.x;
-          orb.y = holder.y + 0.9;
-          orb.z = holder.z;
+    // Time left until the next round goes live, for clients that only show the countdown banner.
+    const liveAtMs =
+      match.phase === "warmup" && match.phaseEndsAtMs > 0
+        ? match.phaseEndsAtMs + ROUND_COUNTDOWN_MS
+        : match.phase === "countdown"
+          ? match.phaseEndsAtMs
+          : 0;
+    this.state.orbCountdownRemainingMs = liveAtMs > 0 ? Math.max(0, liveAtMs - now) : 0;
+  }
+
+  updateCoinLifecycle(now) {
+    if (this.state.players.size === 0) {
+      this.clearCoins(now);
+      return;
+    }
+
+    if (now < this.nextCoinSpawnAtMs) {
+      return;
+    }
+
+    if (startupCatalog.items.length > 0 && this.state.coins.length < COIN_MAX_ACTIVE) {
+      spawnStartupCoin(this.state, this.worldTerrain, now);
+    }
+    this.nextCoinSpawnAtMs = now + COIN_SPAWN_INTERVAL_MS;
+  }
+
+  handleCoinPickups(now) {
+    if (this.state.coins.length === 0) {
+      return;
+    }
+
+    const claimedPlayers = new Set();
+    for (let coinIndex = this.state.coins.length - 1; coinIndex >= 0; coinIndex -= 1) {
+      const coin = this.state.coins[coinIndex];
+      for (const [sessionId, player] of this.state.players.entries()) {
+        if (claimedPlayers.has(sessionId) || !this.canPlayerTag(sessionId, now)) {
+          continue;
+        }
+        if (
+          canTag(
+            player.x,
+            player.y,
+            player.z,
+            coin.x,
+            coin.y,
+            coin.z,
+            COIN_PICKUP_HORIZONTAL_RADIUS,
+            COIN_PICKUP_VERTICAL_TOLERANCE,
+          )
+        ) {
+          applyCoinPickup(player, coin, now);
+          serverMetrics.coinPickups += 1;
+          claimedPlayers.add(sessionId);
+          this.state.coins.splice(coinIndex, 1);
+          break;
         }
       }
+    }
+  }
+
+  reseedThermals() {
+    this.state.worldSeed += THERMAL_SEED_STEP;
+    this.state.thermals.clear();
+    this.state.thermals.push(...buildThermals(this.worldTerrain, this.state.worldSeed));
+  }
+
+  // Drops every seat held by `playerId` without a reconnection window. Returns how many were removed.
+  kickPlayer(playerId) {
+    const sessionIds = [];
+    for (const [sessionId, player] of this.state.players.entries()) {
+      if (player.playerId === playerId) {
+        sessionIds.push(sessionId);
+      }
+    }
+    for (const sessionId of sessionIds) {
+      this.removePlayer(sessionId);
+      this.clients.getById(sessionId)?.leave(ADMIN_KICK_CLOSE_CODE);
+    }
+    return sessionIds.length;
+  }
+
+  // Humans only: bots have fixed ratings and make way as soon as people arrive.
+  getAverageSkillRating() {
+    let total = 0;
+    let count = 0;
+    for (const player of this.state.players.values()) {
+      if (!player.isBot) {
+        total += player.skillRating;
+        count += 1;
+      }
+    }
+    return count > 0 ? total / count : null;
+  }
+
+  adjustSkillRating(player, delta) {
+    if (player.isBot) {
+      return;
+    }
+    player.skillRating = Math.max(0, player.skillRating + delta);
+    if (player.playerId) {
+      setPersistentSkillRating(player.playerId, player.skillRating);
+    }
+  }
+
+  // Bots fly at fixed ratings and can be farmed, so only steals between humans are rated.
+  rateOrbSteal(thief, holder) {
+    if (thief.isBot || holder.isBot) {
+      return;
+    }
+    const change = SKILL_RATING_K * (1 - getExpectedScore(thief.skillRating, holder.skillRating));
+    this.adjustSkillRating(thief, change);
+    this.adjustSkillRating(holder, -change);
+  }
+
+  // Must run before the hold ends, while `currentOrbScore` and the orb's multiplier still describe this hold.
+  rateOrbHold(holderSessionId) {
+    const holder = this.state.players.get(holderSessionId);
+    if (!holder || holder.isBot) {
+      return;
+    }
+    let total = 0;
+    let count = 0;
+    // Against the humans in the room only; a hold among bots alone is not rated.
+    for (const [sessionId, player] of this.state.players) {
+      if (sessionId !== holderSessionId && !player.isBot) {
+        total += player.skillRating;
+        count += 1;
+      }
+    }
+    if (count === 0) {
+      return;
+    }
+    const heldSeconds = holder.currentOrbScore / this.state.orb.scoreMultiplier;
+    const result = Math.min(1, heldSeconds / SKILL_RATING_HOLD_REFERENCE_SECONDS);
+    this.adjustSkillRating(holder, SKILL_RATING_K * (result - getExpectedScore(holder.skillRating, total / count)));
+  }
+
+  setTask(now) {
+    this.taskTurnpoints = generateTask(this.worldTerrain, crypto.randomInt(1, 2 ** 31));
+    const task = this.state.task;
+    task.seq += 1;
+    task.startOpensAtMs = now + TASK_START_GATE_DELAY_MS;
+    task.deadlineAtMs = task.startOpensAtMs + TASK_WINDOW_MS;
+    task.turnpoints.clear();
+    task.turnpoints.push(...this.taskTurnpoints.map(toNetTaskTurnpoint));
+    for (const player of this.state.players.values()) {
+      resetTaskProgress(player);
+    }
+  }
+
+  updateTask(now) {
+    if (this.rules.mode !== "task") {
+      return;
+    }
+    if (now >= this.state.task.deadlineAtMs) {
+      this.setTask(now);
+      return;
+    }
+    if (now < this.state.task.startOpensAtMs) {
+      return;
+    }
+
+    const turnpoints = this.taskTurnpoints;
+    const racing = [];
+    for (const [sessionId, player] of this.state.players.entries()) {
+      // A crashed pilot still sits where they went down until their respawn pose arrives.
+      if (player.isBot || !player.connected || this.flightGuards.get(sessionId)?.spawnMode === "crash") {
+        continue;
+      }
+      if (player.taskElapsedMs === 0) {
+        // Until the first turnpoint is made, every tick inside the start restarts the clock, so the start time
+        // is when the pilot last left the start cylinder.
+        if (player.taskNextTurnpoint <= 1 && isInsideTurnpoint(turnpoints[0], player.x, player.y, player.z)) {
+          player.taskNextTurnpoint = 1;
+          player.taskStartedAtMs = now;
+        } else if (
+          player.taskNextTurnpoint >= 1 &&
+          isInsideTurnpoint(turnpoints[player.taskNextTurnpoint], player.x, player.y, player.z)
+        ) {
+          player.taskNextTurnpoint += 1;
+          if (player.taskNextTurnpoint === turnpoints.length) {
+            player.taskElapsedMs = Math.max(1, now - player.taskStartedAtMs);
+          }
+        }
+      }
+      if (player.taskNextTurnpoint > 0) {
+        racing.push(player);
+      }
+    }
+
+    racing.sort((a, b) => compareTaskProgress(turnpoints, a, b));
+    racing.forEach((player, index) => {
+      player.taskRank = index + 1;
+    });
+  }
+
+  handlePilotCrash(sessionId, now = Date.now()) {
+    const pilot = this.state.players.get(sessionId);
+    if (pilot && !pilot.eliminated && this.isStormRoundLive()) {
+      this.eliminatePilot(pilot, now);
+    }
+    // A crash is a landing out: the pilot has to take the start again, unless they already made goal.
+    if (pilot && pilot.taskElapsedMs === 0) {
+      resetTaskProgress(pilot);
+    }
+    if (this.state.orbActive && this.state.orb.holderSessionId === sessionId) {
+      this.rateOrbHold(sessionId);
+      if (pilot) {
+        pilot.currentOrbScore = 0;
+        dropOrb(this.state, this.worldTerrain, pilot);
+        this.orbDrop = { sessionId, atMs: now };
+      } else {
+        respawnOrb(this.state);
+      }
+    }
+  }
+
+  // A client's pilot is down: open their respawn window and forget the poses they had before it.
+  crashClientPilot(sessionId, now) {
+    const guard = this.flightGuards.get(sessionId);
+    if (guard) {
+      markFlightRespawn(guard, now);
+    }
+    this.poseTracks.get(sessionId)?.samples.splice(0);
+    this.handlePilotCrash(sessionId, now);
+  }
+
+  // A client whose pose jumped too far (a long frame stall, say) would otherwise stay frozen where we last saw it.
+  correctRejectedPose(client, guard, player, now) {
+    if (guard.rejectedPoses >= FLIGHT_REJECTED_POSES_BEFORE_RESPAWN) {
+      guard.rejectedPoses = 0;
+      this.crashClientPilot(client.sessionId, now);
+      client.send("pose-correction", { x: player.x, y: player.y, z: player.z, respawn: true });
+      return;
+    }
+    if (now - guard.correctedAtMs >= FLIGHT_POSE_CORRECTION_INTERVAL_MS) {
+      guard.correctedAtMs = now;
+      client.send("pose-correction", { x: player.x, y: player.y, z: player.z, respawn: false });
+    }
+  }
+
+  getTeamSizes() {
+    const sizes = Array.from(this.state.teams, () => 0);
+    for (const player of this.state.players.values()) {
+      if (player.team !== NO_TEAM) {
+        sizes[player.team] += 1;
+      }
+    }
+    return sizes;
+  }
+
+  // Smallest team first, then the one further behind on score. NO_TEAM in free-for-all rooms.
+  pickTeam() {
+    const sizes = this.getTeamSizes();
+    let best = NO_TEAM;
+    for (let team = 0; team < sizes.length; team += 1) {
+      if (
+        best === NO_TEAM ||
+        sizes[team] < sizes[best] ||
+        (sizes[team] === sizes[best] && this.state.teams[team].score < this.state.teams[best].score)
+      ) {
+        best = team;
+      }
+    }
+    return best;
+  }
+
+  // Bots count too, but their names end in " (bot)", which no pilot can pick.
+  isNicknameTaken(nickname, sessionId) {
+    const key = toNicknameKey(nickname);
+    for (const [otherSessionId, player] of this.state.players) {
+      if (otherSessionId !== sessionId && toNicknameKey(player.nickname) === key) {
+        return true;
+      }
+    }
+    return false;
+  }
 
-      if (!orb.holderSessionId) {
+  // Joining never fails over a nickname: a clash gets a number appended, an invalid name the fallback.
+  toUniqueNickname(nickname, sessionId) {
+    let candidate = nickname;
+    for (let suffix = 2; this.isNicknameTaken(candidate, sessionId); suffix += 1) {
+      candidate = `${nickname.slice(0, NICKNAME_MAX_LENGTH - String(suffix).length - 1)} ${suffix}`;
+    }
+    return candidate;
+  }
+
+  addBot(now) {
+    const usedNames = new Set(Array.from(this.state.players.values(), (player) => player.nickname));
+    const name = BOT_NAMES.find((candidate) => !usedNames.has(`${candidate} (bot)`)) ?? "Glider";
+    const sessionId = `${BOT_SESSION_PREFIX}${crypto.randomUUID().slice(0, 8)}`;
+    const player = new NetPlayer();
+    player.nickname = `${name} (bot)`;
+    player.isBot = true;
+    player.team = this.pickTeam();
+    player.skillRating = BOT_DIFFICULTIES[this.rules.botDifficulty].skillRating;
+    placeBotOnSpawnRing(player, this.worldTerrain);
+    player.eliminated = this.isStormRoundLive();
+    this.state.players.set(sessionId, player);
+    this.bots.set(sessionId, createBotBrain(BOT_DIFFICULTIES[this.rules.botDifficulty], now));
+    this.poseTracks.set(sessionId, createPoseTrack());
+  }
+
+  sendInterestPoses(now) {
+    for (const client of this.clients) {
+      const view = this.interestViews.get(client.sessionId);
+      const message = view ? buildInterestMessage(view, this.state, client.sessionId, now) : null;
+      if (message) {
+        client.send("poses", message);
+      }
+    }
+  }
+
+  removeBot(sessionId) {
+    this.bots.delete(sessionId);
+    this.removePlayer(sessionId);
+  }
+
+  // Tops the room up to a playable pilot count with bots and retires them as soon as people take their seats.
+  updateBotPopulation(now) {
+    const humanCount = this.state.players.size - this.bots.size;
+    const targetPilots = Math.min(this.rules.maxPlayers, Math.max(this.rules.orbMinPlayers, BOT_FILL_PILOTS));
+    const targetBots = this.rules.botsEnabled && humanCount > 0 ? Math.max(0, targetPilots - humanCount) : 0;
+    if (humanCount === 0) {
+      this.nextBotJoinAtMs = now + BOT_JOIN_DELAY_MS;
+    }
+
+    while (this.bots.size > targetBots) {
+      // Retire from the biggest team first so people joining keep the teams even.
+      const holderSessionId = this.state.orb.holderSessionId;
+      const teamSizes = this.getTeamSizes();
+      const retiring =
+        Array.from(this.bots.keys())
+          .filter((sessionId) => sessionId !== holderSessionId)
+          .sort(
+            (a, b) =>
+              (teamSizes[this.state.players.get(b)?.team] ?? 0) - (teamSizes[this.state.players.get(a)?.team] ?? 0),
+          )[0] ?? holderSessionId;
+      this.removeBot(retiring);
+    }
+
+    if (this.bots.size < targetBots && now >= this.nextBotJoinAtMs) {
+      this.addBot(now);
+      this.nextBotJoinAtMs = now + BOT_JOIN_DELAY_MS;
+    }
+  }
+
+  updateBots(deltaTime, now) {
+    for (const [sessionId, brain] of this.bots.entries()) {
+      const player = this.state.players.get(sessionId);
+      // Eliminated bots sit out the rest of the storm round on the spawn ring.
+      if (!player || player.eliminated) {
+        continue;
+      }
+      if (!brain.goal || now >= brain.nextDecisionAtMs) {
+        brain.goal = decideBotGoal(this.state, this.worldTerrain, sessionId, player, brain, now);
+        brain.nextDecisionAtMs = now + brain.difficulty.reactionMs;
+      }
+      const track = this.poseTracks.get(sessionId);
+      const handicap = getOrbHolderHandicap(this.state, sessionId);
+      if (stepBotFlight(this.state, this.worldTerrain, player, brain, deltaTime / 1000, now, handicap)) {
+        this.handlePilotCrash(sessionId, now);
+        placeBotOnSpawnRing(player, this.worldTerrain);
+        brain.goal = null;
+        brain.tagReadyAtMs = now + FLIGHT_TAG_WARMUP_MS;
+        track?.samples.splice(0);
+      }
+      if (track) {
+        recordPoseSample(track, now, player.x, player.y, player.z);
+      }
+    }
+  }
+
+  updateOrbChase(deltaTime, now) {
+    if (!this.state.orbActive) {
+      this.scoreAccumulatorMs = 0;
+      return;
+    }
+
+    const orb = this.state.orb;
+    if (orb.holderSessionId) {
+      const holder = this.state.players.get(orb.holderSessionId);
+      if (!holder) {
+        respawnOrb(this.state);
+      } else if (this.rules.orbMaxHoldMs > 0 && now - orb.lastTransferAtMs >= this.rules.orbMaxHoldMs) {
+        this.rateOrbHold(orb.holderSessionId);
+        holder.currentOrbScore = 0;
+        respawnOrb(this.state);
+      } else {
+        orb.x = holder.x;
+        orb.y = holder.y + ORB_HOLDER_OFFSET_Y;
+        orb.z = holder.z;
+      }
+    } else if (orb.dropped && stepDroppedOrb(this.state, this.worldTerrain, deltaTime / 1000, now)) {
+      respawnOrb(this.state);
+    }
+
+    if (!orb.holderSessionId) {
+      for (const [sessionId, player] of this.state.players.entries()) {
+        if (!this.canPlayerTag(sessionId, now) || (orb.dropped && !canCatchDroppedOrb(this.orbDrop, sessionId, now))) {
+          continue;
+        }
+        if (
+          canTag(
+            player.x,
+            player.y,
+            player.z,
+            orb.x,
+            orb.y,
+            orb.z,
+            ORB_PICKUP_HORIZONTAL_RADIUS,
+            ORB_PICKUP_VERTICAL_TOLERANCE,
+          )
+        ) {
+          player.currentOrbScore = 0;
+          player.roundPickups += 1;
+          orb.holderSessionId = sessionId;
+          orb.lastTransferAtMs = now;
+          orb.scoreMultiplier = 1;
+          this.orbScoreCredit = 0;
+          stopOrb(orb);
+          incrementMetric(serverMetrics.orbTransfers, "pickup");
+          orb.x = player.x;
+          orb.y = player.y + ORB_HOLDER_OFFSET_Y;
+          orb.z = player.z;
+          break;
+        }
+      }
+    } else if (now - orb.lastTransferAtMs >= this.rules.orbStealCooldownMs) {
+      const holder = this.state.players.get(orb.holderSessionId);
+      if (!holder) {
+        respawnOrb(this.state);
+      } else {
         for (const [sessionId, player] of this.state.players.entries()) {
-          if (
-            canTag(
-              player.x,
-              player.y,
-              player.z,
-              orb.x,
-              orb.y,
-              orb.z,
-              ORB_PICKUP_HORIZONTAL_RADIUS,
-              ORB_PICKUP_VERTICAL_TOLERANCE,
-            )
-          ) {
+          if (sessionId === orb.holderSessionId || !this.canPlayerTag(sessionId, now) || areTeammates(player, holder)) {
+            continue;
+          }
+          if (this.canStealFrom(sessionId, player, holder, now)) {
+            this.rateOrbHold(orb.holderSessionId);
+            this.rateOrbSteal(player, holder);
+            holder.currentOrbScore = 0;
             player.currentOrbScore = 0;
+            player.roundSteals += 1;
+            orb.scoreMultiplier = getStealScoreMultiplier(this.rules.orbStealBonusPct, now - orb.lastTransferAtMs);
+            this.orbScoreCredit = 0;
             orb.holderSessionId = sessionId;
             orb.lastTransferAtMs = now;
+            incrementMetric(serverMetrics.orbTransfers, "steal");
             orb.x = player.x;
-            orb.y = player.y + 0.9;
+            orb.y = player.y + ORB_HOLDER_OFFSET_Y;
             orb.z = player.z;
             break;
           }
         }
-      } else if (now - orb.lastTransferAtMs >= ORB_STEAL_COOLDOWN_MS) {
+      }
+    }
+
+    const currentHolder = orb.holderSessionId ? this.state.players.get(orb.holderSessionId) : null;
+    if (currentHolder?.connected) {
+      currentHolder.roundHoldMs += deltaTime;
+    }
+
+    this.scoreAccumulatorMs += deltaTime;
+    while (this.scoreAccumulatorMs >= ORB_SCORE_INTERVAL_MS) {
+      if (orb.holderSessionId) {
         const holder = this.state.players.get(orb.holderSessionId);
-        if (!holder) {
-          respawnOrb(this.state);
-        } else {
-          for (const [sessionId, player] of this.state.players.entries()) {
-            if (sessionId === orb.holderSessionId) {
-              continue;
-            }
-            if (
-              canTag(
-                player.x,
-                player.y,
-                player.z,
-                holder.x,
-                holder.y,
-                holder.z,
-                ORB_STEAL_HORIZONTAL_RADIUS,
-                ORB_STEAL_VERTICAL_TOLERANCE,
-              )
-            ) {
-              holder.currentOrbScore = 0;
-              player.currentOrbScore = 0;
-              orb.holderSessionId = sessionId;
-              orb.lastTransferAtMs = now;
-              orb.x = player.x;
-              orb.y = player.y + 0.9;
-              orb.z = player.z;
-              break;
-            }
+        if (holder?.connected) {
+          // Fractional multipliers carry over, so a x1.5 hold scores 1 and 2 points on alternate seconds.
+          this.orbScoreCredit += orb.scoreMultiplier;
+          const points = Math.floor(this.orbScoreCredit);
+          this.orbScoreCredit -= points;
+          holder.currentOrbScore += points;
+          holder.bestOrbScore = Math.max(holder.bestOrbScore, holder.currentOrbScore);
+          if (holder.team !== NO_TEAM) {
+            this.state.teams[holder.team].score += points;
+          }
+          if (holder.playerId) {
+            upsertPersistentPlayerScore(holder.playerId, holder.nickname, holder.currentOrbScore);
           }
         }
       }
+      this.scoreAccumulatorMs -= ORB_SCORE_INTERVAL_MS;
+    }
+  }
 
-      this.scoreAccumulatorMs += deltaTime;
-      while (this.scoreAccumulatorMs >= ORB_SCORE_INTERVAL_MS) {
-        if (orb.holderSessionId) {
-          const holder = this.state.players.get(orb.holderSessionId);
-          if (holder) {
-            holder.currentOrbScore += 1;
-            holder.bestOrbScore = Math.max(holder.bestOrbScore, holder.currentOrbScore);
-            if (holder.playerId) {
-              upsertPersistentPlayerScore(holder.playerId, holder.nickname, holder.bestOrbScore);
-            }
-          }
+  applyRoomOptions(options) {
+    this.rules = sanitizeRoomOptions(options);
+    this.roomId = createRoomCode();
+    this.maxClients = this.rules.maxPlayers;
+    const roomName = this.rules.name || `Sky ${this.roomId}`;
+    const netRoom = this.state.room;
+    netRoom.code = this.roomId;
+    netRoom.name = roomName;
+    netRoom.isPrivate = this.rules.isPrivate;
+    netRoom.maxPlayers = this.rules.maxPlayers;
+    netRoom.orbEnabled = this.rules.orbEnabled;
+    netRoom.orbMinPlayers = this.rules.orbMinPlayers;
+    netRoom.orbStealCooldownMs = this.rules.orbStealCooldownMs;
+    netRoom.orbHolderSinkRate = this.rules.orbHolderSinkRate;
+    netRoom.orbHolderSlowdownPct = this.rules.orbHolderSlowdownPct;
+    netRoom.orbHolderTrail = this.rules.orbHolderTrail;
+    netRoom.orbStealBonusPct = this.rules.orbStealBonusPct;
+    netRoom.orbMaxHoldMs = this.rules.orbMaxHoldMs;
+    netRoom.botsEnabled = this.rules.botsEnabled;
+    netRoom.botDifficulty = this.rules.botDifficulty;
+    netRoom.mode = this.rules.mode;
+    netRoom.teamCount = this.rules.mode === "teams" ? this.rules.teamCount : 0;
+    netRoom.roundDurationMs = this.rules.roundDurationMs;
+    this.state.teams.clear();
+    for (let team = 0; team < netRoom.teamCount; team += 1) {
+      const teamScore = new NetTeamScore();
+      teamScore.team = team;
+      this.state.teams.push(teamScore);
+    }
+    void this.setMetadata({
+      name: roomName,
+      region: this.rules.region,
+      mode: this.rules.mode,
+      orbEnabled: this.rules.orbEnabled,
+      orbMinPlayers: this.rules.orbMinPlayers,
+    });
+    if (this.rules.isPrivate) {
+      void this.setPrivate(true);
+    }
+  }
+
+  onCreate(options) {
+    this.setPatchRate(SERVER_TICK_MS);
+    this.setState(new WorldState());
+    this.applyRoomOptions(options);
+    activeWorldRooms.add(this);
+    syncPersistentLeaderboardToRoom(this);
+    this.scoreAccumulatorMs = 0;
+    this.orbScoreCredit = 0;
+    this.orbDrop = null;
+    this.roundStartedAtMs = 0;
+    this.stormRng = null;
+    this.stormStageDurationMs = 0;
+    this.stormExposureSinceMs = new Map();
+    this.flightGuards = new Map();
+    this.bots = new Map();
+    this.poseTracks = new Map();
+    this.interestViews = new Map();
+    this.chatSendTimes = new Map();
+    this.chatSeq = 0;
+    this.metrics = createRoomMetrics();
+    this.nextBotJoinAtMs = Date.now() + BOT_JOIN_DELAY_MS;
+    this.nextCoinSpawnAtMs = Date.now() + COIN_SPAWN_INTERVAL_MS;
+    this.applyTerrain(pickRoomTerrainParams());
+    if (this.rules.mode === "task") {
+      this.setTask(Date.now());
+    }
+    this.recorder = createMatchRecorder(this, Date.now());
+    if (shouldRefreshStartupCatalog()) {
+      void syncStartupCatalog();
+    }
+
+    this.onCountedMessage("pose", (client, message) => {
+      const player = this.state.players.get(client.sessionId);
+      // Current clients send a binary packet (a Buffer here); older ones still send the plain object.
+      const pose = message instanceof Uint8Array ? decodePosePacket(message) : message;
+      if (!player || !pose || typeof pose !== "object") {
+        return;
+      }
+
+      const now = Date.now();
+      const guard = this.flightGuards.get(client.sessionId);
+      const track = this.poseTracks.get(client.sessionId);
+      if (!guard) {
+        return;
+      }
+      if (track && typeof pose.seq === "number") {
+        if (!isNewerPoseSeq(pose.seq, track.lastSeq)) {
+          return;
+        }
+        track.lastSeq = pose.seq;
+      }
+      const validated = validateFlightPose(
+        this.worldTerrain,
+        guard,
+        player,
+        client.sessionId,
+        pose,
+        now,
+        getOrbHolderHandicap(this.state, client.sessionId),
+      );
+      if (!validated) {
+        this.correctRejectedPose(client, guard, player, now);
+        return;
+      }
+
+      if (validated.corrected) {
+        // Their glider is somewhere we did not accept; move it back so their next poses line up with ours.
+        guard.correctedAtMs = now;
+        client.send("pose-correction", { x: validated.x, y: validated.y, z: validated.z, respawn: false });
+      }
+
+      player.x = validated.x;
+      player.y = validated.y;
+      player.z = validated.z;
+      player.yaw = Number.isFinite(pose.yaw) ? pose.yaw : player.yaw;
+      player.bank = Number.isFinite(pose.bank) ? clamp(pose.bank, -1, 1) : player.bank;
+      player.speedbar = Boolean(pose.speedbar);
+      player.updatedAtMs = now;
+
+      if (track) {
+        track.viewDelayMs = clamp(asFiniteNumber(pose.viewDelayMs), 0, LAG_COMP_MAX_VIEW_DELAY_MS);
+        recordPoseSample(track, now, player.x, player.y, player.z);
+      }
+      const grounded = player.y <= flightFloorAt(this.worldTerrain, player.x, player.z);
+      if (grounded && this.isStormRoundLive() && !player.eliminated) {
+        this.crashClientPilot(client.sessionId, now);
+      }
+    });
+
+    this.onCountedMessage("pong", (client, sentAtMs) => {
+      const track = this.poseTracks.get(client.sessionId);
+      if (track && typeof sentAtMs === "number") {
+        recordRoundTrip(track, Date.now() - sentAtMs);
+      }
+    });
+
+    // Clients respawn when the room's island replaces their own and when they fly again after an elimination.
+    // Anything that puts a pilot back on the spawn ring costs what a crash does, so it is no way out of a storm,
+    // a task leg or a chase with the orb.
+    this.onCountedMessage("respawn", (client) => {
+      this.crashClientPilot(client.sessionId, Date.now());
+    });
+
+    this.onCountedMessage("crash", (client) => {
+      this.crashClientPilot(client.sessionId, Date.now());
+    });
+
+    this.onCountedMessage("spectate", (client, message) => {
+      const view = this.interestViews.get(client.sessionId);
+      if (view && typeof message?.sessionId === "string") {
+        view.spectateSessionId = message.sessionId;
+      }
+    });
+
+    this.onCountedMessage("chat", (client, message) => {
+      const player = this.state.players.get(client.sessionId);
+      const sendTimes = this.chatSendTimes.get(client.sessionId);
+      if (!player || !sendTimes) {
+        return;
+      }
+      // Presets are sent by id and resolved here; free text is trimmed, capped and filtered.
+      const preset = findChatQuickPreset(message?.preset);
+      const text = preset ? preset.text : filterChatText(normalizeChatText(message?.text));
+      if (!text) {
+        return;
+      }
+      const now = Date.now();
+      const retryAfterMs = takeChatAllowance(sendTimes, now);
+      if (retryAfterMs > 0) {
+        client.send("chat-rate-limited", { retryAfterMs });
+        return;
+      }
+      this.chatSeq += 1;
+      this.broadcast("chat", {
+        id: `${this.roomId}-${this.chatSeq}`,
+        sessionId: client.sessionId,
+        playerKey: player.playerKey,
+        nickname: player.nickname,
+        text,
+        sentAtMs: now,
+      });
+    });
+
+    this.onCountedMessage("rename", (client, message) => {
+      const player = this.state.players.get(client.sessionId);
+      if (!player) {
+        return;
+      }
+      const now = Date.now();
+      const waitMs = player.nicknameChangedAtMs + NICKNAME_CHANGE_COOLDOWN_MS - now;
+      if (waitMs > 0) {
+        client.send("rename-result", {
+          ok: false,
+          error: `You can change your nickname again in ${Math.ceil(waitMs / 1000)}s.`,
+        });
+        return;
+      }
+      let result = checkNickname(message?.nickname);
+      if (result.ok && this.isNicknameTaken(result.nickname, client.sessionId)) {
+        result = { ok: false, error: `Someone in this room is already called "${result.nickname}".` };
+      }
+      if (result.ok) {
+        player.nickname = result.nickname;
+        player.nicknameChangedAtMs = now;
+        if (player.playerId) {
+          upsertPersistentPlayerScore(player.playerId, result.nickname, 0);
         }
-        this.scoreAccumulatorMs -= ORB_SCORE_INTERVAL_MS;
       }
+      client.send("rename-result", result);
+    });
+
+    // Types without a handler are lumped together so clients cannot mint new metric labels.
+    this.onMessage("*", () => {
+      incrementMetric(serverMetrics.messagesReceived, "unknown");
+    });
+
+    this.setSimulationInterval((deltaTime) => {
+      const tickStartedAt = performance.now();
+      this.state.serverTimeMs = Date.now();
+      const now = this.state.serverTimeMs;
+
+      this.updateBotPopulation(now);
+      this.updateBots(deltaTime, now);
+      updatePlayerCoinEffects(this.state, now);
+      removeExpiredCoins(this.state, now);
+      this.updateCoinLifecycle(now);
+      this.handleCoinPickups(now);
+      this.updateMatchPhase(now);
+      this.updateOrbChase(deltaTime, now);
+      this.updateTask(now);
+      this.updateStorm(now);
+      this.updateStormExposure(now);
+      this.sendInterestPoses(now);
+      if (this.recorder) {
+        captureMatchFrame(this.recorder, this.state, now);
+      }
+      const tickDurationMs = performance.now() - tickStartedAt;
+      recordTickDuration(tickDurationMs);
+      observeRoomTick(this.metrics, tickDurationMs);
     }, SERVER_TICK_MS);
 
     this.clock.setInterval(() => {
-      this.state.worldSeed += 131;
-      this.state.thermals.clear();
-      this.state.thermals.push(...buildThermals(this.state.worldSeed));
+      this.reseedThermals();
     }, THERMAL_RESEED_SECONDS * 1000);
 
+    this.clock.setInterval(() => {
+      const now = Date.now();
+      for (const client of this.clients) {
+        client.send("ping", now);
+      }
+    }, LAG_COMP_PING_INTERVAL_MS);
+
     this.clock.setInterval(() => {
       if (shouldRefreshStartupCatalog()) {
         void syncStartupCatalog();
       }
     }, SAFE_STARTUP_REFRESH_INTERVAL_MS);
+
+    if (this.recorder) {
+      this.clock.setInterval(() => {
+        this.recorder?.gzip.flush();
+      }, REPLAY_FLUSH_INTERVAL_MS);
+    }
+  }
+
+  // Registers a message handler and counts each message it receives for `/metrics`.
+  onCountedMessage(type, handler) {
+    this.onMessage(type, (client, message) => {
+      incrementMetric(serverMetrics.messagesReceived, type);
+      handler(client, message);
+    });
+  }
+
+  // `client.auth.identity` is the resolved `{ playerId, token }`, or null for anonymous clients.
+  onAuth(client, options) {
+    const identity = resolvePlayerIdentity(options);
+    if (identity && bannedPlayers.has(identity.playerId)) {
+      throw new ServerError(403, "This player is banned.");
+    }
+    return { identity };
   }
 
   onJoin(client, options) {
-    const playerId = sanitizePlayerId(options?.playerId);
+    const identity = client.auth?.identity ?? null;
+    const playerId = identity?.playerId ?? "";
     const fallbackNickname = `Pilot-${(playerId || client.sessionId).slice(0, 4)}`;
-    const nickname = sanitizeNickname(options?.nickname, fallbackNickname);
+    const requestedNickname = checkNickname(options?.nickname);
+    const nickname = this.toUniqueNickname(
+      requestedNickname.ok ? requestedNickname.nickname : fallbackNickname,
+      client.sessionId,
+    );
     const persistedPlayer = playerId ? persistentScores.playersById.get(playerId) : null;
 
     const player = new NetPlayer();
     player.playerId = playerId;
+    player.playerKey = toPublicPlayerKey(playerId || `session:${client.sessionId}`);
     player.nickname = nickname;
     player.currentOrbScore = 0;
     player.bestOrbScore = persistedPlayer?.bestOrbScore ?? 0;
+    player.skillRating = persistedPlayer?.skillRating ?? SKILL_RATING_DEFAULT;
+    player.team = this.pickTeam();
     const angle = Math.random() * Math.PI * 2;
-    player.x = Math.cos(angle) * SPAWN_RING_RADIUS;
-    player.z = Math.sin(angle) * SPAWN_RING_RADIUS;
+    player.x = Math.cos(angle) * this.worldTerrain.spawnRingRadius;
+    player.z = Math.sin(angle) * this.worldTerrain.spawnRingRadius;
     player.yaw = Math.atan2(player.x, player.z);
+    // Pilots who arrive mid-way through a storm round watch it out and fly from the next one.
+    player.eliminated = this.isStormRoundLive();
     this.state.players.set(client.sessionId, player);
-    if (playerId) {
-      upsertPersistentPlayerScore(playerId, nickname, player.bestOrbScore);
+    meterClientBytes(client, this.metrics);
+    this.flightGuards.set(client.sessionId, createFlightGuard(Date.now()));
+    this.poseTracks.set(client.sessionId, createPoseTrack());
+    this.interestViews.set(client.sessionId, createInterestView());
+    this.chatSendTimes.set(client.sessionId, []);
+    if (identity) {
+      upsertPersistentPlayerScore(playerId, nickname, 0);
+      client.send("identity", { token: identity.token });
     }
-    this.updateOrbLifecycle(Date.now());
+    this.updateMatchPhase(Date.now());
   }
 
-  onLeave(client) {
-    if (this.state.orbActive && this.state.orb.holderSessionId === client.sessionId) {
-      respawnOrb(this.state);
+  async onLeave(client, consented) {
+    const player = this.state.players.get(client.sessionId);
+    if (player && !consented) {
+      // Dropped sockets keep their pilot, score and orb for a grace window; the client retries with its reconnection token.
+      player.connected = false;
+      try {
+        const reconnectedClient = await this.allowReconnection(client, RECONNECT_GRACE_SECONDS);
+        if (this.state.players.get(client.sessionId) !== player) {
+          // Kicked by an admin while the socket was down.
+          client.leave(ADMIN_KICK_CLOSE_CODE);
+          return;
+        }
+        player.connected = true;
+        meterClientBytes(reconnectedClient, this.metrics);
+        const guard = this.flightGuards.get(client.sessionId);
+        if (guard) {
+          markFlightReconnect(guard, Date.now());
+        }
+        // The client numbers poses from scratch on the new socket.
+        const track = this.poseTracks.get(client.sessionId);
+        if (track) {
+          track.lastSeq = null;
+        }
+        // The new socket starts with an empty pose cache, so resend everyone in range.
+        this.interestViews.set(client.sessionId, createInterestView());
+        return;
+      } catch {
+        // Grace window expired; fall through and remove the pilot.
+      }
+    }
+    this.removePlayer(client.sessionId);
+  }
+
+  removePlayer(sessionId) {
+    if (this.state.orbActive && this.state.orb.holderSessionId === sessionId) {
+      this.rateOrbHold(sessionId);
+      const holder = this.state.players.get(sessionId);
+      if (holder) {
+        dropOrb(this.state, this.worldTerrain, holder);
+      } else {
+        respawnOrb(this.state);
+      }
     }
-    this.state.players.delete(client.sessionId);
+    this.state.players.delete(sessionId);
+    this.flightGuards.delete(sessionId);
+    this.poseTracks.delete(sessionId);
+    this.interestViews.delete(sessionId);
+    this.chatSendTimes.delete(sessionId);
     if (this.state.players.size === 0) {
       this.clearCoins(Date.now());
     }
-    this.updateOrbLifecycle(Date.now());
+    this.updateMatchPhase(Date.now());
   }
 
   onDispose() {
     activeWorldRooms.delete(this);
+    if (this.recorder) {
+      captureMatchFrame(this.recorder, this.state, Date.now());
+      closeMatchRecorder(this.recorder);
+      this.recorder = null;
+    }
   }
 }
 
+const writeAdminAudit = (entry) => {
+  try {
+    ensureParentDir(ADMIN_AUDIT_LOG_PATH);
+    appendFileSync(ADMIN_AUDIT_LOG_PATH, `${JSON.stringify({ at: new Date().toISOString(), ...entry })}\n`, "utf8");
+  } catch (error) {
+    console.warn("[admin] failed to write audit log.", error);
+  }
+};
+
+const readBearerToken = (req) => {
+  const header = req.headers.authorization ?? "";
+  return header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+};
+
+const isBearerAuthorized = (req, token) => {
+  const given = Buffer.from(readBearerToken(req));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+const isAdminAuthorized = (req) => isBearerAuthorized(req, ADMIN_TOKEN);
+
+const readJsonBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > ADMIN_BODY_MAX_BYTES) {
+        reject(createAdminError(413, "Request body too large."));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (chunks.length === 0) {
+        resolve({});
+        return;
+      }
+      try {
+        const parsed = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+        resolve(parsed && typeof parsed === "object" ? parsed : {});
+      } catch {
+        reject(createAdminError(400, "Body must be JSON."));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const createAdminError = (status, message) => Object.assign(new Error(message), { status });
+
+const findWorldRoom = (code) => {
+  const room = Array.from(activeWorldRooms).find((candidate) => candidate.roomId === code.toUpperCase());
+  if (!room) {
+    throw createAdminError(404, `No active room ${code}.`);
+  }
+  return room;
+};
+
+const requireAdminPlayerId = (value) => {
+  const playerId = sanitizePlayerId(value);
+  if (!playerId) {
+    throw createAdminError(400, "Invalid playerId.");
+  }
+  return playerId;
+};
+
+const describeRoomForAdmin = (room) => ({
+  code: room.roomId,
+  name: room.state.room.name,
+  isPrivate: room.state.room.isPrivate,
+  maxPlayers: room.state.room.maxPlayers,
+  clients: room.clients.length,
+  mode: room.rules.mode,
+  matchPhase: room.state.match.phase,
+  round: room.state.match.round,
+  orbActive: room.state.orbActive,
+  orbHolderSessionId: room.state.orb.holderSessionId,
+  players: Array.from(room.state.players.entries(), ([sessionId, player]) => ({
+    sessionId,
+    playerId: player.playerId,
+    nickname: player.nickname,
+    isBot: player.isBot,
+    team: player.team,
+    taskNextTurnpoint: player.taskNextTurnpoint,
+    taskElapsedMs: player.taskElapsedMs,
+    eliminated: player.eliminated,
+    connected: player.connected,
+    currentOrbScore: player.currentOrbScore,
+    bestOrbScore: player.bestOrbScore,
+  })),
+});
+
+const kickPlayerEverywhere = (playerId) => {
+  let kicked = 0;
+  for (const room of activeWorldRooms) {
+    kicked += room.kickPlayer(playerId);
+  }
+  return kicked;
+};
+
+// Keeps seated pilots in step with an edited scoreboard entry, otherwise their next upsert would restore the old best.
+const setLiveBestOrbScore = (playerId, bestOrbScore) => {
+  for (const room of activeWorldRooms) {
+    for (const player of room.state.players.values()) {
+      if (player.playerId === playerId) {
+        player.bestOrbScore = bestOrbScore;
+      }
+    }
+  }
+};
+
+// Resolves one admin request to `{ status, body }`. Paths are relative to ADMIN_ROUTE_PREFIX.
+const runAdminAction = async (method, segments, readBody) => {
+  const [resource, id] = segments;
+  const route = `${method} ${segments
+    .map((segment, index) => (index === 1 && ADMIN_ID_RESOURCES.has(resource) ? ":id" : segment))
+    .join("/")}`;
+
+  switch (route) {
+    case "GET rooms":
+      return { status: 200, body: { rooms: Array.from(activeWorldRooms, describeRoomForAdmin) } };
+    case "POST rooms/:id/reseed-thermals": {
+      const room = findWorldRoom(id);
+      room.reseedThermals();
+      return { status: 200, body: { code: room.roomId, worldSeed: room.state.worldSeed } };
+    }
+    case "POST rooms/:id/respawn-orb": {
+      const room = findWorldRoom(id);
+      if (!room.state.orbActive) {
+        throw createAdminError(409, "The orb is not in play in this room.");
+      }
+      respawnOrb(room.state);
+      const { x, y, z } = room.state.orb;
+      return { status: 200, body: { code: room.roomId, orb: { x, y, z } } };
+    }
+    case "POST players/:id/kick": {
+      const playerId = requireAdminPlayerId(id);
+      return { status: 200, body: { playerId, kicked: kickPlayerEverywhere(playerId) } };
+    }
+    case "POST players/:id/ban": {
+      const playerId = requireAdminPlayerId(id);
+      const body = await readBody();
+      const ban = {
+        playerId,
+        reason: asTrimmedString(body.reason).slice(0, ADMIN_BAN_REASON_MAX_LENGTH),
+        bannedAtMs: Date.now(),
+      };
+      bannedPlayers.set(playerId, ban);
+      persistBans();
+      return { status: 200, body: { ban, kicked: kickPlayerEverywhere(playerId) } };
+    }
+    case "DELETE players/:id/ban": {
+      const playerId = requireAdminPlayerId(id);
+      const removed = bannedPlayers.delete(playerId);
+      if (removed) {
+        persistBans();
+      }
+      return { status: removed ? 200 : 404, body: { playerId, unbanned: removed } };
+    }
+    case "GET bans":
+      return { status: 200, body: { bans: Array.from(bannedPlayers.values()) } };
+    case "GET scores":
+      return {
+        status: 200,
+        body: {
+          players: Array.from(persistentScores.playersById.values()).sort((a, b) => b.bestOrbScore - a.bestOrbScore),
+        },
+      };
+    case "PATCH scores/:id": {
+      const playerId = requireAdminPlayerId(id);
+      const existing = persistentScores.playersById.get(playerId);
+      if (!existing) {
+        throw createAdminError(404, `No scoreboard entry for ${playerId}.`);
+      }
+      const body = await readBody();
+      const next = { ...existing, updatedAtMs: Date.now() };
+      if (body.nickname !== undefined) {
+        next.nickname = sanitizeNickname(body.nickname, existing.nickname);
+      }
+      if (body.bestOrbScore !== undefined) {
+        const score = Number(body.bestOrbScore);
+        if (!Number.isFinite(score) || score < 0) {
+          throw createAdminError(400, "bestOrbScore must be a non-negative number.");
+        }
+        next.bestOrbScore = Math.floor(score);
+        setLiveBestOrbScore(playerId, next.bestOrbScore);
+      }
+      persistentScores.playersById.set(playerId, next);
+      markPlayerRecordDirty(playerId);
+      syncPersistentLeaderboardToRooms();
+      return { status: 200, body: { player: next } };
+    }
+    case "DELETE scores/:id": {
+      const playerId = requireAdminPlayerId(id);
+      const removed = persistentScores.playersById.delete(playerId);
+      if (!removed) {
+        throw createAdminError(404, `No scoreboard entry for ${playerId}.`);
+      }
+      setLiveBestOrbScore(playerId, 0);
+      markPlayerRecordDirty(playerId);
+      syncPersistentLeaderboardToRooms();
+      return { status: 200, body: { playerId, reset: true } };
+    }
+    case "POST startups/sync": {
+      await syncStartupCatalog();
+      return {
+        status: 200,
+        body: {
+          source: startupCatalog.source,
+          items: startupCatalog.items.length,
+          lastSyncedAtMs: startupCatalog.lastSyncedAtMs,
+        },
+      };
+    }
+    default:
+      throw createAdminError(404, `Unknown admin route ${method} ${segments.join("/")}.`);
+  }
+};
+
+const handleAdminRequest = async (req, res, url) => {
+  const audit = {
+    remoteAddress: req.socket.remoteAddress ?? "",
+    method: req.method ?? "GET",
+    path: url.pathname,
+  };
+  if (!ADMIN_TOKEN) {
+    sendJson(res, 404, { error: "Admin API is disabled." });
+    return;
+  }
+  if (!isAdminAuthorized(req)) {
+    writeAdminAudit({ ...audit, status: 401 });
+    sendJson(res, 401, { error: "Unauthorized." });
+    return;
+  }
+
+  let body = null;
+  const readBody = async () => {
+    body = await readJsonBody(req);
+    return body;
+  };
+  try {
+    const segments = url.pathname.slice(ADMIN_ROUTE_PREFIX.length).split("/").filter(Boolean).map(decodeURIComponent);
+    const result = await runAdminAction(audit.method, segments, readBody);
+    writeAdminAudit({ ...audit, status: result.status, request: body, result: result.body });
+    sendJson(res, result.status, result.body);
+  } catch (error) {
+    const status = Number.isInteger(error?.status) ? error.status : 500;
+    if (status === 500) {
+      console.warn("[admin] request failed.", error);
+    }
+    writeAdminAudit({ ...audit, status, request: body, error: error?.message ?? String(error) });
+    sendJson(res, status, { error: status === 500 ? "Admin action failed." : error.message });
+  }
+};
+
+// Picks the best public room for a pilot, or null while none is close enough in skill. Rooms cost more the
+// further their average rating is from the pilot's, when their region differs and the emptier they are.
+const findMatchmakingRoom = (skillRating, region, waitedMs) => {
+  const maxSkillGap =
+    waitedMs >= MATCHMAKING_FALLBACK_MS
+      ? Infinity
+      : MATCHMAKING_SKILL_GAP_MIN +
+        ((MATCHMAKING_SKILL_GAP_MAX - MATCHMAKING_SKILL_GAP_MIN) * waitedMs) / MATCHMAKING_FALLBACK_MS;
+  let bestRoom = null;
+  let bestCost = Infinity;
+  for (const room of activeWorldRooms) {
+    if (room.locked || room.rules.isPrivate || room.clients.length >= room.maxClients) {
+      continue;
+    }
+    const averageRating = room.getAverageSkillRating();
+    const skillGap = averageRating === null ? 0 : Math.abs(averageRating - skillRating);
+    if (skillGap > maxSkillGap) {
+      continue;
+    }
+    const regionMismatch = region && room.rules.region && room.rules.region !== region;
+    const cost =
+      skillGap / MATCHMAKING_SKILL_GAP_MAX +
+      (regionMismatch ? MATCHMAKING_REGION_MISMATCH_COST : 0) +
+      (1 - room.clients.length / room.maxClients) * MATCHMAKING_EMPTY_SEAT_COST;
+    if (cost < bestCost) {
+      bestRoom = room;
+      bestCost = cost;
+    }
+  }
+  return bestRoom;
+};
+
+// Called cross-origin by the game client in development, like the leaderboard API.
+const handleMatchmakingRequest = (req, res, url) => {
+  const headers = PUBLIC_API_CORS_HEADERS;
+  const playerId = verifyPlayerToken(readBearerToken(req));
+  const skillRating = persistentScores.playersById.get(playerId)?.skillRating ?? SKILL_RATING_DEFAULT;
+  const region = url.searchParams.get("region");
+  const waitedMs = toBoundedInteger(url.searchParams.get("waitedMs") ?? undefined, 0, 0, MATCHMAKING_FALLBACK_MS);
+  const room = findMatchmakingRoom(skillRating, isMatchmakingRegion(region) ? region : "", waitedMs);
+  if (room) {
+    sendJson(res, 200, { action: "join", roomCode: room.roomId }, headers);
+    return;
+  }
+  const hasOpenRoom = Array.from(activeWorldRooms).some(
+    (candidate) => !candidate.locked && !candidate.rules.isPrivate && candidate.clients.length < candidate.maxClients,
+  );
+  sendJson(
+    res,
+    200,
+    hasOpenRoom ? { action: "wait", retryAfterMs: MATCHMAKING_RETRY_MS } : { action: "create" },
+    headers,
+  );
+};
+
+// Public and read-only, so any site may embed it. A player token may be sent as `Authorization: Bearer <token>` for
+// a rank lookup; IDs are never returned.
+const handleLeaderboardRequest = (req, res, url) => {
+  const headers = PUBLIC_API_CORS_HEADERS;
+  const window = url.searchParams.get("window") ?? "alltime";
+  if (!isLeaderboardWindow(window)) {
+    sendJson(res, 400, { error: `window must be one of ${LEADERBOARD_WINDOWS.join(", ")}.` }, headers);
+    return;
+  }
+  const pageSize = toBoundedInteger(
+    url.searchParams.get("pageSize") ?? undefined,
+    LEADERBOARD_PAGE_SIZE_DEFAULT,
+    1,
+    LEADERBOARD_PAGE_SIZE_MAX,
+  );
+  const page = toBoundedInteger(url.searchParams.get("page") ?? undefined, 1, 1, Number.MAX_SAFE_INTEGER);
+  const ranking = getLeaderboardRanking(window, Date.now());
+  const offset = (page - 1) * pageSize;
+  const playerId = verifyPlayerToken(readBearerToken(req));
+  const record = playerId ? persistentScores.playersById.get(playerId) : null;
+
+  sendJson(
+    res,
+    200,
+    {
+      window,
+      period: ranking.period,
+      total: ranking.entries.length,
+      page,
+      pageSize,
+      entries: ranking.entries.slice(offset, offset + pageSize).map((entry, index) => ({
+        rank: offset + index + 1,
+        nickname: entry.record.nickname,
+        score: entry.score,
+        updatedAtMs: entry.record.updatedAtMs,
+      })),
+      player: record
+        ? {
+            rank: ranking.rankByPlayerId.get(playerId) ?? null,
+            score: getWindowOrbScore(record, window, ranking.period),
+          }
+        : null,
+    },
+    headers,
+  );
+};
+
 const httpServer = createServer(async (req, res) => {
   if (req.url) {
     const url = new URL(req.url, "http://localhost");
+    if (url.pathname.startsWith(ADMIN_ROUTE_PREFIX)) {
+      await handleAdminRequest(req, res, url);
+      return;
+    }
+    if (url.pathname === LEADERBOARD_API_ROUTE && req.method === "GET") {
+      handleLeaderboardRequest(req, res, url);
+      return;
+    }
+    if (url.pathname === MATCHMAKING_API_ROUTE && req.method === "GET") {
+      handleMatchmakingRequest(req, res, url);
+      return;
+    }
+    // The Authorization header makes browsers preflight cross-origin calls to the public API.
+    const isPublicApiRoute = url.pathname === LEADERBOARD_API_ROUTE || url.pathname === MATCHMAKING_API_ROUTE;
+    if (isPublicApiRoute && req.method === "OPTIONS") {
+      res.writeHead(204, {
+        ...PUBLIC_API_CORS_HEADERS,
+        "Access-Control-Allow-Methods": "GET",
+        "Access-Control-Allow-Headers": "Authorization",
+        "Access-Control-Max-Age": "600",
+      });
+      res.end();
+      return;
+    }
+    if (url.pathname === HEALTH_ROUTE) {
+      let clients = 0;
+      for (const room of activeWorldRooms) {
+        clients += room.clients.length;
+      }
+      res.writeHead(200, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" });
+      res.end(
+        JSON.stringify({
+          status: "ok",
+          uptimeSeconds: Math.round((Date.now() - serverMetrics.startedAtMs) / 1000),
+          rooms: activeWorldRooms.size,
+          clients,
+        }),
+      );
+      return;
+    }
+    if (url.pathname === METRICS_ROUTE) {
+      if (METRICS_TOKEN && !isBearerAuthorized(req, METRICS_TOKEN)) {
+        res.writeHead(401, { "Content-Type": "text/plain; charset=utf-8", "WWW-Authenticate": "Bearer" });
+        res.end("Unauthorized.");
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8", "Cache-Control": "no-store" });
+      res.end(renderMetrics());
+      return;
+    }
+    if (PERF_STATS_ENABLED && url.pathname === PERF_STATS_ROUTE) {
+      res.writeHead(200, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" });
+      res.end(JSON.stringify(takePerfSnapshot()));
+      return;
+    }
     if (url.pathname.startsWith(STARTUP_ICON_ROUTE_PREFIX)) {
       const startupId = decodeURIComponent(url.pathname.slice(STARTUP_ICON_ROUTE_PREFIX.length));
       if (!startupId) {
@@ -1993,9 +4904,11 @@ const httpServer = createServer(async (req, res) => {
 
       try {
         if (hasCachedStartupIcon(startup.localIconPath)) {
+          serverMetrics.iconCacheHits += 1;
           serveStaticFile(res, getStartupIconDiskPath(startup.localIconPath));
           return;
         }
+        serverMetrics.iconCacheMisses += 1;
 
         const asset = await getOrFetchStartupIconAsset(startup);
         if (!asset) {
@@ -2018,6 +4931,8 @@ const httpServer = createServer(async (req, res) => {
 });
 const gameServer = new Server({ server: httpServer });
 gameServer.define(WORLD_NAME, WorldRoom);
+// Rooms are disposed before this runs, so their last score updates are already queued.
+gameServer.onShutdown(() => flushPlayerStore());
 
 httpServer.listen(PORT, () => {
   console.log(`[multiplayer] Colyseus server listening on ws://localhost:${PORT}`);
@@ -0,0 +1,530 @@
+// Headless load test: connects simulated pilots to a server and samples how it copes.
+//
+//   npm run loadtest -- --clients 48 --per-room 16 --duration 120 --out reports/loadtest.json
+//
+// Each pilot flies the shared glide model: it circles in thermals, chases the orb when one is up and
+// crashes now and then. Every sample window records patch sizes, downstream bandwidth and ping latency
+// measured on the clients, plus tick duration, CPU and memory from the server's `/debug/perf` route
+// (served when the server runs with PERF_STATS=on; `--spawn` starts a local server that way).
+import { spawn } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client, Protocol } from "colyseus.js";
+import {
+  GAME_SPEED,
+  TERRAIN_WATER_LEVEL,
+  YAW_RATE,
+  createWorldTerrain,
+  getGliderAirspeed,
+  getGliderSinkRate,
+  getThermalClimbRate,
+  getThermalTopY,
+  normalizeWorldTerrainParams,
+} from "../shared/world/index.ts";
+import { decodeInterestPose, encodePosePacket, POSE_SEQ_MODULO } from "../shared/net/index.ts";
+
+const SERVER_ENTRY = path.join(path.dirname(fileURLToPath(import.meta.url)), "index.mjs");
+const ROOM_NAME = "world";
+const STEP_MS = 50;
+const DECISION_INTERVAL_MS = 1000;
+const SPAWN_GROUND_OFFSET = 12;
+const SPAWN_MIN_Y = 18;
+const WORLD_RADIUS = 198;
+const THERMAL_CIRCLE_BANK = 0.6;
+const THERMAL_CLIMB_MARGIN = 4;
+const RESPAWN_DELAY_MS = 1500;
+const SERVER_START_TIMEOUT_MS = 20000;
+
+const DEFAULT_OPTIONS = {
+  url: "ws://localhost:2567",
+  clients: 16,
+  perRoom: 16,
+  duration: 60,
+  rampMs: 150,
+  sample: 5,
+  crashPerMin: 0.5,
+  chasers: 0.5,
+  out: "",
+  spawn: false,
+};
+
+const USAGE = `Usage: npm run loadtest -- [options]
+
+  --url <ws-url>          server to load (default ${DEFAULT_OPTIONS.url})
+  --clients <n>           simulated pilots to connect (default ${DEFAULT_OPTIONS.clients})
+  --per-room <n>          pilots per room; extra rooms are created as needed (default ${DEFAULT_OPTIONS.perRoom})
+  --duration <s>          seconds to run after the last pilot joined (default ${DEFAULT_OPTIONS.duration})
+  --ramp-ms <ms>          delay between pilot connections (default ${DEFAULT_OPTIONS.rampMs})
+  --sample <s>            seconds per report sample (default ${DEFAULT_OPTIONS.sample})
+  --crash-per-min <n>     deliberate crashes per pilot per minute (default ${DEFAULT_OPTIONS.crashPerMin})
+  --chasers <0..1>        share of pilots that chase the orb instead of thermalling (default ${DEFAULT_OPTIONS.chasers})
+  --out <file.json|.csv>  write the report there as well as printing a summary
+  --spawn                 start a local server on the --url port with PERF_STATS=on and stop it afterwards`;
+
+const parseArgs = (argv) => {
+  const options = { ...DEFAULT_OPTIONS };
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--help" || arg === "-h") {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (arg === "--spawn") {
+      options.spawn = true;
+      continue;
+    }
+    const key = arg.replace(/^--/, "").replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
+    if (!arg.startsWith("--") || !(key in DEFAULT_OPTIONS) || index + 1 >= argv.length) {
+      throw new Error(`Unknown or incomplete option "${arg}".\n\n${USAGE}`);
+    }
+    const value = argv[(index += 1)];
+    if (typeof DEFAULT_OPTIONS[key] === "number") {
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < 0) {
+        throw new Error(`Option "${arg}" needs a non-negative number.`);
+      }
+      options[key] = number;
+    } else {
+      options[key] = value;
+    }
+  }
+  options.clients = Math.max(1, Math.floor(options.clients));
+  options.perRoom = Math.max(1, Math.floor(options.perRoom));
+  options.chasers = Math.min(1, options.chasers);
+  return options;
+};
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const wrapAngle = (angle) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+const percentile = (sorted, ratio) => (sorted.length > 0 ? sorted[Math.floor((sorted.length - 1) * ratio)] : 0);
+
+const average = (values) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+const round = (value, digits = 2) => Number(value.toFixed(digits));
+
+const toHttpUrl = (wsUrl) => wsUrl.replace(/^ws/, "http");
+
+const startLocalServer = async (wsUrl) => {
+  const port = new URL(wsUrl).port || "2567";
+  const child = spawn(process.execPath, ["--import", "tsx", SERVER_ENTRY], {
+    env: { ...process.env, PORT: port, PERF_STATS: "on", REPLAY_RECORDING: process.env.REPLAY_RECORDING ?? "off" },
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+  await new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Server did not start in time.")), SERVER_START_TIMEOUT_MS);
+    child.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited early with code ${code}.`));
+    });
+    child.stdout.on("data", (chunk) => {
+      if (String(chunk).includes("listening")) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+  });
+  child.removeAllListeners("exit");
+  return child;
+};
+
+const fetchServerPerf = async (wsUrl) => {
+  try {
+    const response = await fetch(`${toHttpUrl(wsUrl)}/debug/perf`);
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+};
+
+const createWindow = () => ({
+  patchSizes: [],
+  messageBytes: 0,
+  latenciesMs: [],
+  posesSent: 0,
+  crashes: 0,
+  errors: 0,
+});
+
+const terrainCache = new Map();
+
+const getRoomTerrain = (state) => {
+  const params = normalizeWorldTerrainParams(state?.terrain ?? {});
+  const key = JSON.stringify(params);
+  let terrain = terrainCache.get(key);
+  if (!terrain) {
+    terrain = createWorldTerrain(params);
+    terrainCache.set(key, terrain);
+  }
+  return terrain;
+};
+
+const floorAt = (terrain, x, z) => Math.max(terrain.heightAt(x, z), TERRAIN_WATER_LEVEL - 0.25);
+
+const placeOnSpawnRing = (pilot, terrain) => {
+  const angle = Math.random() * Math.PI * 2;
+  pilot.x = Math.cos(angle) * terrain.spawnRingRadius;
+  pilot.z = Math.sin(angle) * terrain.spawnRingRadius;
+  pilot.y = Math.max(terrain.heightAt(pilot.x, pilot.z) + SPAWN_GROUND_OFFSET, SPAWN_MIN_Y);
+  pilot.yaw = Math.atan2(pilot.x, pilot.z);
+  pilot.bank = 0;
+};
+
+// Picks where to fly next: the orb (or away from chasers while holding it) for chasers,
+// otherwise the nearest thermal that still has room to climb, otherwise back toward the middle.
+const decideGoal = (pilot, state, nowSeconds) => {
+  const orb = state.orb;
+  if (pilot.chaser && state.orbActive && orb) {
+    if (orb.holderSessionId === pilot.room.sessionId) {
+      return { kind: "wander", x: -pilot.x, z: -pilot.z };
+    }
+    const holder = orb.holderSessionId ? pilot.remotePoses.get(orb.holderSessionId) : null;
+    return { kind: "chase", x: holder?.x ?? orb.x, z: holder?.z ?? orb.z };
+  }
+  let best = null;
+  let bestDistance = Infinity;
+  for (const thermal of state.thermals ?? []) {
+    if (nowSeconds < thermal.activationAt || pilot.y >= getThermalTopY(thermal) - THERMAL_CLIMB_MARGIN) {
+      continue;
+    }
+    const distance = Math.hypot(thermal.x - pilot.x, thermal.z - pilot.z);
+    if (distance < bestDistance) {
+      best = thermal;
+      bestDistance = distance;
+    }
+  }
+  if (best) {
+    return { kind: "thermal", x: best.x, z: best.z, radius: best.radius };
+  }
+  return { kind: "wander", x: (Math.random() - 0.5) * 60, z: (Math.random() - 0.5) * 60 };
+};
+
+const stepPilot = (pilot, deltaSeconds, now) => {
+  const state = pilot.room.state;
+  const scaledDelta = deltaSeconds * GAME_SPEED;
+  if (!pilot.goal || now >= pilot.nextDecisionAtMs) {
+    pilot.goal = decideGoal(pilot, state, now * 0.001);
+    pilot.nextDecisionAtMs = now + DECISION_INTERVAL_MS;
+  }
+
+  const goal = pilot.goal;
+  const distanceToGoal = Math.hypot(goal.x - pilot.x, goal.z - pilot.z);
+  let yawDelta;
+  if (goal.kind === "thermal" && distanceToGoal < goal.radius * 0.6) {
+    yawDelta = YAW_RATE * THERMAL_CIRCLE_BANK * scaledDelta;
+  } else {
+    const desiredYaw = Math.atan2(pilot.x - goal.x, pilot.z - goal.z);
+    const maxTurn = YAW_RATE * scaledDelta;
+    yawDelta = Math.max(-maxTurn, Math.min(maxTurn, wrapAngle(desiredYaw - pilot.yaw)));
+  }
+  pilot.yaw = wrapAngle(pilot.yaw + yawDelta);
+  pilot.bank += (-Math.sign(yawDelta) * Math.min(1, Math.abs(yawDelta) * 20) - pilot.bank) * 0.2;
+  pilot.speedbar = goal.kind === "chase" && distanceToGoal > 20;
+
+  const airspeed = getGliderAirspeed(pilot.speedbar);
+  const sinkRate = getGliderSinkRate(pilot.speedbar, Math.hypot(pilot.x, pilot.z), pilot.terrain.islandRadius, WORLD_RADIUS);
+  const climbRate = getThermalClimbRate(state.thermals ?? [], pilot.x, pilot.y, pilot.z, now * 0.001);
+  pilot.x -= Math.sin(pilot.yaw) * airspeed * scaledDelta;
+  pilot.z -= Math.cos(pilot.yaw) * airspeed * scaledDelta;
+  pilot.y += (climbRate - sinkRate) * scaledDelta;
+  return pilot.y <= floorAt(pilot.terrain, pilot.x, pilot.z);
+};
+
+const crashPilot = (pilot, now, window) => {
+  pilot.room.send("crash");
+  pilot.respawnAtMs = now + RESPAWN_DELAY_MS;
+  window.crashes += 1;
+};
+
+const tickPilot = (pilot, deltaSeconds, now, options, window) => {
+  if (!pilot.terrain) {
+    return;
+  }
+  if (pilot.respawnAtMs !== null) {
+    if (now < pilot.respawnAtMs) {
+      return;
+    }
+    placeOnSpawnRing(pilot, pilot.terrain);
+    pilot.goal = null;
+    pilot.respawnAtMs = null;
+    pilot.room.send("respawn");
+  } else if (stepPilot(pilot, deltaSeconds, now)) {
+    crashPilot(pilot, now, window);
+    return;
+  } else if (Math.random() < (options.crashPerMin / 60000) * STEP_MS) {
+    crashPilot(pilot, now, window);
+    return;
+  }
+
+  pilot.room.sendBytes(
+    "pose",
+    encodePosePacket({
+      seq: pilot.seq,
+      clientTimeMs: now,
+      x: pilot.x,
+      y: pilot.y,
+      z: pilot.z,
+      yaw: pilot.yaw,
+      bank: pilot.bank,
+      speedbar: pilot.speedbar,
+      viewDelayMs: 190,
+    }).buffer,
+  );
+  pilot.seq = (pilot.seq + 1) % POSE_SEQ_MODULO;
+  window.posesSent += 1;
+};
+
+const connectPilot = async (client, index, options, roomIds, metrics) => {
+  const roomSlot = Math.floor(index / options.perRoom);
+  // No playerId, so simulated pilots never land in the persistent scoreboard.
+  const identity = { nickname: `Load-${index}` };
+  let room;
+  if (roomIds[roomSlot]) {
+    room = await client.joinById(roomIds[roomSlot], identity);
+  } else {
+    room = await client.create(ROOM_NAME, {
+      ...identity,
+      roomName: `Load test ${roomSlot + 1}`,
+      private: true,
+      bots: false,
+      maxPlayers: Math.min(64, Math.max(2, options.perRoom)),
+    });
+    roomIds[roomSlot] = room.roomId;
+  }
+
+  const pilot = {
+    room,
+    left: false,
+    chaser: Math.random() < options.chasers,
+    terrain: null,
+    remotePoses: new Map(),
+    goal: null,
+    nextDecisionAtMs: 0,
+    respawnAtMs: null,
+    seq: 0,
+    x: 0,
+    y: 0,
+    z: 0,
+    yaw: 0,
+    bank: 0,
+    speedbar: false,
+  };
+
+  // Measure what actually arrives on the socket: schema patches versus room messages.
+  room.connection.transport.ws.addEventListener("message", (event) => {
+    const bytes = event.data instanceof ArrayBuffer ? new Uint8Array(event.data) : null;
+    if (!bytes) {
+      return;
+    }
+    if (bytes[0] === Protocol.ROOM_STATE_PATCH) {
+      metrics.window.patchSizes.push(bytes.byteLength);
+    } else {
+      metrics.window.messageBytes += bytes.byteLength;
+    }
+  });
+  room.onStateChange((state) => {
+    if (!pilot.terrain && state?.terrain?.seed) {
+      pilot.terrain = getRoomTerrain(state);
+      placeOnSpawnRing(pilot, pilot.terrain);
+    }
+  });
+  room.onMessage("ping", (sentAtMs) => {
+    // Same-host runs share a clock, so this is the one-way server-to-client delay.
+    metrics.window.latenciesMs.push(Date.now() - sentAtMs);
+    room.send("pong", sentAtMs);
+  });
+  room.onMessage("poses", (message) => {
+    for (const entry of message?.poses ?? []) {
+      const pose = decodeInterestPose(entry);
+      if (pose) {
+        pilot.remotePoses.set(pose.sessionId, pose);
+      }
+    }
+  });
+  room.onMessage("*", () => {});
+  room.onError((code, message) => {
+    metrics.window.errors += 1;
+    console.warn(`[loadtest] pilot ${index} error ${code}: ${message}`);
+  });
+  room.onLeave((code) => {
+    pilot.left = true;
+    if (code !== 1000 && code !== 4000) {
+      metrics.window.errors += 1;
+    }
+  });
+  return pilot;
+};
+
+const summarizeWindow = (window, elapsedSeconds, windowSeconds, pilots, serverPerf, previousServerPerf, selfCpu) => {
+  const patchSizes = [...window.patchSizes].sort((a, b) => a - b);
+  const latencies = [...window.latenciesMs].sort((a, b) => a - b);
+  const connected = pilots.filter((pilot) => !pilot.left).length;
+  const patchBytes = patchSizes.reduce((sum, value) => sum + value, 0);
+  const downBytesPerClientPerSec = connected > 0 ? (patchBytes + window.messageBytes) / connected / windowSeconds : 0;
+  const memory = process.memoryUsage();
+  const row = {
+    tSec: round(elapsedSeconds, 1),
+    clients: connected,
+    rooms: new Set(pilots.map((pilot) => pilot.room.roomId)).size,
+    patchesPerSec: round(patchSizes.length / windowSeconds, 1),
+    patchAvgBytes: round(average(patchSizes), 1),
+    patchP95Bytes: percentile(patchSizes, 0.95),
+    patchMaxBytes: patchSizes[patchSizes.length - 1] ?? 0,
+    downKBpsPerClient: round(downBytesPerClientPerSec / 1024),
+    posesSentPerSec: round(window.posesSent / windowSeconds, 1),
+    latencyAvgMs: round(average(latencies), 1),
+    latencyP95Ms: percentile(latencies, 0.95),
+    latencyMaxMs: latencies[latencies.length - 1] ?? 0,
+    crashes: window.crashes,
+    errors: window.errors,
+    serverTickAvgMs: null,
+    serverTickP95Ms: null,
+    serverTickMaxMs: null,
+    serverCpuPct: null,
+    serverRssMb: null,
+    serverHeapMb: null,
+    loadCpuPct: round((selfCpu.deltaMicros / 1000 / (windowSeconds * 1000)) * 100, 1),
+    loadRssMb: round(memory.rss / 1048576, 1),
+  };
+  if (serverPerf) {
+    row.serverTickAvgMs = round(serverPerf.tickAvgMs, 3);
+    row.serverTickP95Ms = round(serverPerf.tickP95Ms, 3);
+    row.serverTickMaxMs = round(serverPerf.tickMaxMs, 3);
+    row.serverRssMb = round(serverPerf.rssBytes / 1048576, 1);
+    row.serverHeapMb = round(serverPerf.heapUsedBytes / 1048576, 1);
+    if (previousServerPerf) {
+      const cpuMicros =
+        serverPerf.cpuMicros.user +
+        serverPerf.cpuMicros.system -
+        previousServerPerf.cpuMicros.user -
+        previousServerPerf.cpuMicros.system;
+      row.serverCpuPct = round((cpuMicros / 1000 / Math.max(serverPerf.atMs - previousServerPerf.atMs, 1)) * 100, 1);
+    }
+  }
+  return row;
+};
+
+const summarizeRun = (samples) => {
+  const numeric = (key) => samples.map((sample) => sample[key]).filter((value) => typeof value === "number");
+  const max = (key) => (numeric(key).length > 0 ? Math.max(...numeric(key)) : null);
+  const mean = (key) => (numeric(key).length > 0 ? round(average(numeric(key))) : null);
+  return {
+    peakClients: max("clients"),
+    patchAvgBytes: mean("patchAvgBytes"),
+    patchMaxBytes: max("patchMaxBytes"),
+    downKBpsPerClient: mean("downKBpsPerClient"),
+    latencyAvgMs: mean("latencyAvgMs"),
+    latencyMaxMs: max("latencyMaxMs"),
+    serverTickAvgMs: mean("serverTickAvgMs"),
+    serverTickMaxMs: max("serverTickMaxMs"),
+    serverCpuPctAvg: mean("serverCpuPct"),
+    serverRssMbMax: max("serverRssMb"),
+    errors: samples.reduce((sum, sample) => sum + sample.errors, 0),
+  };
+};
+
+const toCsv = (samples) => {
+  if (samples.length === 0) {
+    return "";
+  }
+  const columns = Object.keys(samples[0]);
+  const lines = samples.map((sample) => columns.map((column) => sample[column] ?? "").join(","));
+  return `${columns.join(",")}\n${lines.join("\n")}\n`;
+};
+
+const writeReport = (file, report) => {
+  mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  const body = file.endsWith(".csv") ? toCsv(report.samples) : `${JSON.stringify(report, null, 2)}\n`;
+  writeFileSync(file, body);
+  console.log(`[loadtest] report written to ${file}`);
+};
+
+const run = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const serverProcess = options.spawn ? await startLocalServer(options.url) : null;
+  const client = new Client(options.url);
+  const pilots = [];
+  const roomIds = [];
+  const metrics = { window: createWindow() };
+  const samples = [];
+  const startedAtMs = Date.now();
+  let previousServerPerf = await fetchServerPerf(options.url);
+  if (!previousServerPerf) {
+    console.warn("[loadtest] server has no /debug/perf (start it with PERF_STATS=on); reporting client-side figures only.");
+  }
+
+  let lastStepAtMs = Date.now();
+  const stepTimer = setInterval(() => {
+    const now = Date.now();
+    const deltaSeconds = Math.min((now - lastStepAtMs) / 1000, 0.25);
+    lastStepAtMs = now;
+    for (const pilot of pilots) {
+      if (!pilot.left) {
+        tickPilot(pilot, deltaSeconds, now, options, metrics.window);
+      }
+    }
+  }, STEP_MS);
+
+  let windowStartedAtMs = Date.now();
+  let previousSelfCpu = process.cpuUsage();
+  const sampleTimer = setInterval(async () => {
+    const window = metrics.window;
+    metrics.window = createWindow();
+    const now = Date.now();
+    const windowSeconds = Math.max((now - windowStartedAtMs) / 1000, 0.001);
+    windowStartedAtMs = now;
+    const selfCpu = process.cpuUsage(previousSelfCpu);
+    previousSelfCpu = process.cpuUsage();
+    const serverPerf = await fetchServerPerf(options.url);
+    const row = summarizeWindow(window, (now - startedAtMs) / 1000, windowSeconds, pilots, serverPerf, previousServerPerf, {
+      deltaMicros: selfCpu.user + selfCpu.system,
+    });
+    previousServerPerf = serverPerf ?? previousServerPerf;
+    samples.push(row);
+    console.log(
+      `[loadtest] t=${row.tSec}s clients=${row.clients} rooms=${row.rooms} patch=${row.patchAvgBytes}B ` +
+        `down=${row.downKBpsPerClient}KB/s latency=${row.latencyAvgMs}ms tick=${row.serverTickAvgMs ?? "?"}ms ` +
+        `cpu=${row.serverCpuPct ?? "?"}% rss=${row.serverRssMb ?? "?"}MB`,
+    );
+  }, options.sample * 1000);
+
+  try {
+    for (let index = 0; index < options.clients; index += 1) {
+      try {
+        pilots.push(await connectPilot(client, index, options, roomIds, metrics));
+      } catch (error) {
+        metrics.window.errors += 1;
+        console.warn(`[loadtest] pilot ${index} could not join.`, error?.message ?? error);
+      }
+      await wait(options.rampMs);
+    }
+    console.log(`[loadtest] ${pilots.length}/${options.clients} pilots connected across ${roomIds.length} rooms.`);
+    await wait(options.duration * 1000);
+  } finally {
+    clearInterval(stepTimer);
+    clearInterval(sampleTimer);
+    await Promise.all(pilots.filter((pilot) => !pilot.left).map((pilot) => pilot.room.leave().catch(() => {})));
+    serverProcess?.kill("SIGTERM");
+  }
+
+  const report = {
+    startedAt: new Date(startedAtMs).toISOString(),
+    options,
+    summary: summarizeRun(samples),
+    samples,
+  };
+  console.log("[loadtest] summary", report.summary);
+  if (options.out) {
+    writeReport(options.out, report);
+  }
+};
+
+run().then(
+  () => process.exit(0),
+  (error) => {
+    console.error("[loadtest] failed.", error?.message ?? error);
+    process.exit(1);
+  },
+);
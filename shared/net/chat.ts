@@ -0,0 +1,46 @@
+// Room text chat. Clients send `chat` with either free text or a quick-chat preset id; the server
+// trims, rate-limits and filters it, then broadcasts a `chat` message to everyone in the room.
+
+export const CHAT_MESSAGE_MAX_LENGTH = 120
+
+export interface ChatQuickPreset {
+  id: string
+  text: string
+}
+
+// Preset ids are resolved on the server, so these lines never pass through the word filter.
+export const CHAT_QUICK_PRESETS: readonly ChatQuickPreset[] = [
+  { id: 'thermal', text: 'Thermal here!' },
+  { id: 'nice-steal', text: 'Nice steal' },
+  { id: 'follow', text: 'Follow me' },
+  { id: 'gg', text: 'GG' },
+]
+
+export type ChatSendMessage = { text: string } | { preset: string }
+
+export interface ChatMessage {
+  id: string
+  sessionId: string
+  // The sender's public player key, which stays the same when they rejoin.
+  playerKey: string
+  nickname: string
+  text: string
+  sentAtMs: number
+}
+
+// Sent only to the sender when a line is dropped for going over the rate limit.
+export interface ChatRateLimitedMessage {
+  retryAfterMs: number
+}
+
+export const findChatQuickPreset = (id: unknown) =>
+  CHAT_QUICK_PRESETS.find((preset) => preset.id === id) ?? null
+
+// Collapses whitespace and control characters and cuts the line to CHAT_MESSAGE_MAX_LENGTH.
+export const normalizeChatText = (value: unknown) =>
+  typeof value === 'string'
+    ? value
+        .replace(/[\p{Cc}\s]+/gu, ' ')
+        .trim()
+        .slice(0, CHAT_MESSAGE_MAX_LENGTH)
+    : ''
@@ -0,0 +1,33 @@
+// Optional handicaps for the orb holder, switched on per room so a pilot who takes the orb and circles the strongest
+// thermal has to work for their points. Every one is off by default.
+//
+// - `orbHolderSinkRate`: extra sink in m/s (per unscaled second, like the glide model) while holding
+// - `orbHolderSlowdownPct`: airspeed lost while holding
+// - `orbHolderTrail`: a trail behind the holder, visible from across the island
+// - `orbStealBonusPct`: extra points per second for whoever steals the orb, scaled by how hard the steal was
+// - `orbMaxHoldMs`: the orb drops once it has been held this long; 0 for no limit
+
+export const ORB_HOLDER_SINK_RATE_MAX = 1.5
+export const ORB_HOLDER_SLOWDOWN_PCT_MAX = 40
+export const ORB_STEAL_BONUS_PCT_MAX = 200
+export const ORB_MAX_HOLD_MS_MIN = 10000
+export const ORB_MAX_HOLD_MS_MAX = 120000
+// A steal counts as fully difficult once the pilot it was taken from had kept the orb this long.
+export const ORB_STEAL_BONUS_FULL_HOLD_MS = 30000
+
+// How the holder flies while they have the orb.
+export interface OrbHolderHandicap {
+  // Added to the glider's sink, in m/s.
+  sinkRate: number
+  // Multiplies the glider's airspeed.
+  airspeedScale: number
+}
+
+// Points per second for a hold that began with a steal from a pilot who had held the orb for `victimHoldMs`,
+// rounded to a tenth so the HUD can show it as is. Pickups score 1.
+export const getStealScoreMultiplier = (stealBonusPct: number, victimHoldMs: number) => {
+  const difficulty = Math.min(1, Math.max(0, victimHoldMs) / ORB_STEAL_BONUS_FULL_HOLD_MS)
+  return Math.round((1 + (Math.max(0, stealBonusPct) / 100) * difficulty) * 10) / 10
+}
+
+export const getHolderAirspeedScale = (slowdownPct: number) => 1 - Math.min(Math.max(slowdownPct, 0), 100) / 100
@@ -0,0 +1,11 @@
+export * from './chat'
+export * from './handicaps'
+export * from './interest'
+export * from './leaderboard'
+export * from './match'
+export * from './matchmaking'
+export * from './modes'
+export * from './orb'
+export * from './pose'
+export * from './profile'
+export * from './teams'
@@ -0,0 +1,92 @@
+// Per-client pose stream. Player positions are not part of the synced room state; every tick the server
+// sends each client a `poses` message with only the pilots relevant to it, graded by distance.
+
+export interface InterestTier {
+  // Distance from the viewing pilot, in metres, up to which this tier applies.
+  maxDistance: number
+  // A pilot in this tier is re-sent at most once every `everyTicks` server ticks.
+  everyTicks: number
+  positionPrecision: number
+  anglePrecision: number
+}
+
+export const INTEREST_TIERS: readonly InterestTier[] = [
+  { maxDistance: 60, everyTicks: 1, positionPrecision: 100, anglePrecision: 1000 },
+  { maxDistance: 140, everyTicks: 2, positionPrecision: 10, anglePrecision: 200 },
+  { maxDistance: 240, everyTicks: 3, positionPrecision: 2, anglePrecision: 50 },
+]
+
+// Pilots already in view stay there until they are this much further out than the last tier,
+// so someone hovering at the boundary does not flicker in and out.
+export const INTEREST_LEAVE_HYSTERESIS = 12
+
+// [sessionId, tier, x, y, z, yaw, bank, speedbar (0 | 1)], numbers scaled by the tier precisions.
+export type InterestPose = [string, number, number, number, number, number, number, number]
+
+export interface InterestPoseMessage {
+  t: number
+  poses: InterestPose[]
+  // Pilots that left this client's relevant set since the previous message.
+  gone: string[]
+}
+
+export interface DecodedInterestPose {
+  sessionId: string
+  x: number
+  y: number
+  z: number
+  yaw: number
+  bank: number
+  speedbar: boolean
+}
+
+export const getInterestTierIndex = (distance: number) => {
+  for (let index = 0; index < INTEREST_TIERS.length; index += 1) {
+    if (distance <= INTEREST_TIERS[index].maxDistance) {
+      return index
+    }
+  }
+  return -1
+}
+
+export const encodeInterestPose = (
+  sessionId: string,
+  tierIndex: number,
+  pose: Omit<DecodedInterestPose, 'sessionId'>,
+): InterestPose => {
+  const tier = INTEREST_TIERS[tierIndex]
+  return [
+    sessionId,
+    tierIndex,
+    Math.round(pose.x * tier.positionPrecision),
+    Math.round(pose.y * tier.positionPrecision),
+    Math.round(pose.z * tier.positionPrecision),
+    Math.round(pose.yaw * tier.anglePrecision),
+    Math.round(pose.bank * tier.anglePrecision),
+    pose.speedbar ? 1 : 0,
+  ]
+}
+
+export const decodeInterestPose = (entry: unknown): DecodedInterestPose | null => {
+  if (!Array.isArray(entry) || entry.length < 8 || typeof entry[0] !== 'string') {
+    return null
+  }
+  const tier = INTEREST_TIERS[entry[1] as number]
+  if (!tier) {
+    return null
+  }
+  const values = entry.slice(2, 7).map(Number)
+  if (!values.every(Number.isFinite)) {
+    return null
+  }
+  const [x, y, z, yaw, bank] = values
+  return {
+    sessionId: entry[0],
+    x: x / tier.positionPrecision,
+    y: y / tier.positionPrecision,
+    z: z / tier.positionPrecision,
+    yaw: yaw / tier.anglePrecision,
+    bank: bank / tier.anglePrecision,
+    speedbar: entry[7] === 1,
+  }
+}
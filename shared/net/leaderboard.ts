@@ -0,0 +1,53 @@
+// Time-windowed leaderboards. Daily and weekly windows roll over at UTC midnight (weeks start on Monday,
+// ISO numbering); a pilot's score in a window is their best orb run since it started.
+
+export const LEADERBOARD_WINDOWS = ['daily', 'weekly', 'alltime'] as const
+
+export type LeaderboardWindow = (typeof LEADERBOARD_WINDOWS)[number]
+
+export const LEADERBOARD_PAGE_SIZE_DEFAULT = 25
+export const LEADERBOARD_PAGE_SIZE_MAX = 100
+
+export interface LeaderboardPageEntry {
+  rank: number
+  nickname: string
+  score: number
+  updatedAtMs: number
+}
+
+// `GET /api/leaderboard?window=&page=&pageSize=` response. The player's identity token, if any, goes in an
+// `Authorization: Bearer` header.
+export interface LeaderboardPage {
+  window: LeaderboardWindow
+  period: string
+  total: number
+  page: number
+  pageSize: number
+  entries: LeaderboardPageEntry[]
+  // Present when a valid player token was sent; rank is null while the pilot has no score in the window.
+  player: { rank: number | null; score: number } | null
+}
+
+export const isLeaderboardWindow = (value: unknown): value is LeaderboardWindow =>
+  LEADERBOARD_WINDOWS.includes(value as LeaderboardWindow)
+
+const toIsoWeekKey = (date: Date) => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  // The ISO week belongs to the year that contains its Thursday.
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7))
+  const yearStartMs = Date.UTC(day.getUTCFullYear(), 0, 1)
+  const week = Math.ceil(((day.getTime() - yearStartMs) / 86400000 + 1) / 7)
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`
+}
+
+// Identifies the window's current period, e.g. `2026-10-19` or `2026-W43`; scores from other periods do not count.
+export const getLeaderboardPeriod = (window: LeaderboardWindow, nowMs: number) => {
+  const date = new Date(nowMs)
+  if (window === 'daily') {
+    return date.toISOString().slice(0, 10)
+  }
+  if (window === 'weekly') {
+    return toIsoWeekKey(date)
+  }
+  return 'all'
+}
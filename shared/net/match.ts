@@ -0,0 +1,25 @@
+// Orb matches run in timed rounds: `warmup` (waiting for enough pilots, then a short free-flight period),
+// `countdown`, `live` and `results`, after which the next round warms up on its own.
+
+export const MATCH_PHASES = ['warmup', 'countdown', 'live', 'results'] as const
+
+export type MatchPhase = (typeof MATCH_PHASES)[number]
+
+export const ROUND_MINUTES_MIN = 1
+export const ROUND_MINUTES_MAX = 15
+export const ROUND_MINUTES_DEFAULT = 5
+
+// One pilot's line on the results screen, ordered by holding time (by time survived in storm rooms).
+export interface RoundResult {
+  sessionId: string
+  nickname: string
+  team: number
+  isBot: boolean
+  holdMs: number
+  steals: number
+  pickups: number
+  // Storm rooms only: how long the pilot stayed in the air after the round went live.
+  survivedMs: number
+}
+
+export const isMatchPhase = (value: unknown): value is MatchPhase => MATCH_PHASES.includes(value as MatchPhase)
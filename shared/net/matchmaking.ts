@@ -0,0 +1,47 @@
+// Quick play asks `GET /api/quickplay?region=&waitedMs=`, with the identity token as an `Authorization: Bearer`
+// header, where to go instead of joining the first room with space. Rooms are matched on average skill rating, fill and region; the allowed skill gap widens
+// with `waitedMs`, and after MATCHMAKING_FALLBACK_MS any open room will do.
+
+export const MATCHMAKING_REGIONS = ['eu', 'na', 'sa', 'asia', 'oceania', 'africa'] as const
+
+export type MatchmakingRegion = (typeof MATCHMAKING_REGIONS)[number]
+
+export const MATCHMAKING_FALLBACK_MS = 6000
+
+export type MatchmakingResponse =
+  | { action: 'join'; roomCode: string }
+  // No room is open at all, so the pilot should start one.
+  | { action: 'create' }
+  // Open rooms exist but none is close enough in skill yet; ask again after `retryAfterMs`.
+  | { action: 'wait'; retryAfterMs: number }
+
+export const isMatchmakingRegion = (value: unknown): value is MatchmakingRegion =>
+  MATCHMAKING_REGIONS.includes(value as MatchmakingRegion)
+
+const SOUTH_AMERICA_TIME_ZONES =
+  /^America\/(Argentina|Asuncion|Bogota|Caracas|Cayenne|Guayaquil|La_Paz|Lima|Montevideo|Paramaribo|Santiago|Sao_Paulo|Recife|Fortaleza|Belem|Manaus)/
+
+// A coarse region from an IANA time zone such as `Europe/Paris`; good enough to keep pings sane.
+export const guessMatchmakingRegion = (timeZone: string): MatchmakingRegion | null => {
+  if (SOUTH_AMERICA_TIME_ZONES.test(timeZone)) {
+    return 'sa'
+  }
+  const area = timeZone.split('/')[0]
+  switch (area) {
+    case 'Europe':
+      return 'eu'
+    case 'America':
+    case 'US':
+    case 'Canada':
+      return 'na'
+    case 'Asia':
+      return 'asia'
+    case 'Australia':
+    case 'Pacific':
+      return 'oceania'
+    case 'Africa':
+      return 'africa'
+    default:
+      return null
+  }
+}
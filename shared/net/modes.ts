@@ -0,0 +1,9 @@
+// Room game modes: `ffa` is free-for-all orb tag, `teams` splits pilots into teams that score together,
+// `task` replaces the orb with a cross-country task through turnpoint cylinders, and `storm` is last pilot flying
+// inside a shrinking storm circle.
+
+export const GAME_MODES = ['ffa', 'teams', 'task', 'storm'] as const
+
+export type GameMode = (typeof GAME_MODES)[number]
+
+export const isGameMode = (value: unknown): value is GameMode => GAME_MODES.includes(value as GameMode)
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { ORB_DROP_RECATCH_COOLDOWN_MS, canCatchDroppedOrb } from './orb'
+
+describe('canCatchDroppedOrb', () => {
+  const drop = { sessionId: 'crashed', atMs: 10000 }
+
+  it('keeps the pilot who crashed from catching the orb they dropped', () => {
+    expect(canCatchDroppedOrb(drop, 'crashed', drop.atMs)).toBe(false)
+    expect(canCatchDroppedOrb(drop, 'crashed', drop.atMs + ORB_DROP_RECATCH_COOLDOWN_MS - 1)).toBe(false)
+  })
+
+  it('lets them catch it again once the cooldown is over', () => {
+    expect(canCatchDroppedOrb(drop, 'crashed', drop.atMs + ORB_DROP_RECATCH_COOLDOWN_MS)).toBe(true)
+  })
+
+  it('lets everyone else catch it right away', () => {
+    expect(canCatchDroppedOrb(drop, 'chaser', drop.atMs)).toBe(true)
+    expect(canCatchDroppedOrb(null, 'crashed', drop.atMs)).toBe(true)
+  })
+})
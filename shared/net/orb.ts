@@ -0,0 +1,12 @@
+// A pilot whose crash dropped the orb can't catch it straight back. Their last pose stays where they crashed until
+// their respawn pose arrives, which is right next to the orb as it starts to fall.
+export const ORB_DROP_RECATCH_COOLDOWN_MS = 5000
+
+// Who dropped the orb, and when.
+export interface OrbDrop {
+  sessionId: string
+  atMs: number
+}
+
+export const canCatchDroppedOrb = (drop: OrbDrop | null, sessionId: string, now: number) =>
+  !drop || drop.sessionId !== sessionId || now - drop.atMs >= ORB_DROP_RECATCH_COOLDOWN_MS
@@ -0,0 +1,108 @@
+// Binary `pose` upload. The client sends one of these fixed-size little-endian packets instead of an object;
+// the server still accepts the old `{ x, y, z, yaw, bank, speedbar, viewDelayMs }` object form.
+//
+//  0  u8   version
+//  1  u8   flags (bit 0: speedbar)
+//  2  u16  sequence number, wraps
+//  4  u32  client clock in ms, wraps
+//  8  i16  x * POSE_POSITION_PRECISION
+// 10  i16  y * POSE_POSITION_PRECISION
+// 12  i16  z * POSE_POSITION_PRECISION
+// 14  i16  yaw (wrapped to -PI..PI) * POSE_YAW_PRECISION
+// 16  i8   bank * POSE_BANK_PRECISION
+// 17  u16  view delay in ms
+
+export const POSE_PACKET_VERSION = 1
+export const POSE_PACKET_BYTES = 19
+export const POSE_POSITION_PRECISION = 50
+export const POSE_YAW_PRECISION = 10000
+export const POSE_BANK_PRECISION = 127
+export const POSE_SEQ_MODULO = 0x10000
+
+const POSE_FLAG_SPEEDBAR = 1
+const INT16_LIMIT = 0x7fff
+
+export interface PosePacket {
+  seq: number
+  clientTimeMs: number
+  x: number
+  y: number
+  z: number
+  yaw: number
+  bank: number
+  speedbar: boolean
+  viewDelayMs: number
+}
+
+const toInt16 = (value: number, precision: number) =>
+  Math.max(-INT16_LIMIT, Math.min(INT16_LIMIT, Math.round(value * precision)))
+
+const wrapYaw = (yaw: number) => Math.atan2(Math.sin(yaw), Math.cos(yaw))
+
+export const encodePosePacket = (packet: PosePacket) => {
+  const bytes = new Uint8Array(POSE_PACKET_BYTES)
+  const view = new DataView(bytes.buffer)
+  view.setUint8(0, POSE_PACKET_VERSION)
+  view.setUint8(1, packet.speedbar ? POSE_FLAG_SPEEDBAR : 0)
+  view.setUint16(2, packet.seq % POSE_SEQ_MODULO, true)
+  view.setUint32(4, Math.floor(packet.clientTimeMs) >>> 0, true)
+  view.setInt16(8, toInt16(packet.x, POSE_POSITION_PRECISION), true)
+  view.setInt16(10, toInt16(packet.y, POSE_POSITION_PRECISION), true)
+  view.setInt16(12, toInt16(packet.z, POSE_POSITION_PRECISION), true)
+  view.setInt16(14, toInt16(wrapYaw(packet.yaw), POSE_YAW_PRECISION), true)
+  const bank = Math.round(packet.bank * POSE_BANK_PRECISION)
+  view.setInt8(16, Math.max(-POSE_BANK_PRECISION, Math.min(POSE_BANK_PRECISION, bank)))
+  view.setUint16(17, Math.max(0, Math.min(0xffff, Math.round(packet.viewDelayMs))), true)
+  return bytes
+}
+
+export const decodePosePacket = (bytes: Uint8Array): PosePacket | null => {
+  if (bytes.byteLength < POSE_PACKET_BYTES || bytes[0] !== POSE_PACKET_VERSION) {
+    return null
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return {
+    seq: view.getUint16(2, true),
+    clientTimeMs: view.getUint32(4, true),
+    x: view.getInt16(8, true) / POSE_POSITION_PRECISION,
+    y: view.getInt16(10, true) / POSE_POSITION_PRECISION,
+    z: view.getInt16(12, true) / POSE_POSITION_PRECISION,
+    yaw: view.getInt16(14, true) / POSE_YAW_PRECISION,
+    bank: view.getInt8(16) / POSE_BANK_PRECISION,
+    speedbar: (view.getUint8(1) & POSE_FLAG_SPEEDBAR) !== 0,
+    viewDelayMs: view.getUint16(17, true),
+  }
+}
+
+// True when `seq` comes after `lastSeq` allowing for wrap-around; packets from the past half of the
+// sequence space are stale or duplicated and should be dropped.
+export const isNewerPoseSeq = (seq: number, lastSeq: number | null) => {
+  if (lastSeq === null) {
+    return true
+  }
+  const delta = (seq - lastSeq + POSE_SEQ_MODULO) % POSE_SEQ_MODULO
+  return delta > 0 && delta < POSE_SEQ_MODULO / 2
+}
+
+// Server `pose-correction`: the server rejected our poses and still has us at `x, y, z`. With `respawn` it has
+// counted it as a crash and only takes a pose on the spawn ring next.
+export interface PoseCorrection {
+  x: number
+  y: number
+  z: number
+  respawn: boolean
+}
+
+export const toPoseCorrection = (message: unknown): PoseCorrection | null => {
+  if (!message || typeof message !== 'object') {
+    return null
+  }
+  const { x, y, z, respawn } = message as Partial<Record<keyof PoseCorrection, unknown>>
+  if (typeof x !== 'number' || typeof y !== 'number' || typeof z !== 'number') {
+    return null
+  }
+  if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+    return null
+  }
+  return { x, y, z, respawn: respawn === true }
+}
@@ -0,0 +1,36 @@
+// Pilot nicknames. The client checks a name with `validateNickname` before sending `rename`; the server runs the
+// same check, adds reserved-name and in-room uniqueness rules, and answers with a `rename-result`.
+
+export const NICKNAME_MIN_LENGTH = 2
+export const NICKNAME_MAX_LENGTH = 24
+
+// Letters and digits in any script, plus single spaces, dots, dashes and underscores between them.
+const NICKNAME_PATTERN = /^[\p{L}\p{N}]+(?:[ ._-][\p{L}\p{N}]+)*$/u
+
+// Compared after lowercasing and dropping separators, so `A.d-m_in` is caught too.
+const RESERVED_NICKNAMES = new Set(['admin', 'administrator', 'moderator', 'mod', 'server', 'system', 'gliderbattle'])
+
+export interface NicknameChangeMessage {
+  nickname: string
+}
+
+export type NicknameChangeResult = { ok: true; nickname: string } | { ok: false; error: string }
+
+export const toNicknameKey = (nickname: string) => nickname.toLowerCase().replace(/[ ._-]/g, '')
+
+export const validateNickname = (value: unknown): NicknameChangeResult => {
+  const nickname = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : ''
+  if (nickname.length < NICKNAME_MIN_LENGTH || nickname.length > NICKNAME_MAX_LENGTH) {
+    return { ok: false, error: `Nicknames are ${NICKNAME_MIN_LENGTH} to ${NICKNAME_MAX_LENGTH} characters long.` }
+  }
+  if (!NICKNAME_PATTERN.test(nickname)) {
+    return {
+      ok: false,
+      error: 'Use letters and digits, with single spaces, dots, dashes or underscores between them.',
+    }
+  }
+  if (RESERVED_NICKNAMES.has(toNicknameKey(nickname))) {
+    return { ok: false, error: `"${nickname}" is reserved.` }
+  }
+  return { ok: true, nickname }
+}
@@ -0,0 +1,21 @@
+// Team orb mode. Pilots are split into teams as they join; the team of whoever holds the orb scores a point
+// per second, and teammates cannot steal the orb from each other.
+
+export const TEAM_COUNT_MIN = 2
+export const TEAM_COUNT_MAX = 4
+// `team` of every pilot in free-for-all rooms.
+export const NO_TEAM = -1
+
+export interface TeamInfo {
+  name: string
+  color: string
+}
+
+export const TEAMS: readonly TeamInfo[] = [
+  { name: 'Red', color: '#e5484d' },
+  { name: 'Blue', color: '#3b82f6' },
+  { name: 'Green', color: '#2fb36b' },
+  { name: 'Gold', color: '#f0b429' },
+]
+
+export const getTeamInfo = (team: number): TeamInfo | null => TEAMS[team] ?? null
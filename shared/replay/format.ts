@@ -0,0 +1,127 @@
+import type { WorldTerrainParams } from '../world/terrain'
+import type { ThermalColumn } from '../world/thermals'
+
+// Match recordings are gzip-compressed JSON lines: one header record, then time-ordered records whose
+// `t` is milliseconds since `startedAtMs`. Pilots are referenced by a small per-recording slot number.
+
+export const REPLAY_FORMAT_VERSION = 1
+export const REPLAY_FILE_EXTENSION = '.replay.jsonl.gz'
+export const REPLAY_POSITION_PRECISION = 100
+export const REPLAY_ANGLE_PRECISION = 1000
+export const REPLAY_NO_PILOT = -1
+
+export interface ReplayHeaderRecord {
+  type: 'header'
+  version: number
+  roomCode: string
+  roomName: string
+  startedAtMs: number
+  tickMs: number
+  terrain: WorldTerrainParams
+}
+
+// [slot, x, y, z, yaw, bank, speedbar (0 | 1)]
+export type ReplayPose = [number, number, number, number, number, number, number]
+
+export interface ReplayFrameRecord {
+  type: 'frame'
+  t: number
+  poses: ReplayPose[]
+}
+
+export interface ReplayJoinRecord {
+  type: 'join'
+  t: number
+  slot: number
+  sessionId: string
+  nickname: string
+  isBot: boolean
+}
+
+export interface ReplayLeaveRecord {
+  type: 'leave'
+  t: number
+  slot: number
+}
+
+export interface ReplayOrbRecord {
+  type: 'orb'
+  t: number
+  active: boolean
+  holder: number
+  x: number
+  y: number
+  z: number
+}
+
+export interface ReplayCoin {
+  id: string
+  startupId: string
+  name: string
+  iconUrl: string
+  growth30d: number
+  x: number
+  y: number
+  z: number
+  spawnedAtMs: number
+  expiresAtMs: number
+}
+
+export interface ReplayCoinSpawnRecord {
+  type: 'coin'
+  t: number
+  coin: ReplayCoin
+}
+
+export interface ReplayCoinRemoveRecord {
+  type: 'coin-remove'
+  t: number
+  id: string
+  pickedBy: number
+}
+
+export interface ReplayEffectRecord {
+  type: 'effect'
+  t: number
+  slot: number
+  active: boolean
+  speedPct: number
+  endsAtMs: number
+}
+
+export interface ReplayScoreRecord {
+  type: 'score'
+  t: number
+  slot: number
+  current: number
+  best: number
+}
+
+export interface ReplayThermalsRecord {
+  type: 'thermals'
+  t: number
+  seed: number
+  thermals: ThermalColumn[]
+}
+
+export interface ReplayLeaderboardRecord {
+  type: 'leaderboard'
+  t: number
+  entries: { nickname: string; score: number }[]
+}
+
+export type ReplayEventRecord =
+  | ReplayJoinRecord
+  | ReplayLeaveRecord
+  | ReplayOrbRecord
+  | ReplayCoinSpawnRecord
+  | ReplayCoinRemoveRecord
+  | ReplayEffectRecord
+  | ReplayScoreRecord
+  | ReplayThermalsRecord
+  | ReplayLeaderboardRecord
+
+export type ReplayRecord = ReplayHeaderRecord | ReplayFrameRecord | ReplayEventRecord
+
+export const quantizeReplayValue = (value: number, precision: number) =>
+  Math.round(value * precision) / precision
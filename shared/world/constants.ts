@@ -0,0 +1,118 @@
+// World-generation and flight-model constants shared by the Vite client and the Colyseus server.
+// Anything that changes terrain heights, lakes, forests, thermals or the glide envelope lives here.
+
+export const SPAWN_BASE_X = 0
+export const SPAWN_BASE_Z = 0
+export const SPAWN_RING_RADIUS = 86
+export const SPAWN_MIN_GROUND_HEIGHT = -2
+
+export const FORWARD_SPEED = 6
+export const SPEEDBAR_BOOST = 1
+export const SINK_RATE = 0.45
+export const SPEEDBAR_SINK_BOOST = 1.4
+export const YAW_RATE = 2.8
+export const GAME_SPEED = 2
+
+export const TERRAIN_SEED = 1337
+export const TERRAIN_ISLAND_RADIUS = 95
+export const TERRAIN_HEIGHT_BASE = -5
+export const TERRAIN_MAX_HEIGHT = 34
+export const TERRAIN_NOISE_SCALE = 0.028
+export const TERRAIN_WATER_LEVEL = TERRAIN_HEIGHT_BASE - 1.8
+export const TERRAIN_ISLAND_RADIUS_MIN = 86
+export const TERRAIN_ISLAND_RADIUS_MAX = 104
+export const TERRAIN_MAX_HEIGHT_MIN = 22
+export const TERRAIN_MAX_HEIGHT_MAX = 44
+
+export const TERRAIN_BIOME_BEACH_RADIUS_START = 0.84
+export const TERRAIN_BIOME_BEACH_MAX_SLOPE = 0.42
+export const TERRAIN_BIOME_SNOW_MIN_HEIGHT = 0.72
+export const TERRAIN_BIOME_SNOW_MAX_SLOPE = 0.58
+export const TERRAIN_BIOME_ROCK_MIN_SLOPE = 0.55
+export const TERRAIN_BIOME_FOREST_MIN_HEIGHT = 0.18
+export const TERRAIN_BIOME_FOREST_MAX_HEIGHT = 0.7
+export const TERRAIN_BIOME_FOREST_MAX_SLOPE = 0.36
+
+export const TERRAIN_FOREST_INSTANCE_COUNT = 170
+export const TERRAIN_FOREST_MIN_SPACING = 3.3
+export const TERRAIN_FOREST_EDGE_MARGIN = 2
+export const TERRAIN_FOREST_SPAWN_EXCLUSION_RADIUS = 24
+export const TERRAIN_FOREST_SCALE_MIN = 0.78
+export const TERRAIN_FOREST_SCALE_MAX = 1.48
+export const TERRAIN_INLAND_LAKE_RADIUS_MIN = 8
+export const TERRAIN_INLAND_LAKE_RADIUS_MAX = 13
+export const TERRAIN_INLAND_LAKE_MAX_CENTER_RADIUS_RATIO = 0.58
+export const TERRAIN_INLAND_LAKE_MIN_DIST_FROM_SPAWN = 34
+export const TERRAIN_INLAND_LAKE_RIM_WIDTH = 2.6
+export const TERRAIN_INLAND_LAKE_DEPTH = 3.4
+export const TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MIN = 5
+export const TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MAX = 16
+export const TERRAIN_INLAND_LAKE_DEPTH_MIN = 2
+export const TERRAIN_INLAND_LAKE_DEPTH_MAX = 5.5
+export const TERRAIN_INLAND_LAKE_SHORE_BLEND = 0.7
+export const TERRAIN_INLAND_LAKE_MIN_UNDERWATER_DEPTH = 0.7
+export const TERRAIN_INLAND_LAKE_MIN_RIM_ABOVE_WATER = 0.55
+
+export const LAKE_MONSTER_MIN_SHORE_CLEARANCE = 2.3
+
+export const THERMAL_COUNT = 10
+export const THERMAL_RESEED_SECONDS = 18
+export const THERMAL_ACTIVATION_DELAY_MIN_SECONDS = 0
+export const THERMAL_ACTIVATION_DELAY_MAX_SECONDS = 6
+export const THERMAL_BASE_Y = 0
+export const THERMAL_SMALL_RATIO = 0.7
+export const THERMAL_SMALL_RADIUS_MIN = 5
+export const THERMAL_SMALL_RADIUS_MAX = 8
+export const THERMAL_LARGE_RADIUS_MIN = 12
+export const THERMAL_LARGE_RADIUS_MAX = 20
+export const THERMAL_BASE_HEIGHT_MIN = 32
+export const THERMAL_BASE_HEIGHT_MAX = 54
+export const THERMAL_HEIGHT_AMPLITUDE_MIN = 8
+export const THERMAL_HEIGHT_AMPLITUDE_MAX = 16
+export const THERMAL_SOFT_CEILING_BELOW = 6
+export const THERMAL_SOFT_CEILING_ABOVE = 3
+export const THERMAL_SMALL_STRENGTH_MIN = 3.8
+export const THERMAL_SMALL_STRENGTH_MAX = 5.2
+export const THERMAL_LARGE_STRENGTH_MIN = 2.5
+export const THERMAL_LARGE_STRENGTH_MAX = 3.8
+export const THERMAL_LIFT_MULTIPLIER = 0.55
+export const THERMAL_EDGE_MARGIN = 0
+export const THERMAL_MIN_GAP = 14
+export const THERMAL_SPAWN_EXCLUSION_RADIUS = 18
+export const THERMAL_INITIAL_SEED = 5000
+export const THERMAL_SEED_STEP = 131
+
+export const EDGE_SINK_START_RATIO = 0.5
+export const EDGE_SINK_MAX = 8.0
+export const EDGE_SINK_CURVE_EXP = 1.6
+export const STORM_START_RATIO = 0.25
+export const STORM_MAX_TOTAL_SINK = 4.2
+
+export const TASK_TURNPOINT_COUNT_MIN = 2
+export const TASK_TURNPOINT_COUNT_MAX = 3
+export const TASK_START_RADIUS = 16
+export const TASK_TURNPOINT_RADIUS_MIN = 7
+export const TASK_TURNPOINT_RADIUS_MAX = 11
+export const TASK_GOAL_RADIUS = 6
+export const TASK_LEG_MIN = 32
+export const TASK_LEG_MAX = 62
+export const TASK_MAX_CENTER_RADIUS_RATIO = 0.72
+export const TASK_LEG_SAMPLE_STEP = 4
+export const TASK_MIN_LEG_GROUND_HEIGHT = SPAWN_MIN_GROUND_HEIGHT
+export const TASK_START_CEILING_CLEARANCE = 18
+export const TASK_GOAL_FLOOR_CLEARANCE = 3
+export const TASK_LEG_CANDIDATES = 24
+export const TASK_GENERATION_ATTEMPTS = 200
+export const TASK_FALLBACK_LEG_SCALES = [0.6, 0.35]
+export const TASK_FALLBACK_LOOP_RADIUS_RATIOS = [0.45, 0.3, 0.18, 0.08]
+export const TASK_FALLBACK_LOOP_ROTATIONS = 8
+
+export const STORM_CIRCLE_STAGE_COUNT = 4
+// The first circle takes in the whole island, spawn ring included; the last one is barely wider than a thermal.
+export const STORM_CIRCLE_INITIAL_RADIUS_RATIO = 1.15
+export const STORM_CIRCLE_FINAL_RADIUS = 8
+// Share of each stage the circle holds still before closing in on the next one.
+export const STORM_CIRCLE_HOLD_RATIO = 0.4
+export const STORM_CIRCLE_EDGE_WIDTH = 20
+export const STORM_CIRCLE_CENTER_CANDIDATES = 24
+export const STORM_CIRCLE_MIN_GROUND_HEIGHT = SPAWN_MIN_GROUND_HEIGHT
@@ -0,0 +1,62 @@
+import {
+  EDGE_SINK_CURVE_EXP,
+  EDGE_SINK_MAX,
+  EDGE_SINK_START_RATIO,
+  FORWARD_SPEED,
+  SINK_RATE,
+  SPEEDBAR_BOOST,
+  SPEEDBAR_SINK_BOOST,
+  STORM_MAX_TOTAL_SINK,
+  STORM_START_RATIO,
+  THERMAL_LIFT_MULTIPLIER,
+} from './constants'
+import { clamp, lerp } from './noise'
+import { getThermalLiftAtPoint } from './thermals'
+import type { ThermalColumn } from './thermals'
+
+// Glide model shared by the local pilot and server-simulated bots. Rates are per unscaled second;
+// callers multiply by GAME_SPEED-scaled deltas exactly like Player does.
+
+export const getGliderAirspeed = (speedbar: boolean, speedEffectPct = 0) =>
+  (FORWARD_SPEED + (speedbar ? SPEEDBAR_BOOST : 0)) * (1 + speedEffectPct / 100)
+
+export const getGliderSinkRate = (
+  speedbar: boolean,
+  distanceFromCenter: number,
+  islandRadius: number,
+  waterRadius: number,
+) => {
+  const sinkStartRadius = islandRadius + (waterRadius - islandRadius) * EDGE_SINK_START_RATIO
+  const stormStartRadius = islandRadius + (waterRadius - islandRadius) * STORM_START_RATIO
+  const edgeSinkT = clamp(
+    (distanceFromCenter - sinkStartRadius) / Math.max(waterRadius - sinkStartRadius, 1),
+    0,
+    1,
+  )
+  const edgeSink = EDGE_SINK_MAX * Math.pow(edgeSinkT, EDGE_SINK_CURVE_EXP)
+  const stormT = clamp(
+    (distanceFromCenter - stormStartRadius) / Math.max(waterRadius - stormStartRadius, 1),
+    0,
+    1,
+  )
+  const uncappedSink = SINK_RATE + (speedbar ? SPEEDBAR_SINK_BOOST : 0) + edgeSink
+  const sinkCap = lerp(1000, STORM_MAX_TOTAL_SINK, stormT)
+  return Math.min(uncappedSink, sinkCap)
+}
+
+export const getThermalClimbRate = (
+  thermals: Iterable<ThermalColumn>,
+  x: number,
+  y: number,
+  z: number,
+  nowSeconds: number,
+) => {
+  let thermalLift = 0
+  for (const thermal of thermals) {
+    if (nowSeconds < thermal.activationAt) {
+      continue
+    }
+    thermalLift += getThermalLiftAtPoint(thermal, x, y, z)
+  }
+  return thermalLift * THERMAL_LIFT_MULTIPLIER
+}
@@ -0,0 +1,7 @@
+export * from './constants'
+export * from './flight'
+export * from './noise'
+export * from './terrain'
+export * from './thermals'
+export * from './task'
+export * from './storm'
@@ -0,0 +1,40 @@
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+// Same formula as THREE.MathUtils.lerp so client heights stay bit-identical to the previous build.
+export const lerp = (a: number, b: number, t: number) => (1 - t) * a + t * b
+
+export const fract = (n: number) => n - Math.floor(n)
+
+export const smoothstep = (t: number) => t * t * (3 - 2 * t)
+
+export const hash2 = (x: number, z: number, seed: number) =>
+  fract(Math.sin(x * 127.1 + z * 311.7 + seed * 17.13) * 43758.5453123)
+
+export const createRng = (seed: number) => {
+  let t = seed >>> 0
+  return () => {
+    t += 0x6d2b79f5
+    let x = Math.imul(t ^ (t >>> 15), 1 | t)
+    x ^= x + Math.imul(x ^ (x >>> 7), 61 | x)
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export const valueNoise2 = (x: number, z: number, seed: number) => {
+  const x0 = Math.floor(x)
+  const z0 = Math.floor(z)
+  const x1 = x0 + 1
+  const z1 = z0 + 1
+
+  const tx = smoothstep(x - x0)
+  const tz = smoothstep(z - z0)
+
+  const n00 = hash2(x0, z0, seed)
+  const n10 = hash2(x1, z0, seed)
+  const n01 = hash2(x0, z1, seed)
+  const n11 = hash2(x1, z1, seed)
+
+  const nx0 = lerp(n00, n10, tx)
+  const nx1 = lerp(n01, n11, tx)
+  return lerp(nx0, nx1, tz)
+}
@@ -0,0 +1,100 @@
+import {
+  EDGE_SINK_START_RATIO,
+  STORM_CIRCLE_CENTER_CANDIDATES,
+  STORM_CIRCLE_EDGE_WIDTH,
+  STORM_CIRCLE_FINAL_RADIUS,
+  STORM_CIRCLE_HOLD_RATIO,
+  STORM_CIRCLE_INITIAL_RADIUS_RATIO,
+  STORM_CIRCLE_MIN_GROUND_HEIGHT,
+  STORM_CIRCLE_STAGE_COUNT,
+} from './constants'
+import { clamp, lerp } from './noise'
+import type { WorldTerrain } from './terrain'
+
+// The safe area of a storm round; everything outside it is storm.
+export interface StormCircle {
+  x: number
+  z: number
+  radius: number
+}
+
+// One step of the closing storm: it holds at `from` until `shrinkStartsAtMs`, then closes in on `to`, which lies
+// inside it, by `shrinkEndsAtMs`. Stages count from 0 to STORM_CIRCLE_STAGE_COUNT - 1.
+export interface StormStage {
+  stage: number
+  from: StormCircle
+  to: StormCircle
+  shrinkStartsAtMs: number
+  shrinkEndsAtMs: number
+}
+
+// What `getGliderSinkRate` needs to treat the storm edge like the island's shoreline.
+export interface StormGlideZone {
+  distanceFromCenter: number
+  islandRadius: number
+  waterRadius: number
+}
+
+// Radii shrink geometrically, so early stages cut the island down fast and late ones close in slowly.
+const getStageRadius = (initialRadius: number, stage: number) =>
+  initialRadius * (STORM_CIRCLE_FINAL_RADIUS / initialRadius) ** (stage / STORM_CIRCLE_STAGE_COUNT)
+
+const pickNextCircle = (terrain: WorldTerrain, rng: () => number, from: StormCircle, radius: number): StormCircle => {
+  const maxOffset = Math.max(0, from.radius - radius)
+  for (let candidate = 0; candidate < STORM_CIRCLE_CENTER_CANDIDATES; candidate += 1) {
+    const angle = rng() * Math.PI * 2
+    const offset = Math.sqrt(rng()) * maxOffset
+    const next = { x: from.x + Math.cos(angle) * offset, z: from.z + Math.sin(angle) * offset, radius }
+    if (terrain.heightAt(next.x, next.z) >= STORM_CIRCLE_MIN_GROUND_HEIGHT) {
+      return next
+    }
+  }
+  return { x: from.x, z: from.z, radius }
+}
+
+export const getInitialStormCircle = (terrain: WorldTerrain): StormCircle => ({
+  x: 0,
+  z: 0,
+  radius: terrain.islandRadius * STORM_CIRCLE_INITIAL_RADIUS_RATIO,
+})
+
+// Lays out the stage starting at `startsAtMs` from the circle the previous stage closed to. The next circle's
+// center stays over land, so the last safe spot is never out at sea.
+export const createStormStage = (
+  terrain: WorldTerrain,
+  rng: () => number,
+  from: StormCircle,
+  stage: number,
+  startsAtMs: number,
+  stageDurationMs: number,
+): StormStage => ({
+  stage,
+  from,
+  to: pickNextCircle(terrain, rng, from, getStageRadius(getInitialStormCircle(terrain).radius, stage + 1)),
+  shrinkStartsAtMs: startsAtMs + stageDurationMs * STORM_CIRCLE_HOLD_RATIO,
+  shrinkEndsAtMs: startsAtMs + stageDurationMs,
+})
+
+export const getStormCircle = (stage: StormStage, nowMs: number): StormCircle => {
+  const t = clamp(
+    (nowMs - stage.shrinkStartsAtMs) / Math.max(stage.shrinkEndsAtMs - stage.shrinkStartsAtMs, 1),
+    0,
+    1,
+  )
+  return {
+    x: lerp(stage.from.x, stage.to.x, t),
+    z: lerp(stage.from.z, stage.to.z, t),
+    radius: lerp(stage.from.radius, stage.to.radius, t),
+  }
+}
+
+// Sink starts right at the circle and peaks STORM_CIRCLE_EDGE_WIDTH outside it; like at the shoreline, the rain
+// and fog start building a little before that.
+export const getStormGlideZone = (circle: StormCircle, x: number, z: number): StormGlideZone => {
+  const waterRadius = circle.radius + STORM_CIRCLE_EDGE_WIDTH
+  return {
+    distanceFromCenter: Math.hypot(x - circle.x, z - circle.z),
+    islandRadius: (circle.radius - waterRadius * EDGE_SINK_START_RATIO) / (1 - EDGE_SINK_START_RATIO),
+    waterRadius,
+  }
+}
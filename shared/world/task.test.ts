@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import {
+  TASK_LEG_SAMPLE_STEP,
+  TASK_MIN_LEG_GROUND_HEIGHT,
+  TASK_START_RADIUS,
+  TERRAIN_ISLAND_RADIUS_MAX,
+  TERRAIN_ISLAND_RADIUS_MIN,
+  TERRAIN_MAX_HEIGHT_MAX,
+  TERRAIN_MAX_HEIGHT_MIN,
+} from './constants'
+import { lerp } from './noise'
+import { generateTask, type TaskTurnpoint } from './task'
+import { createWorldTerrain, normalizeWorldTerrainParams, type WorldTerrain } from './terrain'
+
+// Every cylinder centre and every leg between them has to be flyable without crossing the sea,
+// including the fallback layouts used when full-length legs do not fit the island.
+
+const ISLANDS = Array.from({ length: 40 }, (_, index) => ({
+  seed: 1 + index * 7919,
+  islandRadius: lerp(TERRAIN_ISLAND_RADIUS_MIN, TERRAIN_ISLAND_RADIUS_MAX, (index % 5) / 4),
+  maxHeight: lerp(TERRAIN_MAX_HEIGHT_MIN, TERRAIN_MAX_HEIGHT_MAX, (index % 3) / 2),
+  lakeEnabled: index % 2 === 0,
+}))
+
+// The smallest, flattest islands are the ones that push generation into its fallbacks.
+const SMALL_ISLANDS = Array.from({ length: 40 }, (_, index) => ({
+  seed: index + 1,
+  islandRadius: TERRAIN_ISLAND_RADIUS_MIN,
+  maxHeight: TERRAIN_MAX_HEIGHT_MIN,
+}))
+
+const findSeaCrossing = (terrain: WorldTerrain, task: TaskTurnpoint[]) => {
+  for (let index = 1; index < task.length; index += 1) {
+    const from = task[index - 1]
+    const to = task[index]
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.z - from.z) / TASK_LEG_SAMPLE_STEP))
+    for (let step = 0; step <= steps; step += 1) {
+      const x = lerp(from.x, to.x, step / steps)
+      const z = lerp(from.z, to.z, step / steps)
+      if (terrain.heightAt(x, z) < TASK_MIN_LEG_GROUND_HEIGHT) {
+        return { leg: index, x, z }
+      }
+    }
+  }
+  return null
+}
+
+describe('generateTask', () => {
+  it.each([...ISLANDS, ...SMALL_ISLANDS])(
+    'keeps every leg over land for seed $seed (radius $islandRadius)',
+    (params) => {
+      const terrain = createWorldTerrain(normalizeWorldTerrainParams(params))
+      const task = generateTask(terrain, params.seed * 31)
+
+      expect(task[0].kind).toBe('start')
+      expect(task[task.length - 1].kind).toBe('goal')
+      expect(findSeaCrossing(terrain, task)).toBeNull()
+    },
+  )
+
+  it('falls back to a smaller task on some small islands', () => {
+    const fallbacks = SMALL_ISLANDS.filter((params) => {
+      const terrain = createWorldTerrain(normalizeWorldTerrainParams(params))
+      return generateTask(terrain, params.seed * 31)[0].radius < TASK_START_RADIUS
+    })
+    expect(fallbacks.length).toBeGreaterThan(0)
+  })
+
+  it('is deterministic for a seed', () => {
+    const terrain = createWorldTerrain(normalizeWorldTerrainParams({ seed: 4242 }))
+    expect(generateTask(terrain, 99)).toEqual(generateTask(terrain, 99))
+  })
+})
@@ -0,0 +1,188 @@
+import {
+  TASK_FALLBACK_LEG_SCALES,
+  TASK_FALLBACK_LOOP_RADIUS_RATIOS,
+  TASK_FALLBACK_LOOP_ROTATIONS,
+  TASK_GENERATION_ATTEMPTS,
+  TASK_GOAL_FLOOR_CLEARANCE,
+  TASK_GOAL_RADIUS,
+  TASK_LEG_CANDIDATES,
+  TASK_LEG_MAX,
+  TASK_LEG_MIN,
+  TASK_LEG_SAMPLE_STEP,
+  TASK_MAX_CENTER_RADIUS_RATIO,
+  TASK_MIN_LEG_GROUND_HEIGHT,
+  TASK_START_CEILING_CLEARANCE,
+  TASK_START_RADIUS,
+  TASK_TURNPOINT_COUNT_MAX,
+  TASK_TURNPOINT_COUNT_MIN,
+  TASK_TURNPOINT_RADIUS_MAX,
+  TASK_TURNPOINT_RADIUS_MIN,
+  THERMAL_BASE_HEIGHT_MIN,
+} from './constants'
+import { createRng, lerp } from './noise'
+import type { WorldTerrain } from './terrain'
+
+export type TaskTurnpointKind = 'start' | 'turnpoint' | 'goal'
+
+// A cylinder pilots have to fly into, in order: the start, one or more turnpoints, then goal.
+export interface TaskTurnpoint {
+  kind: TaskTurnpointKind
+  x: number
+  z: number
+  radius: number
+  // Altitude band the pilot must be in to tag the cylinder; null when that side is open.
+  minAltitude: number | null
+  maxAltitude: number | null
+}
+
+interface TaskPoint {
+  x: number
+  z: number
+}
+
+const isLegOverLand = (terrain: WorldTerrain, from: TaskPoint, to: TaskPoint) => {
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.z - from.z) / TASK_LEG_SAMPLE_STEP))
+  for (let step = 0; step <= steps; step += 1) {
+    const t = step / steps
+    if (terrain.heightAt(lerp(from.x, to.x, t), lerp(from.z, to.z, t)) < TASK_MIN_LEG_GROUND_HEIGHT) {
+      return false
+    }
+  }
+  return true
+}
+
+const pickNextPoint = (
+  terrain: WorldTerrain,
+  rng: () => number,
+  points: TaskPoint[],
+  radii: number[],
+  maxCenterRadius: number,
+  legScale: number,
+): TaskPoint | null => {
+  const from = points[points.length - 1]
+  const nextRadius = radii[points.length]
+  for (let candidate = 0; candidate < TASK_LEG_CANDIDATES; candidate += 1) {
+    const heading = rng() * Math.PI * 2
+    const legLength = lerp(TASK_LEG_MIN, TASK_LEG_MAX, rng()) * legScale
+    const next = { x: from.x + Math.cos(heading) * legLength, z: from.z + Math.sin(heading) * legLength }
+    const overlaps = points.some(
+      (point, index) => Math.hypot(point.x - next.x, point.z - next.z) < radii[index] + nextRadius,
+    )
+    if (Math.hypot(next.x, next.z) <= maxCenterRadius && !overlaps && isLegOverLand(terrain, from, next)) {
+      return next
+    }
+  }
+  return null
+}
+
+const buildTask = (terrain: WorldTerrain, points: TaskPoint[], radii: number[]): TaskTurnpoint[] =>
+  points.map((point, index) => {
+    const groundY = terrain.heightAt(point.x, point.z)
+    if (index === 0) {
+      return {
+        kind: 'start',
+        ...point,
+        radius: radii[index],
+        minAltitude: null,
+        // A start ceiling makes pilots leave from the same height band instead of tanking up at cloudbase first.
+        maxAltitude: Math.max(THERMAL_BASE_HEIGHT_MIN, groundY + TASK_START_CEILING_CLEARANCE),
+      }
+    }
+    if (index === points.length - 1) {
+      return {
+        kind: 'goal',
+        ...point,
+        radius: radii[index],
+        minAltitude: groundY + TASK_GOAL_FLOOR_CLEARANCE,
+        maxAltitude: null,
+      }
+    }
+    return { kind: 'turnpoint', ...point, radius: radii[index], minAltitude: null, maxAltitude: null }
+  })
+
+const isRouteOverLand = (terrain: WorldTerrain, points: TaskPoint[]) =>
+  points.every((point, index) => index === 0 || isLegOverLand(terrain, points[index - 1], point))
+
+const createLoop = (count: number, radius: number, rotation: number): TaskPoint[] =>
+  Array.from({ length: count }, (_, index) => {
+    const angle = rotation + (index / count) * Math.PI * 2
+    return { x: Math.cos(angle) * radius, z: Math.sin(angle) * radius }
+  })
+
+const layoutTask = (
+  terrain: WorldTerrain,
+  rng: () => number,
+  radii: number[],
+  maxCenterRadius: number,
+  legScale: number,
+): TaskPoint[] | null => {
+  for (let attempt = 0; attempt < TASK_GENERATION_ATTEMPTS; attempt += 1) {
+    const theta = rng() * Math.PI * 2
+    const distanceFromCenter = Math.sqrt(rng()) * maxCenterRadius
+    const start = { x: Math.cos(theta) * distanceFromCenter, z: Math.sin(theta) * distanceFromCenter }
+    if (terrain.heightAt(start.x, start.z) < TASK_MIN_LEG_GROUND_HEIGHT) {
+      continue
+    }
+
+    const points: TaskPoint[] = [start]
+    while (points.length < radii.length) {
+      const next = pickNextPoint(terrain, rng, points, radii, maxCenterRadius, legScale)
+      if (!next) {
+        break
+      }
+      points.push(next)
+    }
+    if (points.length === radii.length) {
+      return points
+    }
+  }
+  return null
+}
+
+// Lays out a task whose cylinders and legs all stay over the island, so it can be flown without crossing the sea.
+export const generateTask = (terrain: WorldTerrain, seed: number): TaskTurnpoint[] => {
+  const rng = createRng(seed)
+  const maxCenterRadius = terrain.islandRadius * TASK_MAX_CENTER_RADIUS_RATIO
+  const turnpointCount =
+    TASK_TURNPOINT_COUNT_MIN + Math.floor(rng() * (TASK_TURNPOINT_COUNT_MAX - TASK_TURNPOINT_COUNT_MIN + 1))
+  const radii = [
+    TASK_START_RADIUS,
+    ...Array.from({ length: turnpointCount }, () => lerp(TASK_TURNPOINT_RADIUS_MIN, TASK_TURNPOINT_RADIUS_MAX, rng())),
+    TASK_GOAL_RADIUS,
+  ]
+
+  const layout = layoutTask(terrain, rng, radii, maxCenterRadius, 1)
+  if (layout) {
+    return buildTask(terrain, layout, radii)
+  }
+
+  // Some islands are too narrow for full-length legs; retry with shorter legs and the smallest cylinders.
+  const fallbackRadii = radii.map((radius) => Math.min(radius, TASK_TURNPOINT_RADIUS_MIN))
+  for (const legScale of TASK_FALLBACK_LEG_SCALES) {
+    const shortLayout = layoutTask(terrain, rng, fallbackRadii, maxCenterRadius, legScale)
+    if (shortLayout) {
+      return buildTask(terrain, shortLayout, fallbackRadii)
+    }
+  }
+
+  // Last resort: a loop around the middle, shrunk and turned until every leg is over land.
+  let loop: TaskPoint[] = []
+  for (const ratio of TASK_FALLBACK_LOOP_RADIUS_RATIOS) {
+    for (let rotation = 0; rotation < TASK_FALLBACK_LOOP_ROTATIONS; rotation += 1) {
+      loop = createLoop(radii.length, maxCenterRadius * ratio, (rotation / TASK_FALLBACK_LOOP_ROTATIONS) * Math.PI * 2)
+      if (isRouteOverLand(terrain, loop)) {
+        return buildTask(terrain, loop, fallbackRadii)
+      }
+    }
+  }
+  return buildTask(terrain, loop, fallbackRadii)
+}
+
+export const isInsideTurnpoint = (turnpoint: TaskTurnpoint, x: number, y: number, z: number) =>
+  Math.hypot(x - turnpoint.x, z - turnpoint.z) <= turnpoint.radius &&
+  (turnpoint.minAltitude === null || y >= turnpoint.minAltitude) &&
+  (turnpoint.maxAltitude === null || y <= turnpoint.maxAltitude)
+
+// Comp-style distance: to the nearest point of the cylinder edge, zero once inside.
+export const getTurnpointDistance = (turnpoint: TaskTurnpoint, x: number, z: number) =>
+  Math.max(0, Math.hypot(x - turnpoint.x, z - turnpoint.z) - turnpoint.radius)
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { THERMAL_COUNT, THERMAL_INITIAL_SEED } from './constants'
+import {
+  DEFAULT_WORLD_TERRAIN_PARAMS,
+  createWorldTerrain,
+  findLakeMonsterAnchor,
+  generateForestInstances,
+  normalizeWorldTerrainParams,
+  type WorldTerrainParams,
+} from './terrain'
+import { generateThermals } from './thermals'
+
+// Golden values for the shared island generator. The client mesh and the server's
+// collision/thermal state both come from these functions, so any drift here desyncs them.
+
+const SAMPLE_POINTS: Array<[number, number]> = [
+  [0, 0],
+  [12.5, -8.25],
+  [-30, 22],
+  [28, -24],
+  [45, 10],
+  [-55, -40],
+  [70, 35],
+  [-20, 80],
+  [150, 0],
+]
+
+const FIXED_BATCH_NOW_SECONDS = 1000
+
+const round = (value: number) => Math.round(value * 1e4) / 1e4
+
+const CASES: Array<[string, Partial<WorldTerrainParams>]> = [
+  ['default island', DEFAULT_WORLD_TERRAIN_PARAMS],
+  ['seed 4242, no lake', { ...DEFAULT_WORLD_TERRAIN_PARAMS, seed: 4242, lakeEnabled: false }],
+  ['seed 90210, small tall island', { ...DEFAULT_WORLD_TERRAIN_PARAMS, seed: 90210, islandRadius: 180, maxHeight: 60 }],
+]
+
+const fingerprint = (params: Partial<WorldTerrainParams>) => {
+  const terrain = createWorldTerrain(normalizeWorldTerrainParams(params))
+  const forest = generateForestInstances(terrain)
+  const thermals = generateThermals(
+    THERMAL_COUNT,
+    terrain.heightAt,
+    terrain.islandRadius,
+    THERMAL_INITIAL_SEED,
+    FIXED_BATCH_NOW_SECONDS,
+  )
+  const lakeMonster = findLakeMonsterAnchor(terrain)
+
+  return {
+    heights: SAMPLE_POINTS.map(([x, z]) => round(terrain.heightAt(x, z))),
+    biomes: SAMPLE_POINTS.map(([x, z]) => terrain.biomeAt(x, z)),
+    spawnRingRadius: round(terrain.spawnRingRadius),
+    lake: terrain.inlandLake && {
+      x: round(terrain.inlandLake.x),
+      z: round(terrain.inlandLake.z),
+      radius: round(terrain.inlandLake.radius),
+      waterY: round(terrain.inlandLake.waterY),
+    },
+    lakeMonster: lakeMonster && { x: round(lakeMonster.x), z: round(lakeMonster.z) },
+    forestCount: forest.length,
+    forestHead: forest.slice(0, 3).map((tree) => ({
+      x: round(tree.x),
+      y: round(tree.y),
+      z: round(tree.z),
+      scale: round(tree.scale),
+      type: tree.type,
+    })),
+    forestChecksum: round(forest.reduce((sum, tree) => sum + tree.x * 3 + tree.z * 7 + tree.y, 0)),
+    thermals: thermals.map((thermal) => ({
+      sizeClass: thermal.sizeClass,
+      x: round(thermal.x),
+      z: round(thermal.z),
+      radius: round(thermal.radius),
+      strength: round(thermal.strength),
+    })),
+  }
+}
+
+describe('world generation', () => {
+  it.each(CASES)('is deterministic for the %s', (_label, params) => {
+    expect(fingerprint(params)).toEqual(fingerprint(params))
+  })
+
+  it.each(CASES)('matches the golden values for the %s', (_label, params) => {
+    expect(fingerprint(params)).toMatchSnapshot()
+  })
+})
@@ -0,0 +1,526 @@
+import {
+  LAKE_MONSTER_MIN_SHORE_CLEARANCE,
+  SPAWN_BASE_X,
+  SPAWN_BASE_Z,
+  SPAWN_MIN_GROUND_HEIGHT,
+  SPAWN_RING_RADIUS,
+  TERRAIN_BIOME_BEACH_MAX_SLOPE,
+  TERRAIN_BIOME_BEACH_RADIUS_START,
+  TERRAIN_BIOME_FOREST_MAX_HEIGHT,
+  TERRAIN_BIOME_FOREST_MAX_SLOPE,
+  TERRAIN_BIOME_FOREST_MIN_HEIGHT,
+  TERRAIN_BIOME_ROCK_MIN_SLOPE,
+  TERRAIN_BIOME_SNOW_MAX_SLOPE,
+  TERRAIN_BIOME_SNOW_MIN_HEIGHT,
+  TERRAIN_FOREST_EDGE_MARGIN,
+  TERRAIN_FOREST_INSTANCE_COUNT,
+  TERRAIN_FOREST_MIN_SPACING,
+  TERRAIN_FOREST_SCALE_MAX,
+  TERRAIN_FOREST_SCALE_MIN,
+  TERRAIN_FOREST_SPAWN_EXCLUSION_RADIUS,
+  TERRAIN_HEIGHT_BASE,
+  TERRAIN_INLAND_LAKE_DEPTH,
+  TERRAIN_INLAND_LAKE_DEPTH_MAX,
+  TERRAIN_INLAND_LAKE_DEPTH_MIN,
+  TERRAIN_INLAND_LAKE_MAX_CENTER_RADIUS_RATIO,
+  TERRAIN_INLAND_LAKE_MIN_DIST_FROM_SPAWN,
+  TERRAIN_INLAND_LAKE_MIN_RIM_ABOVE_WATER,
+  TERRAIN_INLAND_LAKE_MIN_UNDERWATER_DEPTH,
+  TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MAX,
+  TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MIN,
+  TERRAIN_INLAND_LAKE_RADIUS_MAX,
+  TERRAIN_INLAND_LAKE_RADIUS_MIN,
+  TERRAIN_INLAND_LAKE_RIM_WIDTH,
+  TERRAIN_INLAND_LAKE_SHORE_BLEND,
+  TERRAIN_ISLAND_RADIUS,
+  TERRAIN_ISLAND_RADIUS_MAX,
+  TERRAIN_ISLAND_RADIUS_MIN,
+  TERRAIN_MAX_HEIGHT,
+  TERRAIN_MAX_HEIGHT_MAX,
+  TERRAIN_MAX_HEIGHT_MIN,
+  TERRAIN_NOISE_SCALE,
+  TERRAIN_SEED,
+  TERRAIN_WATER_LEVEL,
+} from './constants'
+import { clamp, createRng, lerp, smoothstep, valueNoise2 } from './noise'
+
+export type TerrainBiome = 'beach' | 'grass' | 'forest' | 'rock' | 'snow'
+
+export interface ForestInstance {
+  x: number
+  y: number
+  z: number
+  scale: number
+  yaw: number
+  type: number
+}
+
+export interface InlandLake {
+  x: number
+  z: number
+  radius: number
+  waterY: number
+}
+
+export interface LakeMonsterAnchor {
+  x: number
+  z: number
+}
+
+export interface WorldTerrainParams {
+  seed: number
+  islandRadius: number
+  maxHeight: number
+  lakeEnabled: boolean
+  lakeRadiusMin: number
+  lakeRadiusMax: number
+  lakeDepth: number
+}
+
+export interface WorldTerrain {
+  params: WorldTerrainParams
+  seed: number
+  islandRadius: number
+  maxHeight: number
+  waterLevel: number
+  spawnRingRadius: number
+  inlandLake: InlandLake | null
+  islandMask: (x: number, z: number) => number
+  baseHeightAt: (x: number, z: number) => number
+  heightAt: (x: number, z: number) => number
+  isInInlandLake: (x: number, z: number) => boolean
+  slopeAt: (x: number, z: number) => number
+  biomeAt: (x: number, z: number) => TerrainBiome
+}
+
+export const DEFAULT_WORLD_TERRAIN_PARAMS: WorldTerrainParams = {
+  seed: TERRAIN_SEED,
+  islandRadius: TERRAIN_ISLAND_RADIUS,
+  maxHeight: TERRAIN_MAX_HEIGHT,
+  lakeEnabled: true,
+  lakeRadiusMin: TERRAIN_INLAND_LAKE_RADIUS_MIN,
+  lakeRadiusMax: TERRAIN_INLAND_LAKE_RADIUS_MAX,
+  lakeDepth: TERRAIN_INLAND_LAKE_DEPTH,
+}
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+// Clamps untrusted params (room options, network state) into ranges the island generator supports.
+export const normalizeWorldTerrainParams = (
+  params: Partial<WorldTerrainParams> | null | undefined,
+): WorldTerrainParams => {
+  const source = params ?? {}
+  const lakeRadiusMin = clamp(
+    finiteOr(source.lakeRadiusMin, DEFAULT_WORLD_TERRAIN_PARAMS.lakeRadiusMin),
+    TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MIN,
+    TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MAX,
+  )
+  return {
+    seed: Math.floor(finiteOr(source.seed, DEFAULT_WORLD_TERRAIN_PARAMS.seed)) >>> 0,
+    islandRadius: clamp(
+      finiteOr(source.islandRadius, DEFAULT_WORLD_TERRAIN_PARAMS.islandRadius),
+      TERRAIN_ISLAND_RADIUS_MIN,
+      TERRAIN_ISLAND_RADIUS_MAX,
+    ),
+    maxHeight: clamp(
+      finiteOr(source.maxHeight, DEFAULT_WORLD_TERRAIN_PARAMS.maxHeight),
+      TERRAIN_MAX_HEIGHT_MIN,
+      TERRAIN_MAX_HEIGHT_MAX,
+    ),
+    lakeEnabled: typeof source.lakeEnabled === 'boolean' ? source.lakeEnabled : DEFAULT_WORLD_TERRAIN_PARAMS.lakeEnabled,
+    lakeRadiusMin,
+    lakeRadiusMax: clamp(
+      finiteOr(source.lakeRadiusMax, DEFAULT_WORLD_TERRAIN_PARAMS.lakeRadiusMax),
+      lakeRadiusMin,
+      TERRAIN_INLAND_LAKE_RADIUS_LIMIT_MAX,
+    ),
+    lakeDepth: clamp(
+      finiteOr(source.lakeDepth, DEFAULT_WORLD_TERRAIN_PARAMS.lakeDepth),
+      TERRAIN_INLAND_LAKE_DEPTH_MIN,
+      TERRAIN_INLAND_LAKE_DEPTH_MAX,
+    ),
+  }
+}
+
+export const isSameWorldTerrainParams = (a: WorldTerrainParams, b: WorldTerrainParams) =>
+  a.seed === b.seed &&
+  a.islandRadius === b.islandRadius &&
+  a.maxHeight === b.maxHeight &&
+  a.lakeEnabled === b.lakeEnabled &&
+  a.lakeRadiusMin === b.lakeRadiusMin &&
+  a.lakeRadiusMax === b.lakeRadiusMax &&
+  a.lakeDepth === b.lakeDepth
+
+const lakeDepthFromDistance = (
+  distance: number,
+  radius: number,
+  baseHeight: number,
+  waterY: number,
+  lakeDepth: number,
+) => {
+  const outerRadius = radius + TERRAIN_INLAND_LAKE_RIM_WIDTH
+  if (distance >= outerRadius) {
+    return 0
+  }
+
+  const tOuter = clamp(distance / outerRadius, 0, 1)
+  const outerFalloff = 1 - smoothstep(tOuter)
+  const innerT = clamp(1 - distance / Math.max(radius, Number.EPSILON), 0, 1)
+  const bowl = innerT * innerT
+  const proceduralDepth = lakeDepth * (bowl * 0.85 + outerFalloff * 0.15)
+  const minDepthToExposeWater = Math.max(0, baseHeight - (waterY - 0.18))
+  return Math.max(proceduralDepth, minDepthToExposeWater * innerT)
+}
+
+export const createWorldTerrain = (
+  terrainParams: WorldTerrainParams = DEFAULT_WORLD_TERRAIN_PARAMS,
+): WorldTerrain => {
+  const params = normalizeWorldTerrainParams(terrainParams)
+  const { seed, islandRadius, maxHeight, lakeDepth } = params
+  const waterLevel = TERRAIN_WATER_LEVEL
+  const spawnRingRadius = islandRadius * (SPAWN_RING_RADIUS / TERRAIN_ISLAND_RADIUS)
+
+  const fractalNoise = (x: number, z: number) => {
+    let frequency = TERRAIN_NOISE_SCALE
+    let amplitude = 1
+    let total = 0
+    let amplitudeSum = 0
+
+    for (let octave = 0; octave < 4; octave += 1) {
+      total += (valueNoise2(x * frequency, z * frequency, seed + octave * 53) * 2 - 1) * amplitude
+      amplitudeSum += amplitude
+      amplitude *= 0.5
+      frequency *= 2
+    }
+
+    return total / Math.max(amplitudeSum, Number.EPSILON)
+  }
+
+  const ridgeNoise = (x: number, z: number) => {
+    const n = valueNoise2(x * TERRAIN_NOISE_SCALE * 2.3, z * TERRAIN_NOISE_SCALE * 2.3, seed + 999)
+    return 1 - Math.abs(n * 2 - 1)
+  }
+
+  const islandMask = (x: number, z: number) => {
+    const r = Math.hypot(x, z) / islandRadius
+    if (r >= 1) {
+      return 0
+    }
+
+    return 1 - smoothstep(r * r)
+  }
+
+  const baseHeightAt = (x: number, z: number) => {
+    const mask = islandMask(x, z)
+    if (mask <= 0) {
+      return TERRAIN_HEIGHT_BASE - 2
+    }
+
+    const base = fractalNoise(x, z)
+    const ridges = ridgeNoise(x, z)
+    const mixed = base * 0.75 + ridges * 0.25
+    return TERRAIN_HEIGHT_BASE + mixed * maxHeight * mask
+  }
+
+  const carvedHeightForLakeCandidate = (
+    x: number,
+    z: number,
+    lakeX: number,
+    lakeZ: number,
+    lakeRadius: number,
+  ) => {
+    const baseHeight = baseHeightAt(x, z)
+    const distance = Math.hypot(x - lakeX, z - lakeZ)
+    return baseHeight - lakeDepthFromDistance(distance, lakeRadius, baseHeight, waterLevel, lakeDepth)
+  }
+
+  const generateInlandLake = (): InlandLake | null => {
+    if (!params.lakeEnabled) {
+      return null
+    }
+    const rng = createRng(seed + 911)
+    const maxCenterRadius = islandRadius * TERRAIN_INLAND_LAKE_MAX_CENTER_RADIUS_RATIO
+    const attempts = 260
+    const shoreSafety = 5
+
+    for (let i = 0; i < attempts; i += 1) {
+      const theta = rng() * Math.PI * 2
+      const centerRadius = Math.sqrt(rng()) * maxCenterRadius
+      const x = Math.cos(theta) * centerRadius
+      const z = Math.sin(theta) * centerRadius
+      const radius = lerp(params.lakeRadiusMin, params.lakeRadiusMax, rng())
+
+      if (Math.hypot(x - SPAWN_BASE_X, z - SPAWN_BASE_Z) < TERRAIN_INLAND_LAKE_MIN_DIST_FROM_SPAWN) {
+        continue
+      }
+      if (Math.hypot(x, z) + radius + shoreSafety > islandRadius * 0.82) {
+        continue
+      }
+
+      const centerGround = baseHeightAt(x, z)
+      if (centerGround < waterLevel + 3) {
+        continue
+      }
+
+      let valid = true
+      let minRimGround = Number.POSITIVE_INFINITY
+      for (let sample = 0; sample < 16; sample += 1) {
+        const a = (sample / 16) * Math.PI * 2
+        const sx = x + Math.cos(a) * (radius + TERRAIN_INLAND_LAKE_RIM_WIDTH)
+        const sz = z + Math.sin(a) * (radius + TERRAIN_INLAND_LAKE_RIM_WIDTH)
+        if (islandMask(sx, sz) <= 0.2) {
+          valid = false
+          break
+        }
+        minRimGround = Math.min(minRimGround, baseHeightAt(sx, sz))
+      }
+      if (!valid || minRimGround < waterLevel + 0.8) {
+        continue
+      }
+
+      const centerCarvedY = carvedHeightForLakeCandidate(x, z, x, z, radius)
+      if (centerCarvedY > waterLevel - TERRAIN_INLAND_LAKE_MIN_UNDERWATER_DEPTH) {
+        continue
+      }
+
+      let rimOk = true
+      for (let sample = 0; sample < 16; sample += 1) {
+        const a = (sample / 16) * Math.PI * 2
+        const sx = x + Math.cos(a) * (radius + TERRAIN_INLAND_LAKE_RIM_WIDTH * 0.5)
+        const sz = z + Math.sin(a) * (radius + TERRAIN_INLAND_LAKE_RIM_WIDTH * 0.5)
+        const carvedRimY = carvedHeightForLakeCandidate(sx, sz, x, z, radius)
+        if (carvedRimY < waterLevel + TERRAIN_INLAND_LAKE_MIN_RIM_ABOVE_WATER) {
+          rimOk = false
+          break
+        }
+      }
+      if (!rimOk) {
+        continue
+      }
+
+      return { x, z, radius, waterY: waterLevel }
+    }
+
+    const fallbackCandidates: Array<{ x: number; z: number; radius: number }> = [
+      { x: 34, z: -22, radius: 10.5 },
+      { x: -30, z: 25, radius: 9.8 },
+      { x: 22, z: 31, radius: 9.2 },
+    ]
+    for (const candidate of fallbackCandidates) {
+      if (Math.hypot(candidate.x, candidate.z) + candidate.radius + 4 > islandRadius * 0.84) {
+        continue
+      }
+      if (
+        Math.hypot(candidate.x - SPAWN_BASE_X, candidate.z - SPAWN_BASE_Z) <
+        TERRAIN_INLAND_LAKE_MIN_DIST_FROM_SPAWN
+      ) {
+        continue
+      }
+      if (baseHeightAt(candidate.x, candidate.z) < waterLevel + 3) {
+        continue
+      }
+      const centerCarvedY = carvedHeightForLakeCandidate(
+        candidate.x,
+        candidate.z,
+        candidate.x,
+        candidate.z,
+        candidate.radius,
+      )
+      if (centerCarvedY > waterLevel - TERRAIN_INLAND_LAKE_MIN_UNDERWATER_DEPTH) {
+        continue
+      }
+      return { x: candidate.x, z: candidate.z, radius: candidate.radius, waterY: waterLevel }
+    }
+
+    return { x: 28, z: -24, radius: 9.5, waterY: waterLevel }
+  }
+
+  const inlandLake = generateInlandLake()
+
+  const isInInlandLake = (x: number, z: number) => {
+    if (!inlandLake) {
+      return false
+    }
+    return Math.hypot(x - inlandLake.x, z - inlandLake.z) <= inlandLake.radius * 0.98
+  }
+
+  const lakeDepthAt = (x: number, z: number) => {
+    if (!inlandLake) {
+      return 0
+    }
+
+    const distance = Math.hypot(x - inlandLake.x, z - inlandLake.z)
+    const baseHeight = baseHeightAt(x, z)
+    return lakeDepthFromDistance(distance, inlandLake.radius, baseHeight, inlandLake.waterY, lakeDepth)
+  }
+
+  const heightAt = (x: number, z: number) => baseHeightAt(x, z) - lakeDepthAt(x, z)
+
+  const slopeAt = (x: number, z: number) => {
+    const step = 1.2
+    const hL = heightAt(x - step, z)
+    const hR = heightAt(x + step, z)
+    const hD = heightAt(x, z - step)
+    const hU = heightAt(x, z + step)
+    const dx = (hR - hL) / (2 * step)
+    const dz = (hU - hD) / (2 * step)
+    return clamp(Math.hypot(dx, dz) / 2.2, 0, 1)
+  }
+
+  const biomeAt = (x: number, z: number): TerrainBiome => {
+    const distNorm = Math.hypot(x, z) / islandRadius
+    if (distNorm >= 1) {
+      return 'beach'
+    }
+    if (isInInlandLake(x, z)) {
+      return 'beach'
+    }
+
+    const height = heightAt(x, z)
+    const heightNorm = clamp((height - waterLevel) / Math.max(maxHeight, Number.EPSILON), 0, 1)
+    const slope = slopeAt(x, z)
+    const shoreNoise = valueNoise2(x * 0.08, z * 0.08, seed + 2027)
+    const forestNoise = valueNoise2(x * 0.06, z * 0.06, seed + 3029)
+    const beachStart = TERRAIN_BIOME_BEACH_RADIUS_START - (shoreNoise - 0.5) * 0.05
+    const lakeShoreFactor = inlandLake
+      ? (() => {
+          const d = Math.hypot(x - inlandLake.x, z - inlandLake.z)
+          const delta = Math.abs(d - inlandLake.radius)
+          const band = TERRAIN_INLAND_LAKE_RIM_WIDTH * (0.8 + TERRAIN_INLAND_LAKE_SHORE_BLEND)
+          return 1 - smoothstep(clamp(delta / Math.max(band, Number.EPSILON), 0, 1))
+        })()
+      : 0
+
+    if (
+      (distNorm >= beachStart && slope <= TERRAIN_BIOME_BEACH_MAX_SLOPE && heightNorm <= 0.62) ||
+      lakeShoreFactor > 0.28
+    ) {
+      return 'beach'
+    }
+
+    if (heightNorm >= TERRAIN_BIOME_SNOW_MIN_HEIGHT && slope <= TERRAIN_BIOME_SNOW_MAX_SLOPE) {
+      return 'snow'
+    }
+
+    if (slope >= TERRAIN_BIOME_ROCK_MIN_SLOPE) {
+      return 'rock'
+    }
+
+    if (
+      heightNorm >= TERRAIN_BIOME_FOREST_MIN_HEIGHT &&
+      heightNorm <= TERRAIN_BIOME_FOREST_MAX_HEIGHT &&
+      slope <= TERRAIN_BIOME_FOREST_MAX_SLOPE &&
+      forestNoise >= 0.43 &&
+      distNorm <= 0.92
+    ) {
+      return 'forest'
+    }
+
+    return 'grass'
+  }
+
+  return {
+    params,
+    seed,
+    islandRadius,
+    maxHeight,
+    waterLevel,
+    spawnRingRadius,
+    inlandLake,
+    islandMask,
+    baseHeightAt,
+    heightAt,
+    isInInlandLake,
+    slopeAt,
+    biomeAt,
+  }
+}
+
+export const findLakeMonsterAnchor = (terrain: WorldTerrain): LakeMonsterAnchor | null => {
+  const { inlandLake } = terrain
+  if (!inlandLake) {
+    return null
+  }
+
+  let best: LakeMonsterAnchor | null = null
+  let bestScore = Number.NEGATIVE_INFINITY
+  const samples = 80
+  const maxRadius = Math.max(
+    inlandLake.radius - LAKE_MONSTER_MIN_SHORE_CLEARANCE,
+    inlandLake.radius * 0.35,
+  )
+
+  for (let i = 0; i < samples; i += 1) {
+    const t = i / samples
+    const angle = t * Math.PI * 2 + valueNoise2(t * 9.1, inlandLake.x * 0.07, terrain.seed + 777) * 0.45
+    const radius = Math.sqrt((i + 1) / samples) * maxRadius
+    const x = inlandLake.x + Math.cos(angle) * radius
+    const z = inlandLake.z + Math.sin(angle) * radius
+    const distance = Math.hypot(x - inlandLake.x, z - inlandLake.z)
+    const shoreClearance = inlandLake.radius - distance
+    if (shoreClearance < LAKE_MONSTER_MIN_SHORE_CLEARANCE * 0.55) {
+      continue
+    }
+
+    const submergence = inlandLake.waterY - terrain.heightAt(x, z)
+    const score = submergence * 1.2 + shoreClearance * 0.38
+    if (score > bestScore) {
+      bestScore = score
+      best = { x, z }
+    }
+  }
+
+  return best ?? { x: inlandLake.x, z: inlandLake.z }
+}
+
+export const generateForestInstances = (terrain: WorldTerrain): ForestInstance[] => {
+  const rng = createRng(terrain.seed + 701)
+  const maxRadius = Math.max(terrain.islandRadius - TERRAIN_FOREST_EDGE_MARGIN, 10)
+  const instances: ForestInstance[] = []
+  const attempts = TERRAIN_FOREST_INSTANCE_COUNT * 36
+
+  for (let i = 0; i < attempts && instances.length < TERRAIN_FOREST_INSTANCE_COUNT; i += 1) {
+    const theta = rng() * Math.PI * 2
+    const radius = Math.sqrt(rng()) * maxRadius
+    const x = Math.cos(theta) * radius
+    const z = Math.sin(theta) * radius
+
+    if (Math.hypot(x - SPAWN_BASE_X, z - SPAWN_BASE_Z) < TERRAIN_FOREST_SPAWN_EXCLUSION_RADIUS) {
+      continue
+    }
+    if (terrain.isInInlandLake(x, z)) {
+      continue
+    }
+
+    if (terrain.biomeAt(x, z) !== 'forest') {
+      continue
+    }
+
+    const y = terrain.heightAt(x, z)
+    if (y < SPAWN_MIN_GROUND_HEIGHT) {
+      continue
+    }
+
+    const scale = lerp(TERRAIN_FOREST_SCALE_MIN, TERRAIN_FOREST_SCALE_MAX, rng())
+    const minSpacing = TERRAIN_FOREST_MIN_SPACING * scale
+    const overlaps = instances.some((instance) => {
+      const required = (minSpacing + TERRAIN_FOREST_MIN_SPACING * instance.scale) * 0.5
+      return (instance.x - x) ** 2 + (instance.z - z) ** 2 < required * required
+    })
+    if (overlaps) {
+      continue
+    }
+
+    instances.push({
+      x,
+      y,
+      z,
+      scale,
+      yaw: rng() * Math.PI * 2,
+      type: Math.floor(rng() * 3),
+    })
+  }
+
+  return instances
+}
@@ -1,13 +1,30 @@
 import { Canvas } from '@react-three/fiber'
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import * as THREE from 'three'
+import { NO_TEAM, validateNickname } from '../shared/net'
+import type { LeaderboardWindow, NicknameChangeResult } from '../shared/net'
 import { initAnalytics, trackPageView } from './analytics/ga'
 import './App.css'
+import { ChatPanel } from './game/ChatPanel'
 import { GameScene, type GameHudState } from './game/GameScene'
 import { MobileControlsOverlay } from './game/MobileControlsOverlay'
+import { ProfileDialog } from './game/ProfileDialog'
+import { ReplayControls } from './game/ReplayControls'
+import { RoomLobby } from './game/RoomLobby'
+import { RoundResults } from './game/RoundResults'
 import { TagChaseHud } from './game/TagChaseHud'
 import type { PlayerInput } from './game/types'
+import { isEditableTarget } from './game/useKeyboard'
 import { useVarioAudio } from './game/useVarioAudio'
+import { getPersistentPlayerIdentity, readStoredNickname, storeNickname } from './net/identity'
+import { readMutedPilots, storeMutedPilots } from './net/mutes'
+import { buildRoomLink, readRoomCodeFromUrl, writeRoomCodeToUrl } from './net/rooms'
+import type { LeaderboardEntry, RoomJoinTarget, RoomSettings } from './net/types'
+import { useLeaderboard } from './net/useLeaderboard'
+import { useRoomBrowser } from './net/useRoomBrowser'
+import { createReplayClock } from './replay/replayClock'
+import { loadReplayFile } from './replay/replayFile'
+import type { ReplaySource } from './replay/useReplaySession'
 
 type CanvasDefaults = {
   canvas: HTMLCanvasElement
@@ -30,6 +47,11 @@ type MapCoinToast = {
 
 const EMPTY_INPUT: PlayerInput = { yawLeft: false, yawRight: false, speedbar: false }
 
+const initialRoomTarget = (): RoomJoinTarget | null => {
+  const code = readRoomCodeFromUrl()
+  return code ? { kind: 'code', code } : null
+}
+
 const formatSignedPercent = (value: number) => {
   const rounded = Math.round(value * 100) / 100
   const formatted = Number.isInteger(rounded) ? rounded.toFixed(0) : rounded.toFixed(2)
@@ -40,6 +62,7 @@ function App() {
   const PLAYER_JOINED_BANNER_MS = 1200
   const MOBILE_HINT_MS = 4200
   const MAP_COIN_TOAST_MS = 3200
+  const ROOM_LINK_COPIED_MS = 1600
   const [helpOpen, setHelpOpen] = useState(false)
   const [speedFxAmount, setSpeedFxAmount] = useState(0)
   const [touchDevice, setTouchDevice] = useState(false)
@@ -49,20 +72,47 @@ function App() {
   const [playerJoinedBannerVisible, setPlayerJoinedBannerVisible] = useState(false)
   const [pickupToast, setPickupToast] = useState<PickupToast | null>(null)
   const [mapCoinToast, setMapCoinToast] = useState<MapCoinToast | null>(null)
+  const [roomTarget, setRoomTarget] = useState<RoomJoinTarget | null>(initialRoomTarget)
+  const [lobbyError, setLobbyError] = useState<string | null>(null)
+  const [roomLinkCopied, setRoomLinkCopied] = useState(false)
+  const [replay, setReplay] = useState<ReplaySource | null>(null)
+  const [replayFollowSessionId, setReplayFollowSessionId] = useState<string | null>(null)
+  const [chatOpen, setChatOpen] = useState(false)
+  const [leaderboardWindow, setLeaderboardWindow] = useState<LeaderboardWindow>('alltime')
+  const [mutedPilots, setMutedPilots] = useState<ReadonlyMap<string, string>>(readMutedPilots)
+  const [profileNickname, setProfileNickname] = useState(readStoredNickname)
+  // First visit: ask for a nickname before the lobby instead of flying as a generated Pilot-xxxx.
+  const [profileOpen, setProfileOpen] = useState(() => readStoredNickname() === '')
+  const [dismissedResultsRound, setDismissedResultsRound] = useState(0)
   const playerJoinedTimeoutRef = useRef<number | null>(null)
   const mobileHintTimeoutRef = useRef<number | null>(null)
   const pickupToastTimeoutRef = useRef<number | null>(null)
   const mapCoinToastTimeoutRef = useRef<number | null>(null)
-  const previousCountdownRef = useRef(0)
+  const roomLinkCopiedTimeoutRef = useRef<number | null>(null)
+  const previousWaitingRef = useRef(false)
   const [hudState, setHudState] = useState<GameHudState>({
     username: 'Guest',
     holderLabel: 'Nobody',
+    orbHold: null,
     localScore: 0,
     leaderboard: [],
+    teamScores: [],
+    localTeam: NO_TEAM,
     orbCountdownRemainingMs: 0,
     waitingForSecondPlayer: false,
+    reconnecting: false,
+    room: null,
+    connectionError: null,
     mapCoinNotification: null,
     pickupNotification: null,
+    localSessionId: null,
+    chat: [],
+    sendChat: null,
+    sendRename: null,
+    task: null,
+    match: null,
+    storm: null,
+    watchNextPilot: null,
   })
   const {
     enabled: varioEnabled,
@@ -71,7 +121,137 @@ function App() {
     setAirspeed,
   } = useVarioAudio()
 
-  const mobileControlsEnabled = touchDevice && landscape && !helpOpen
+  const lobbyOpen = roomTarget === null && replay === null
+  const roomBrowser = useRoomBrowser(lobbyOpen)
+  const leaderboardPage = useLeaderboard(leaderboardWindow, !lobbyOpen && !replay)
+  const sendChat = hudState.sendChat
+  const sendRename = hudState.sendRename
+  const profileDialogOpen = profileOpen && (lobbyOpen || sendRename !== null)
+  const mobileControlsEnabled =
+    touchDevice && landscape && !helpOpen && !profileDialogOpen && !lobbyOpen && !replay
+  const chatAvailable = sendChat !== null && !lobbyOpen && !replay
+  const chatPanelOpen = chatAvailable && chatOpen
+  // All-time entries come live with the room state; the other windows are polled from the leaderboard API.
+  const hudLeaderboard = useMemo<LeaderboardEntry[]>(() => {
+    if (leaderboardWindow === 'alltime') {
+      return hudState.leaderboard
+    }
+    return (leaderboardPage?.entries ?? []).map((entry) => ({
+      sessionId: `${leaderboardWindow}-${entry.rank}`,
+      nickname: entry.nickname,
+      score: entry.score,
+    }))
+  }, [hudState.leaderboard, leaderboardPage, leaderboardWindow])
+
+  const handleHudStateChange = useCallback((hud: GameHudState) => {
+    setHudState(hud)
+    if (hud.connectionError) {
+      setLobbyError(hud.connectionError)
+      setRoomTarget(null)
+      writeRoomCodeToUrl(null)
+      return
+    }
+    if (hud.room) {
+      writeRoomCodeToUrl(hud.room.code)
+    }
+  }, [])
+
+  const joinRoom = useCallback((target: RoomJoinTarget) => {
+    // Joining settles on a nickname, generating one if the pilot skipped the profile screen.
+    setProfileNickname(getPersistentPlayerIdentity().nickname)
+    setLobbyError(null)
+    setMutedPilots(new Map())
+    setChatOpen(false)
+    setRoomTarget(target)
+  }, [])
+
+  // In the lobby there is no room to clash with, so the shared rules are all that apply.
+  const saveLobbyNickname = useCallback((nickname: string): NicknameChangeResult => {
+    const result = validateNickname(nickname)
+    if (result.ok) {
+      storeNickname(result.nickname)
+      setProfileNickname(result.nickname)
+    }
+    return result
+  }, [])
+
+  const saveRoomNickname = useCallback(
+    async (nickname: string): Promise<NicknameChangeResult> => {
+      if (!sendRename) {
+        return { ok: false, error: 'Not connected to a room.' }
+      }
+      const result = await sendRename(nickname)
+      if (result.ok) {
+        setProfileNickname(result.nickname)
+      }
+      return result
+    },
+    [sendRename],
+  )
+
+  // Mutes only hide a pilot's lines on this device; the server still delivers them.
+  const toggleMutedPilot = useCallback((playerKey: string, nickname: string) => {
+    setMutedPilots((current) => {
+      const next = new Map(current)
+      if (next.has(playerKey)) {
+        next.delete(playerKey)
+      } else {
+        next.set(playerKey, nickname)
+      }
+      return next
+    })
+  }, [])
+
+  useEffect(() => {
+    storeMutedPilots(mutedPilots)
+  }, [mutedPilots])
+
+  const leaveRoom = useCallback(() => {
+    setRoomTarget(null)
+    writeRoomCodeToUrl(null)
+  }, [])
+
+  const openReplay = useCallback(
+    async (file: File) => {
+      try {
+        const timeline = await loadReplayFile(file)
+        setLobbyError(null)
+        setVerticalSpeed(0)
+        setReplayFollowSessionId(timeline.pilots.find((pilot) => !pilot.isBot)?.sessionId ?? null)
+        setReplay({ timeline, clock: createReplayClock(timeline.durationMs) })
+      } catch (error) {
+        console.warn('[replay] could not load recording.', error)
+        setLobbyError(error instanceof Error ? error.message : 'Could not load that recording.')
+      }
+    },
+    [setVerticalSpeed],
+  )
+
+  const exitReplay = useCallback(() => {
+    setReplay(null)
+    setReplayFollowSessionId(null)
+  }, [])
+
+  const copyRoomLink = useCallback(
+    (code: string) => {
+      void navigator.clipboard
+        ?.writeText(buildRoomLink(code))
+        .then(() => {
+          setRoomLinkCopied(true)
+          if (roomLinkCopiedTimeoutRef.current !== null) {
+            window.clearTimeout(roomLinkCopiedTimeoutRef.current)
+          }
+          roomLinkCopiedTimeoutRef.current = window.setTimeout(() => {
+            setRoomLinkCopied(false)
+            roomLinkCopiedTimeoutRef.current = null
+          }, ROOM_LINK_COPIED_MS)
+        })
+        .catch((error: unknown) => {
+          console.warn('[multiplayer] could not copy room link.', error)
+        })
+    },
+    [ROOM_LINK_COPIED_MS],
+  )
 
   useEffect(() => {
     const updateMobileState = () => {
@@ -137,12 +317,32 @@ function App() {
   }, [helpOpen])
 
   useEffect(() => {
-    const previousCountdown = previousCountdownRef.current
-    const currentCountdown = hudState.orbCountdownRemainingMs
-    const countdownStarted = previousCountdown <= 0 && currentCountdown > 0
-    previousCountdownRef.current = currentCountdown
+    if (!chatAvailable) {
+      return
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.key === 'Enter' &&
+        !event.repeat &&
+        !helpOpen &&
+        !profileDialogOpen &&
+        !isEditableTarget(event.target)
+      ) {
+        event.preventDefault()
+        setChatOpen(true)
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [chatAvailable, helpOpen, profileDialogOpen])
+
+  useEffect(() => {
+    // Rounds warm up again after every results screen, so only the wait for pilots ending means someone joined.
+    const previousWaiting = previousWaitingRef.current
+    const currentWaiting = hudState.waitingForSecondPlayer
+    previousWaitingRef.current = currentWaiting
 
-    if (!countdownStarted) {
+    if (!previousWaiting || currentWaiting) {
       return
     }
 
@@ -154,7 +354,7 @@ function App() {
       setPlayerJoinedBannerVisible(false)
       playerJoinedTimeoutRef.current = null
     }, PLAYER_JOINED_BANNER_MS)
-  }, [hudState.orbCountdownRemainingMs])
+  }, [hudState.waitingForSecondPlayer])
 
   useEffect(() => {
     const mapCoin = hudState.mapCoinNotification
@@ -208,6 +408,9 @@ function App() {
       if (mapCoinToastTimeoutRef.current !== null) {
         window.clearTimeout(mapCoinToastTimeoutRef.current)
       }
+      if (roomLinkCopiedTimeoutRef.current !== null) {
+        window.clearTimeout(roomLinkCopiedTimeoutRef.current)
+      }
     }
   }, [])
 
@@ -247,11 +450,14 @@ function App() {
           }}
         >
           <GameScene
+            roomTarget={roomTarget}
+            replay={replay}
+            replayFollowSessionId={replayFollowSessionId}
             onVerticalSpeed={setVerticalSpeed}
             onAirspeed={setAirspeed}
-            onHudStateChange={setHudState}
+            onHudStateChange={handleHudStateChange}
             onSpeedFxAmountChange={setSpeedFxAmount}
-            mobileInput={mobileControlsEnabled ? mobileInput : null}
+            mobileInput={lobbyOpen ? EMPTY_INPUT : mobileControlsEnabled ? mobileInput : null}
           />
         </Canvas>
       </div>
@@ -279,6 +485,33 @@ function App() {
         >
           ?
         </button>
+        {sendRename && !lobbyOpen ? (
+          <button
+            type="button"
+            className="hud-action-btn profile-toggle"
+            aria-label="Edit profile"
+            title="Edit profile"
+            onClick={() => setProfileOpen(true)}
+          >
+            <svg className="profile-toggle__icon" viewBox="0 0 24 24" aria-hidden="true" focusable="false">
+              <circle cx="12" cy="8.5" r="3.5" />
+              <path d="M5 19.5c1.2-3.4 3.8-5 7-5s5.8 1.6 7 5" />
+            </svg>
+          </button>
+        ) : null}
+        {chatAvailable ? (
+          <button
+            type="button"
+            className="hud-action-btn chat-toggle"
+            aria-label={chatPanelOpen ? 'Close chat' : 'Open chat'}
+            title="Chat (Enter)"
+            onClick={() => setChatOpen((current) => !current)}
+          >
+            <svg className="chat-toggle__icon" viewBox="0 0 24 24" aria-hidden="true" focusable="false">
+              <path d="M4 5h16v11H9l-4 3.5V16H4z" />
+            </svg>
+          </button>
+        ) : null}
         <button
           type="button"
           className="hud-action-btn sound-toggle"
@@ -304,6 +537,78 @@ function App() {
           </svg>
         </button>
       </div>
+      {replay ? (
+        <ReplayControls
+          timeline={replay.timeline}
+          clock={replay.clock}
+          followSessionId={replayFollowSessionId}
+          onFollowChange={setReplayFollowSessionId}
+          onExit={exitReplay}
+        />
+      ) : null}
+      {!lobbyOpen && !replay ? (
+        <div className="room-badge">
+          <span className="room-badge__name">{hudState.room?.name ?? 'Connecting…'}</span>
+          {hudState.room ? (
+            <button
+              type="button"
+              className="room-badge__code"
+              title="Copy invite link"
+              onClick={() => copyRoomLink(hudState.room?.code ?? '')}
+            >
+              {roomLinkCopied ? 'Link copied' : hudState.room.code}
+            </button>
+          ) : null}
+          <button type="button" className="room-badge__leave" onClick={leaveRoom}>
+            Leave
+          </button>
+        </div>
+      ) : null}
+      {profileDialogOpen && !helpOpen ? (
+        lobbyOpen ? (
+          <ProfileDialog
+            title={profileNickname ? 'Pilot profile' : 'Pick your nickname'}
+            nickname={profileNickname}
+            dismissLabel={profileNickname ? 'Cancel' : 'Skip for now'}
+            onSave={saveLobbyNickname}
+            onClose={() => setProfileOpen(false)}
+          />
+        ) : (
+          <ProfileDialog
+            title="Pilot profile"
+            nickname={hudState.username}
+            dismissLabel="Cancel"
+            onSave={saveRoomNickname}
+            onClose={() => setProfileOpen(false)}
+          />
+        )
+      ) : null}
+      {lobbyOpen && !helpOpen && !profileDialogOpen ? (
+        <RoomLobby
+          nickname={profileNickname}
+          rooms={roomBrowser.rooms}
+          listError={roomBrowser.error}
+          joinError={lobbyError}
+          onRefresh={roomBrowser.refresh}
+          onQuickPlay={() => joinRoom({ kind: 'quick' })}
+          onJoinCode={(code) => joinRoom({ kind: 'code', code })}
+          onCreateRoom={(settings: RoomSettings) => joinRoom({ kind: 'create', settings })}
+          onOpenReplay={(file) => void openReplay(file)}
+          onEditProfile={() => setProfileOpen(true)}
+        />
+      ) : null}
+      {hudState.match?.phase === 'results' &&
+      hudState.match.round !== dismissedResultsRound &&
+      !helpOpen &&
+      !profileDialogOpen &&
+      !lobbyOpen ? (
+        <RoundResults
+          match={hudState.match}
+          storm={hudState.storm !== null}
+          localSessionId={hudState.localSessionId}
+          onClose={() => setDismissedResultsRound(hudState.match?.round ?? 0)}
+        />
+      ) : null}
       {helpOpen ? (
         <div className="help-overlay" onClick={() => setHelpOpen(false)}>
           <section
@@ -322,10 +627,16 @@ function App() {
             <h2 className="help-panel__title">Help</h2>
             <div className="help-panel__section">
               <h3>Rules</h3>
-              <p>The orb appears when at least 2 players are connected, after a 10-second countdown.</p>
-              <p>The holder gains 1 point per second.</p>
+              <p>Orb matches are played in timed rounds (5 minutes by default) once at least 2 players are connected, after a short warmup and countdown.</p>
+              <p>The holder gains 1 point per second. Whoever held the orb longest when time runs out wins the round, and the next one starts after the results.</p>
+              <p>Rooms can handicap the holder with extra sink, a slower glider, a trail that gives them away or a time limit after which the orb respawns somewhere else. A steal bonus makes taking the orb from a long-time holder worth more points per second.</p>
               <p>Touching the holder steals the orb.</p>
-              <p>If the holder crashes, the orb respawns somewhere else.</p>
+              <p>If the holder crashes or leaves, the orb falls from where they lost it and anyone can catch it, even mid-air. It only respawns somewhere else if it lands in water.</p>
+              <p>Room creators can change the player limit and orb rules, or make the room private.</p>
+              <p>In team rooms every pilot on the holder's team scores together, and teammates cannot steal from each other.</p>
+              <p>Task rooms have no orb: take the start once the gate opens, fly through each turnpoint cylinder in order and reach goal in the shortest time. Crashing means starting again.</p>
+              <p>Storm rooms have no orb either: the storm closes in on a shrinking circle, sinking anyone caught outside it. Crashing eliminates you until the next round, and the last pilot flying wins.</p>
+              <p>Bots fill quiet rooms and leave as soon as more players join.</p>
               <p>Startup coins spawn around the island every 5 seconds and give a 3-second speed bonus or malus.</p>
             </div>
             <div className="help-panel__section">
@@ -333,6 +644,7 @@ function App() {
               <p><strong>A</strong> / <strong>←</strong>: turn left</p>
               <p><strong>D</strong> / <strong>→</strong>: turn right</p>
               <p><strong>Space</strong>: speedbar</p>
+              <p><strong>Enter</strong>: chat (Escape closes it)</p>
               <p><strong>Mobile:</strong> hold left/right side to turn, hold SPEEDBAR button to accelerate.</p>
             </div>
           </section>
@@ -341,21 +653,45 @@ function App() {
       <TagChaseHud
         username={hudState.username}
         holderLabel={hudState.holderLabel}
+        orbHold={hudState.orbHold}
         localScore={hudState.localScore}
-        leaderboard={hudState.leaderboard}
+        teamScores={hudState.teamScores}
+        localTeam={hudState.localTeam}
+        task={hudState.task}
+        storm={hudState.storm}
+        match={hudState.match}
+        leaderboard={hudLeaderboard}
+        leaderboardWindow={leaderboardWindow}
+        localRank={leaderboardPage?.player?.rank ?? null}
+        onLeaderboardWindowChange={setLeaderboardWindow}
         compact={touchDevice}
       />
-      {playerJoinedBannerVisible ? (
+      {hudState.reconnecting ? (
+        <div className="orb-countdown reconnecting-notice">Reconnecting…</div>
+      ) : null}
+      {!hudState.reconnecting && playerJoinedBannerVisible ? (
         <div className="orb-countdown orb-join-notice">Player joined</div>
       ) : null}
-      {!playerJoinedBannerVisible && hudState.orbCountdownRemainingMs > 0 ? (
+      {!hudState.reconnecting && !playerJoinedBannerVisible && hudState.orbCountdownRemainingMs > 0 ? (
         <div className="orb-countdown">
-          Orb in {Math.max(1, Math.ceil(hudState.orbCountdownRemainingMs / 1000))}s
+          Round starts in {Math.max(1, Math.ceil(hudState.orbCountdownRemainingMs / 1000))}s
+        </div>
+      ) : null}
+      {hudState.storm?.spectating ? (
+        <div className="spectate-bar">
+          <span>Eliminated · watching {hudState.storm.spectating}</span>
+          {hudState.watchNextPilot ? (
+            <button type="button" className="spectate-bar__next" onClick={hudState.watchNextPilot}>
+              Next pilot
+            </button>
+          ) : null}
         </div>
       ) : null}
       {hudState.waitingForSecondPlayer ? (
         <div className="waiting-player-hint">
-          Orb match will start when another player joins.
+          {(hudState.room?.orbMinPlayers ?? 2) > 2
+            ? `${hudState.storm ? 'Storm round' : 'Orb match'} will start when ${hudState.room?.orbMinPlayers} players are here.`
+            : `${hudState.storm ? 'Storm round' : 'Orb match'} will start when another player joins.`}
         </div>
       ) : null}
       {mapCoinToast ? (
@@ -376,6 +712,18 @@ function App() {
           {formatSignedPercent(pickupToast.growthPct)} by {pickupToast.startupName || 'Unknown'}
         </div>
       ) : null}
+      {chatAvailable && sendChat ? (
+        <ChatPanel
+          lines={hudState.chat}
+          open={chatPanelOpen}
+          localSessionId={hudState.localSessionId}
+          mutedPilots={mutedPilots}
+          autoFocusInput={!touchDevice}
+          onSend={sendChat}
+          onClose={() => setChatOpen(false)}
+          onToggleMute={toggleMutedPilot}
+        />
+      ) : null}
       <MobileControlsOverlay enabled={mobileControlsEnabled} onInputChange={setMobileInput} />
       {touchDevice && !landscape ? (
         <div className="mobile-rotate-hint">Rotate your device to landscape to play.</div>
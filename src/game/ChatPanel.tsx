@@ -0,0 +1,133 @@
+import { useState } from 'react'
+import type { FormEvent, KeyboardEvent } from 'react'
+import { CHAT_MESSAGE_MAX_LENGTH, CHAT_QUICK_PRESETS, normalizeChatText } from '../../shared/net'
+import type { ChatSendMessage } from '../../shared/net'
+import type { ChatLine } from '../net/types'
+
+interface ChatPanelProps {
+  lines: ChatLine[]
+  open: boolean
+  localSessionId: string | null
+  // Public player key -> nickname of pilots muted on this device.
+  mutedPilots: ReadonlyMap<string, string>
+  autoFocusInput: boolean
+  onSend: (message: ChatSendMessage) => void
+  onClose: () => void
+  onToggleMute: (playerKey: string, nickname: string) => void
+}
+
+// While closed only the latest lines float over the scene.
+const COLLAPSED_LINE_COUNT = 4
+
+export const ChatPanel = ({
+  lines,
+  open,
+  localSessionId,
+  mutedPilots,
+  autoFocusInput,
+  onSend,
+  onClose,
+  onToggleMute,
+}: ChatPanelProps) => {
+  const [draft, setDraft] = useState('')
+  const visibleLines = lines.filter((line) => !mutedPilots.has(line.playerKey))
+  const displayedLines = open ? visibleLines : visibleLines.slice(-COLLAPSED_LINE_COUNT)
+
+  const submitDraft = (event: FormEvent) => {
+    event.preventDefault()
+    const text = normalizeChatText(draft)
+    if (text) {
+      onSend({ text })
+    }
+    setDraft('')
+    onClose()
+  }
+
+  const onInputKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      onClose()
+    }
+  }
+
+  if (!open && displayedLines.length === 0) {
+    return null
+  }
+
+  return (
+    <section className={`chat-panel${open ? ' chat-panel--open' : ''}`} aria-label="Room chat">
+      <ul className="chat-panel__log" aria-live="polite">
+        {displayedLines.map((line) => (
+          <li key={line.id} className={`chat-panel__line${line.notice ? ' chat-panel__line--notice' : ''}`}>
+            {line.notice ? null : <strong className="chat-panel__nickname">{line.nickname}</strong>}
+            <span className="chat-panel__text">{line.text}</span>
+            {open && !line.notice && line.sessionId !== localSessionId ? (
+              <button
+                type="button"
+                className="chat-panel__mute"
+                title={`Mute ${line.nickname}`}
+                onClick={() => onToggleMute(line.playerKey, line.nickname)}
+              >
+                Mute
+              </button>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+      {open ? (
+        <>
+          {mutedPilots.size > 0 ? (
+            <div className="chat-panel__muted">
+              <span>Muted:</span>
+              {Array.from(mutedPilots, ([playerKey, nickname]) => (
+                <button
+                  key={playerKey}
+                  type="button"
+                  className="chat-panel__chip"
+                  title={`Unmute ${nickname}`}
+                  onClick={() => onToggleMute(playerKey, nickname)}
+                >
+                  {nickname} ×
+                </button>
+              ))}
+            </div>
+          ) : null}
+          <div className="chat-panel__presets">
+            {CHAT_QUICK_PRESETS.map((preset) => (
+              <button
+                key={preset.id}
+                type="button"
+                className="chat-panel__chip"
+                onClick={() => {
+                  onSend({ preset: preset.id })
+                  onClose()
+                }}
+              >
+                {preset.text}
+              </button>
+            ))}
+          </div>
+          <form className="chat-panel__form" onSubmit={submitDraft}>
+            <input
+              className="chat-panel__input"
+              value={draft}
+              maxLength={CHAT_MESSAGE_MAX_LENGTH}
+              placeholder="Say something…"
+              aria-label="Chat message"
+              autoComplete="off"
+              autoFocus={autoFocusInput}
+              onKeyDown={onInputKeyDown}
+              onChange={(event) => setDraft(event.target.value)}
+            />
+            <button type="submit" className="chat-panel__send">
+              Send
+            </button>
+            <button type="button" className="chat-panel__close" aria-label="Close chat" onClick={onClose}>
+              ×
+            </button>
+          </form>
+        </>
+      ) : null}
+    </section>
+  )
+}
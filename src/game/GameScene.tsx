@@ -14,13 +14,16 @@ import {
   THERMAL_CLOUD_LEAD_SECONDS,
   THERMAL_DESPAWN_DELAY_MAX_SECONDS,
   THERMAL_FADE_OUT_SECONDS,
+  THERMAL_INITIAL_SEED,
   THERMAL_RESEED_SECONDS,
+  THERMAL_SEED_STEP,
 } from './constants'
 import { FollowCamera } from './FollowCamera'
 import { useGameSpeedDebug } from './GameSpeedDebug'
 import { useRainPostFxDebug } from './RainPostFxDebug'
 import { StormPostFX } from './StormPostFX'
 import { SpeedPostFX } from './SpeedPostFX'
+import { StormWall } from './StormWall'
 import { StormZoneEffects } from './StormZoneEffects'
 import { ThermalCloudField } from './ThermalCloudField'
 import { useThermalShaderDebug } from './ThermalShaderDebugPanel'
@@ -29,15 +32,30 @@ import { useMultiplayerDebug } from './MultiplayerDebug'
 import { Player } from './Player'
 import { Orb } from './Orb'
 import { RemotePlayers } from './RemotePlayers'
+import { ReplayFollowTarget } from './ReplayFollowTarget'
 import { StartupCoins } from './StartupCoins'
+import { TaskCylinders } from './TaskCylinders'
 import { ThermalField } from './ThermalField'
 import { TerrainForest } from './TerrainForest'
-import { createProceduralIslandTerrain } from './terrain'
+import { DEFAULT_WORLD_TERRAIN_PARAMS, createProceduralIslandTerrain } from './terrain'
 import { generateThermals } from './thermals'
 import type { ThermalVisualEntry } from './thermals'
 import type { PlayerInput } from './types'
-import type { LeaderboardEntry } from '../net/types'
+import { NO_TEAM, getHolderAirspeedScale, getTeamInfo } from '../../shared/net'
+import { getTurnpointDistance } from '../../shared/world'
+import type { StormStage } from '../../shared/world'
+import type { ChatSendMessage, NicknameChangeResult, OrbHolderHandicap } from '../../shared/net'
+import type {
+  ChatLine,
+  LeaderboardEntry,
+  MatchSnapshot,
+  RoomInfoSnapshot,
+  RoomJoinTarget,
+  TeamScoreSnapshot,
+} from '../net/types'
 import { useMultiplayerSession } from '../net/useMultiplayerSession'
+import { useReplaySession } from '../replay/useReplaySession'
+import type { ReplaySource } from '../replay/useReplaySession'
 
 const SKY_RADIUS = 260
 const hashToUnit = (value: string) => {
@@ -80,10 +98,18 @@ const SkyDome = () => {
 export interface GameHudState {
   username: string
   holderLabel: string
+  // Null while nobody holds the orb.
+  orbHold: OrbHoldHudState | null
   localScore: number
   leaderboard: LeaderboardEntry[]
+  // Empty outside team rooms.
+  teamScores: TeamScoreSnapshot[]
+  localTeam: number
   orbCountdownRemainingMs: number
   waitingForSecondPlayer: boolean
+  reconnecting: boolean
+  room: RoomInfoSnapshot | null
+  connectionError: string | null
   mapCoinNotification: {
     id: string
     startupName: string
@@ -95,9 +121,82 @@ export interface GameHudState {
     endsAtMs: number
     startupName: string
   } | null
+  localSessionId: string | null
+  chat: ChatLine[]
+  // Null while there is no live room to talk to, including during replays.
+  sendChat: ((message: ChatSendMessage) => void) | null
+  sendRename: ((nickname: string) => Promise<NicknameChangeResult>) | null
+  // Null outside task rooms.
+  task: TaskHudState | null
+  // Null outside orb rooms; phaseEndsAtMs is on the local clock.
+  match: MatchSnapshot | null
+  // Null outside storm rooms.
+  storm: StormHudState | null
+  // Switches an eliminated pilot's view to the next pilot still flying; null while there is nobody else to watch.
+  watchNextPilot: (() => void) | null
+}
+
+export interface OrbHoldHudState {
+  scoreMultiplier: number
+  // When the orb drops on its own, on the local clock; null in rooms without a hold limit.
+  dropsAtMs: number | null
+}
+
+export interface StormHudState {
+  // The current stage of the circle, on the local clock; null between rounds.
+  circle: Pick<StormStage, 'stage' | 'shrinkStartsAtMs' | 'shrinkEndsAtMs'> | null
+  // Pilots still flying, out of everyone in the room.
+  survivors: number
+  pilots: number
+  // Who an eliminated local pilot is watching; null while they are still flying.
+  spectating: string | null
+}
+
+export interface TaskStanding {
+  sessionId: string
+  nickname: string
+  rank: number
+  elapsedMs: number
+  // Turnpoints made after the start.
+  turnpointsMade: number
+}
+
+// Times are on the local clock.
+export interface TaskHudState {
+  // `Start`, `TP1`, … or `Goal`; null once the pilot has made goal.
+  nextLabel: string | null
+  // Distance to the edge of the next cylinder.
+  distance: number
+  // How far to turn towards the next cylinder, positive to the right.
+  relativeBearingDeg: number
+  minAltitude: number | null
+  maxAltitude: number | null
+  rank: number
+  startedAtMs: number
+  elapsedMs: number
+  startOpensAtMs: number
+  deadlineAtMs: number
+  standings: TaskStanding[]
+}
+
+interface TaskBearing {
+  distance: number
+  relativeBearingDeg: number
+}
+
+const TASK_STANDINGS_SHOWN = 3
+
+const getTaskTurnpointLabel = (index: number, turnpointCount: number) => {
+  if (index === 0) {
+    return 'Start'
+  }
+  return index === turnpointCount - 1 ? 'Goal' : `TP${index}`
 }
 
 interface GameSceneProps {
+  roomTarget?: RoomJoinTarget | null
+  replay?: ReplaySource | null
+  replayFollowSessionId?: string | null
   onVerticalSpeed?: (verticalSpeed: number) => void
   onAirspeed?: (airspeed: number) => void
   onHudStateChange?: (hud: GameHudState) => void
@@ -106,6 +205,9 @@ interface GameSceneProps {
 }
 
 export const GameScene = ({
+  roomTarget = null,
+  replay = null,
+  replayFollowSessionId = null,
   onVerticalSpeed,
   onAirspeed,
   onHudStateChange,
@@ -118,18 +220,23 @@ export const GameScene = ({
   const sunLightRef = useRef<THREE.DirectionalLight>(null)
   const fillLightRef = useRef<THREE.DirectionalLight>(null)
   const stormFactorRef = useRef(0)
-  const terrain = useMemo(() => createProceduralIslandTerrain(), [])
   const gameSpeed = useGameSpeedDebug()
   const multiplayerDebug = useMultiplayerDebug()
   const rainPostFxConfig = useRainPostFxDebug()
   const speedPostFxConfig = useSpeedPostFxDebug()
   const { shaderConfig } = useThermalShaderDebug()
-  const multiplayer = useMultiplayerSession()
+  const liveSession = useMultiplayerSession(replay ? null : roomTarget, multiplayerDebug.interpDelayMs)
+  const replaySession = useReplaySession(replay)
+  const multiplayer = replaySession ?? liveSession
+  const terrainParams = multiplayer.terrain ?? DEFAULT_WORLD_TERRAIN_PARAMS
+  const terrain = useMemo(() => createProceduralIslandTerrain(terrainParams), [terrainParams])
+  useEffect(() => () => terrain.geometry.dispose(), [terrain])
   const [thermalSeedStep, setThermalSeedStep] = useState(0)
   const [nowSeconds, setNowSeconds] = useState(() => Date.now() * 0.001)
   const [mapCoinNotification, setMapCoinNotification] = useState<GameHudState['mapCoinNotification']>(
     null,
   )
+  const [taskBearing, setTaskBearing] = useState<TaskBearing | null>(null)
   const speedFxTargetRef = useRef(0)
   const speedFxAmountRef = useRef(0)
   const lastSpeedFxSentRef = useRef(-1)
@@ -141,28 +248,188 @@ export const GameScene = ({
         THERMAL_COUNT,
         terrain.getHeightAt,
         terrain.islandRadius,
-        5000 + thermalSeedStep * 131,
+        THERMAL_INITIAL_SEED + thermalSeedStep * THERMAL_SEED_STEP,
       ),
     [terrain, thermalSeedStep],
   )
   const thermals = multiplayer.thermals ?? localThermals
+  const inRoom = replaySession !== null || multiplayer.connected || multiplayer.reconnecting
+  const chatAvailable = replaySession === null && liveSession.connected
   const players = multiplayer.players
+  // While watching a replay the followed pilot stands in for the local one in the HUD.
   const localPlayer = useMemo(() => {
+    if (replaySession) {
+      return players.find((player) => player.sessionId === replayFollowSessionId) ?? players[0] ?? null
+    }
     if (!multiplayer.localSessionId) {
       return null
     }
     return players.find((player) => player.sessionId === multiplayer.localSessionId) ?? null
-  }, [multiplayer.localSessionId, players])
+  }, [multiplayer.localSessionId, players, replayFollowSessionId, replaySession])
   const holderLabel = useMemo(() => {
     const holderSessionId = multiplayer.orb?.holderSessionId ?? ''
     if (!holderSessionId) {
       return 'Nobody'
     }
     const holder = players.find((player) => player.sessionId === holderSessionId)
-    return holder?.nickname ?? 'Nobody'
+    if (!holder) {
+      return 'Nobody'
+    }
+    const team = getTeamInfo(holder.team)
+    return team ? `${holder.nickname} (${team.name})` : holder.nickname
   }, [multiplayer.orb?.holderSessionId, players])
+  const orbHolderSessionId = multiplayer.orbActive ? multiplayer.orb?.holderSessionId ?? '' : ''
+  const orbScoreMultiplier = multiplayer.orb?.scoreMultiplier ?? 1
+  const orbLastTransferAtMs = multiplayer.orb?.lastTransferAtMs ?? 0
+  const orbMaxHoldMs = multiplayer.room?.orbMaxHoldMs ?? 0
+  const orbHoldHud = useMemo((): OrbHoldHudState | null => {
+    if (!orbHolderSessionId) {
+      return null
+    }
+    return {
+      scoreMultiplier: orbScoreMultiplier,
+      dropsAtMs: orbMaxHoldMs > 0 ? orbLastTransferAtMs + orbMaxHoldMs - multiplayer.serverTimeOffsetMs : null,
+    }
+  }, [orbHolderSessionId, orbLastTransferAtMs, orbMaxHoldMs, orbScoreMultiplier, multiplayer.serverTimeOffsetMs])
+  const holderSinkRate = multiplayer.room?.orbHolderSinkRate ?? 0
+  const holderSlowdownPct = multiplayer.room?.orbHolderSlowdownPct ?? 0
+  const localHoldsOrb = Boolean(multiplayer.localSessionId) && orbHolderSessionId === multiplayer.localSessionId
+  const holderHandicap = useMemo((): OrbHolderHandicap | null => {
+    if (!localHoldsOrb || (holderSinkRate === 0 && holderSlowdownPct === 0)) {
+      return null
+    }
+    return { sinkRate: holderSinkRate, airspeedScale: getHolderAirspeedScale(holderSlowdownPct) }
+  }, [holderSinkRate, holderSlowdownPct, localHoldsOrb])
   const localScore = localPlayer?.currentOrbScore ?? 0
   const localUsername = localPlayer?.nickname ?? 'Guest'
+  const localTeam = localPlayer?.team ?? NO_TEAM
+  const task = multiplayer.task
+  const localTaskProgress = localPlayer?.task ?? null
+  const nextTaskTurnpoint = task && localTaskProgress ? task.turnpoints[localTaskProgress.nextTurnpoint] ?? null : null
+  const taskStandings = useMemo(
+    () =>
+      task
+        ? players
+            .filter((player) => player.task.rank > 0)
+            .sort((a, b) => a.task.rank - b.task.rank)
+            .slice(0, TASK_STANDINGS_SHOWN)
+            .map((player) => ({
+              sessionId: player.sessionId,
+              nickname: player.nickname,
+              rank: player.task.rank,
+              elapsedMs: player.task.elapsedMs,
+              turnpointsMade: player.task.nextTurnpoint - 1,
+            }))
+        : [],
+    [players, task],
+  )
+  const storm = multiplayer.storm
+  const localStorm = useMemo((): StormStage | null => {
+    if (!storm) {
+      return null
+    }
+    return {
+      ...storm,
+      shrinkStartsAtMs: storm.shrinkStartsAtMs - multiplayer.serverTimeOffsetMs,
+      shrinkEndsAtMs: storm.shrinkEndsAtMs - multiplayer.serverTimeOffsetMs,
+    }
+  }, [multiplayer.serverTimeOffsetMs, storm])
+  // Knocked out of a storm round: the glider is put away and the camera follows someone still flying.
+  const localEliminated = replaySession === null && (localPlayer?.eliminated ?? false)
+  const [spectateSessionId, setSpectateSessionId] = useState<string | null>(null)
+  const spectateCandidateKey = localEliminated
+    ? players
+        .filter((player) => !player.eliminated && player.sessionId !== multiplayer.localSessionId)
+        .map((player) => player.sessionId)
+        .join(' ')
+    : ''
+  const spectatedSessionId = useMemo(() => {
+    const candidates = spectateCandidateKey.split(' ').filter(Boolean)
+    return spectateSessionId && candidates.includes(spectateSessionId) ? spectateSessionId : candidates[0] ?? null
+  }, [spectateCandidateKey, spectateSessionId])
+  const spectatedPlayer = spectatedSessionId
+    ? players.find((player) => player.sessionId === spectatedSessionId) ?? null
+    : null
+  const spectatedNickname = spectatedPlayer?.nickname ?? null
+  const watchNextPilot = useMemo(() => {
+    const candidates = spectateCandidateKey.split(' ').filter(Boolean)
+    if (candidates.length < 2) {
+      return null
+    }
+    const nextIndex = (candidates.indexOf(spectatedSessionId ?? '') + 1) % candidates.length
+    return () => setSpectateSessionId(candidates[nextIndex])
+  }, [spectateCandidateKey, spectatedSessionId])
+  const stormSurvivors = players.filter((player) => !player.eliminated).length
+  const stormRoom = multiplayer.room?.mode === 'storm'
+  const stormHud = useMemo((): StormHudState | null => {
+    if (!stormRoom) {
+      return null
+    }
+    return {
+      circle: localStorm
+        ? {
+            stage: localStorm.stage,
+            shrinkStartsAtMs: localStorm.shrinkStartsAtMs,
+            shrinkEndsAtMs: localStorm.shrinkEndsAtMs,
+          }
+        : null,
+      survivors: stormSurvivors,
+      pilots: players.length,
+      spectating: localEliminated ? spectatedNickname ?? 'nobody' : null,
+    }
+  }, [localEliminated, localStorm, players.length, spectatedNickname, stormRoom, stormSurvivors])
+  const sendSpectate = liveSession.sendSpectate
+  const sendRespawn = liveSession.sendRespawn
+  const wasEliminatedRef = useRef(false)
+
+  useEffect(() => {
+    // Resent after a reconnect too, since the server forgets who a new socket was watching.
+    if (spectatedSessionId && liveSession.connected) {
+      sendSpectate(spectatedSessionId)
+    }
+  }, [liveSession.connected, sendSpectate, spectatedSessionId])
+
+  useEffect(() => {
+    if (localEliminated) {
+      onVerticalSpeed?.(0)
+    } else if (wasEliminatedRef.current) {
+      // Back in the air for the next round; to the server's flight checks the fresh spawn is a respawn.
+      sendRespawn()
+    }
+    wasEliminatedRef.current = localEliminated
+  }, [localEliminated, onVerticalSpeed, sendRespawn])
+
+  const taskHud = useMemo((): TaskHudState | null => {
+    if (!task || !localTaskProgress) {
+      return null
+    }
+    const toLocalMs = (serverMs: number) => (serverMs > 0 ? serverMs - multiplayer.serverTimeOffsetMs : 0)
+    return {
+      nextLabel: nextTaskTurnpoint
+        ? getTaskTurnpointLabel(localTaskProgress.nextTurnpoint, task.turnpoints.length)
+        : null,
+      distance: taskBearing?.distance ?? 0,
+      relativeBearingDeg: taskBearing?.relativeBearingDeg ?? 0,
+      minAltitude: nextTaskTurnpoint?.minAltitude ?? null,
+      maxAltitude: nextTaskTurnpoint?.maxAltitude ?? null,
+      rank: localTaskProgress.rank,
+      startedAtMs: toLocalMs(localTaskProgress.startedAtMs),
+      elapsedMs: localTaskProgress.elapsedMs,
+      startOpensAtMs: toLocalMs(task.startOpensAtMs),
+      deadlineAtMs: toLocalMs(task.deadlineAtMs),
+      standings: taskStandings,
+    }
+  }, [localTaskProgress, multiplayer.serverTimeOffsetMs, nextTaskTurnpoint, task, taskBearing, taskStandings])
+  const match = multiplayer.match
+  const matchHud = useMemo((): MatchSnapshot | null => {
+    if (!match) {
+      return null
+    }
+    return {
+      ...match,
+      phaseEndsAtMs: match.phaseEndsAtMs > 0 ? match.phaseEndsAtMs - multiplayer.serverTimeOffsetMs : 0,
+    }
+  }, [match, multiplayer.serverTimeOffsetMs])
   const localPickupSeq = localPlayer?.effect.pickup?.seq ?? 0
   const localPickupGrowthPct = localPlayer?.effect.pickup?.growthPct ?? 0
   const localPickupEndsAtMs = localPlayer?.effect.endsAtMs ?? 0
@@ -183,24 +450,57 @@ export const GameScene = ({
     onHudStateChange?.({
       username: localUsername,
       holderLabel,
+      orbHold: multiplayer.connected ? orbHoldHud : null,
       localScore,
       leaderboard: multiplayer.leaderboard,
+      teamScores: multiplayer.teamScores,
+      localTeam,
       orbCountdownRemainingMs: multiplayer.connected ? multiplayer.orbCountdownRemainingMs : 0,
-      waitingForSecondPlayer: multiplayer.connected && multiplayer.players.length === 1,
+      waitingForSecondPlayer:
+        multiplayer.connected &&
+        ((multiplayer.room?.orbEnabled ?? true) || stormRoom) &&
+        multiplayer.players.length < (multiplayer.room?.orbMinPlayers ?? 2),
+      reconnecting: multiplayer.reconnecting,
+      room: multiplayer.room,
+      connectionError: multiplayer.error,
       mapCoinNotification,
       pickupNotification: localPickupNotification,
+      localSessionId: multiplayer.localSessionId,
+      chat: liveSession.chat,
+      sendChat: chatAvailable ? liveSession.sendChat : null,
+      sendRename: chatAvailable ? liveSession.sendRename : null,
+      task: taskHud,
+      match: multiplayer.connected ? matchHud : null,
+      storm: multiplayer.connected ? stormHud : null,
+      watchNextPilot,
     })
   }, [
     holderLabel,
     localScore,
+    localTeam,
     localUsername,
     mapCoinNotification,
     localPickupNotification,
+    matchHud,
+    chatAvailable,
+    liveSession.chat,
+    liveSession.sendChat,
+    liveSession.sendRename,
     multiplayer.connected,
+    multiplayer.error,
     multiplayer.players.length,
     multiplayer.leaderboard,
+    multiplayer.localSessionId,
     multiplayer.orbCountdownRemainingMs,
+    multiplayer.reconnecting,
+    multiplayer.room,
+    multiplayer.teamScores,
     onHudStateChange,
+    orbHoldHud,
+    stormHud,
+    stormRoom,
+    taskHud,
+    watchNextPilot,
   ])
 
   useEffect(() => {
@@ -322,6 +622,29 @@ export const GameScene = ({
       lastSpeedFxSentRef.current = rounded
       onSpeedFxAmountChange?.(rounded)
     }
+
+    const pilot = playerRef.current
+    if (!pilot || !nextTaskTurnpoint) {
+      if (taskBearing) {
+        setTaskBearing(null)
+      }
+      return
+    }
+    // Gliders fly along -Z rotated by yaw, so the yaw that points at the cylinder is atan2(-dx, -dz).
+    const targetYaw = Math.atan2(pilot.position.x - nextTaskTurnpoint.x, pilot.position.z - nextTaskTurnpoint.z)
+    const turn = THREE.MathUtils.euclideanModulo(pilot.rotation.y - targetYaw + Math.PI, Math.PI * 2) - Math.PI
+    // Rounded so the HUD only re-renders when the readout actually changes.
+    const bearing = {
+      distance: Math.round(getTurnpointDistance(nextTaskTurnpoint, pilot.position.x, pilot.position.z)),
+      relativeBearingDeg: Math.round(THREE.MathUtils.radToDeg(turn) / 5) * 5,
+    }
+    if (
+      !taskBearing ||
+      bearing.distance !== taskBearing.distance ||
+      bearing.relativeBearingDeg !== taskBearing.relativeBearingDeg
+    ) {
+      setTaskBearing(bearing)
+    }
   })
 
   useEffect(() => {
@@ -348,6 +671,8 @@ export const GameScene = ({
         sunLightRef={sunLightRef}
         fillLightRef={fillLightRef}
         stormFactorRef={stormFactorRef}
+        islandRadius={terrain.islandRadius}
+        stormStage={localStorm}
         rain3DMultiplier={
           rainPostFxConfig.enabled
             ? THREE.MathUtils.clamp(rainPostFxConfig.mix3DRain, 0, 0.3)
@@ -357,24 +682,41 @@ export const GameScene = ({
       <StormPostFX stormFactorRef={stormFactorRef} config={rainPostFxConfig} />
       <SpeedPostFX amountRef={speedFxAmountRef} config={speedPostFxConfig} />
 
-      <Player
-        playerRef={playerRef}
-        terrainHeightAt={terrain.getHeightAt}
-        thermals={activeLiftThermals}
-        gameSpeed={gameSpeed}
-        speedEffectPct={localPlayer?.effect.active ? localPlayer.effect.speedPct : 0}
-        inputOverride={mobileInput}
-        onPose={multiplayer.setLocalPose}
-        onCrash={multiplayer.sendCrash}
-        onVerticalSpeed={onVerticalSpeed}
-        onAirspeed={onAirspeed}
-        onSpeedbarActiveChange={(active) => {
-          speedFxTargetRef.current = active ? 1 : 0
-        }}
+      {replaySession || localEliminated ? (
+        <ReplayFollowTarget targetRef={playerRef} player={replaySession ? localPlayer : spectatedPlayer} />
+      ) : (
+        <Player
+          playerRef={playerRef}
+          terrainHeightAt={terrain.getHeightAt}
+          islandRadius={terrain.islandRadius}
+          stormStage={localStorm}
+          spawnRingRadius={terrain.spawnRingRadius}
+          thermals={activeLiftThermals}
+          gameSpeed={gameSpeed}
+          speedEffectPct={localPlayer?.effect.active ? localPlayer.effect.speedPct : 0}
+          holderHandicap={holderHandicap}
+          poseCorrection={liveSession.poseCorrection}
+          inputOverride={mobileInput}
+          teamColor={getTeamInfo(localTeam)?.color}
+          onPose={liveSession.setLocalPose}
+          onCrash={liveSession.sendCrash}
+          onRespawn={liveSession.sendRespawn}
+          onVerticalSpeed={onVerticalSpeed}
+          onAirspeed={onAirspeed}
+          onSpeedbarActiveChange={(active) => {
+            speedFxTargetRef.current = active ? 1 : 0
+          }}
+        />
+      )}
+      <Orb
+        orb={inRoom && multiplayer.orbActive ? multiplayer.orb : null}
+        trail={multiplayer.room?.orbHolderTrail ?? false}
       />
-      <Orb orb={multiplayer.connected && multiplayer.orbActive ? multiplayer.orb : null} />
-      <StartupCoins coins={multiplayer.connected ? multiplayer.coins : []} />
+      <StartupCoins coins={inRoom ? multiplayer.coins : []} />
+      <StormWall stormStage={inRoom ? localStorm : null} />
+      <TaskCylinders task={inRoom ? task : null} nextTurnpoint={localTaskProgress?.nextTurnpoint ?? 0} />
       <RemotePlayers
+        key={replaySession ? `replay-${replaySession.seekSeq}` : 'live'}
         players={multiplayer.remotePlayers}
         smoothingMode={multiplayerDebug.smoothingMode}
         interpDelayMs={multiplayerDebug.interpDelayMs}
@@ -1,3 +1,5 @@
+import { GAME_SPEED } from './constants'
+
 export const useGameSpeedDebug = () => {
-  return 2
+  return GAME_SPEED
 }
@@ -1,15 +1,88 @@
 import { useFrame } from '@react-three/fiber'
 import { useRef } from 'react'
+import type { RefObject } from 'react'
 import * as THREE from 'three'
 import type { OrbSnapshot } from '../net/types'
 
 interface OrbProps {
   orb: OrbSnapshot | null
+  // Streak a trail behind whoever holds the orb (the `orbHolderTrail` room handicap).
+  trail?: boolean
 }
 
-export const Orb = ({ orb }: OrbProps) => {
+interface HolderTrailProps {
+  sourceRef: RefObject<THREE.Group | null>
+}
+
+// A falling orb is carried forward along its velocity for at most this long past the last patch.
+const DROP_EXTRAPOLATION_MAX_SECONDS = 0.25
+const TRAIL_SAMPLES = 64
+const TRAIL_SAMPLE_SECONDS = 0.06
+const TRAIL_COLOR = new THREE.Color('#ffb347')
+
+// The orb's recent path as fading line segments, sampled every TRAIL_SAMPLE_SECONDS (about four seconds of flight).
+// Additive blending lets the tail fade out simply by darkening its vertex colors.
+const HolderTrail = ({ sourceRef }: HolderTrailProps) => {
+  const geometryRef = useRef<THREE.BufferGeometry>(null)
+  const samplesRef = useRef(new Float32Array(TRAIL_SAMPLES * 3))
+  const sinceSampleRef = useRef(0)
+  const initializedRef = useRef(false)
+
+  useFrame((_, delta) => {
+    const source = sourceRef.current
+    const geometry = geometryRef.current
+    if (!source || !geometry) {
+      return
+    }
+    const samples = samplesRef.current
+
+    if (!initializedRef.current) {
+      const colors = new Float32Array((TRAIL_SAMPLES - 1) * 2 * 3)
+      for (let segment = 0; segment < TRAIL_SAMPLES - 1; segment += 1) {
+        for (let end = 0; end < 2; end += 1) {
+          const fade = 1 - (segment + end) / (TRAIL_SAMPLES - 1)
+          const idx = (segment * 2 + end) * 3
+          colors[idx] = TRAIL_COLOR.r * fade
+          colors[idx + 1] = TRAIL_COLOR.g * fade
+          colors[idx + 2] = TRAIL_COLOR.b * fade
+        }
+      }
+      for (let sample = 0; sample < TRAIL_SAMPLES; sample += 1) {
+        source.position.toArray(samples, sample * 3)
+      }
+      geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array((TRAIL_SAMPLES - 1) * 2 * 3), 3))
+      geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
+      initializedRef.current = true
+    }
+
+    sinceSampleRef.current += delta
+    if (sinceSampleRef.current >= TRAIL_SAMPLE_SECONDS) {
+      sinceSampleRef.current = 0
+      samples.copyWithin(3, 0, (TRAIL_SAMPLES - 1) * 3)
+    }
+    source.position.toArray(samples, 0)
+
+    const positions = geometry.getAttribute('position') as THREE.BufferAttribute
+    const segments = positions.array as Float32Array
+    for (let segment = 0; segment < TRAIL_SAMPLES - 1; segment += 1) {
+      segments.set(samples.subarray(segment * 3, segment * 3 + 6), segment * 6)
+    }
+    positions.needsUpdate = true
+  })
+
+  return (
+    <lineSegments frustumCulled={false}>
+      <bufferGeometry ref={geometryRef} />
+      <lineBasicMaterial vertexColors transparent blending={THREE.AdditiveBlending} depthWrite={false} />
+    </lineSegments>
+  )
+}
+
+export const Orb = ({ orb, trail = false }: OrbProps) => {
   const rootRef = useRef<THREE.Group>(null)
   const elapsedRef = useRef(0)
+  const snapshotRef = useRef<OrbSnapshot | null>(null)
+  const snapshotAtRef = useRef(0)
 
   useFrame((_, delta) => {
     const root = rootRef.current
@@ -17,13 +90,19 @@ export const Orb = ({ orb }: OrbProps) => {
       return
     }
     elapsedRef.current += delta
+    if (snapshotRef.current !== orb) {
+      snapshotRef.current = orb
+      snapshotAtRef.current = elapsedRef.current
+    }
 
     const t = elapsedRef.current
-    const bob = Math.sin(t * 2.1) * 0.18
-    const target = new THREE.Vector3(orb.x, orb.y + bob, orb.z)
+    const falling = orb.dropped && (orb.vx !== 0 || orb.vy !== 0 || orb.vz !== 0)
+    const ahead = falling ? Math.min(t - snapshotAtRef.current, DROP_EXTRAPOLATION_MAX_SECONDS) : 0
+    const bob = falling ? 0 : Math.sin(t * 2.1) * 0.18
+    const target = new THREE.Vector3(orb.x + orb.vx * ahead, orb.y + orb.vy * ahead + bob, orb.z + orb.vz * ahead)
     const blend = 1 - Math.exp(-18 * delta)
     root.position.lerp(target, blend)
-    root.rotation.y += delta * 1.7
+    root.rotation.y += delta * (falling ? 4.2 : 1.7)
     root.rotation.x = Math.sin(t * 1.3) * 0.08
   })
 
@@ -35,32 +114,35 @@ export const Orb = ({ orb }: OrbProps) => {
   const beamHeight = Math.max(orb.y + 10, 56)
 
   return (
-    <group ref={rootRef} position={[orb.x, orb.y, orb.z]}>
-      {!held ? (
-        <mesh position={[0, -beamHeight * 0.5 + 0.4, 0]}>
-          <cylinderGeometry args={[0.22, 0.65, beamHeight, 12, 1, true]} />
-          <meshBasicMaterial color="#8de6ff" transparent opacity={0.2} depthWrite={false} />
+    <>
+      {trail && held ? <HolderTrail key={orb.holderSessionId} sourceRef={rootRef} /> : null}
+      <group ref={rootRef} position={[orb.x, orb.y, orb.z]}>
+        {!held ? (
+          <mesh position={[0, -beamHeight * 0.5 + 0.4, 0]}>
+            <cylinderGeometry args={[0.22, 0.65, beamHeight, 12, 1, true]} />
+            <meshBasicMaterial color="#8de6ff" transparent opacity={0.2} depthWrite={false} />
+          </mesh>
+        ) : null}
+        <mesh castShadow>
+          <icosahedronGeometry args={[0.62, 1]} />
+          <meshStandardMaterial
+            color={held ? '#ffd15f' : '#9de2ff'}
+            emissive={held ? '#ff9a3d' : '#70c8ff'}
+            emissiveIntensity={held ? 0.7 : 0.45}
+            roughness={0.28}
+            metalness={0.18}
+            flatShading
+          />
+        </mesh>
+        <mesh rotation={[Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[1.08, 0.06, 10, 30]} />
+          <meshBasicMaterial color={held ? '#ffd88a' : '#b5edff'} transparent opacity={0.72} />
+        </mesh>
+        <mesh rotation={[0.35, 0.9, 0]}>
+          <torusGeometry args={[1.34, 0.035, 10, 32]} />
+          <meshBasicMaterial color={held ? '#ffbe58' : '#86d7ff'} transparent opacity={0.45} />
         </mesh>
-      ) : null}
-      <mesh castShadow>
-        <icosahedronGeometry args={[0.62, 1]} />
-        <meshStandardMaterial
-          color={held ? '#ffd15f' : '#9de2ff'}
-          emissive={held ? '#ff9a3d' : '#70c8ff'}
-          emissiveIntensity={held ? 0.7 : 0.45}
-          roughness={0.28}
-          metalness={0.18}
-          flatShading
-        />
-      </mesh>
-      <mesh rotation={[Math.PI / 2, 0, 0]}>
-        <torusGeometry args={[1.08, 0.06, 10, 30]} />
-        <meshBasicMaterial color={held ? '#ffd88a' : '#b5edff'} transparent opacity={0.72} />
-      </mesh>
-      <mesh rotation={[0.35, 0.9, 0]}>
-        <torusGeometry args={[1.34, 0.035, 10, 32]} />
-        <meshBasicMaterial color={held ? '#ffbe58' : '#86d7ff'} transparent opacity={0.45} />
-      </mesh>
-    </group>
+      </group>
+    </>
   )
 }
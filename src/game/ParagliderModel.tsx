@@ -18,6 +18,8 @@ import {
 interface ParagliderModelProps {
   bankRef: RefObject<number>
   speedbarRef: RefObject<boolean>
+  // Canopy color of the pilot's team; the default stripes are used outside team rooms.
+  teamColor?: string | null
 }
 
 interface CellDescriptor {
@@ -58,7 +60,13 @@ const RISER_HEAD_CENTER = new THREE.Vector3(
   0.02,
 )
 
-const createCellDescriptors = (): CellDescriptor[] => {
+// The team color alternates with a lighter tint of itself so the cells stay readable.
+const getCanopyColors = (teamColor: string | null) =>
+  teamColor
+    ? [teamColor, new THREE.Color(teamColor).offsetHSL(0, 0, 0.14).getStyle(), teamColor]
+    : CANOPY_COLORS
+
+const createCellDescriptors = (canopyColors: readonly string[]): CellDescriptor[] => {
   const halfSpan = PARAGLIDER_SPAN * 0.5
   const baseCellWidth = PARAGLIDER_SPAN / PARAGLIDER_CELL_COUNT
 
@@ -71,7 +79,7 @@ const createCellDescriptors = (): CellDescriptor[] => {
     const yaw = (x / Math.max(halfSpan, Number.EPSILON)) * 0.19
     const width = baseCellWidth * 0.96
     const depth = PARAGLIDER_CHORD * THREE.MathUtils.lerp(1, 0.76, sideT)
-    const color = CANOPY_COLORS[index % CANOPY_COLORS.length]
+    const color = canopyColors[index % canopyColors.length]
     const shade = new THREE.Color(color).offsetHSL(0, -0.1, -0.14).getStyle()
     return { id: index, x, y, z, pitch, yaw, width, depth, color, shade }
   })
@@ -122,7 +130,7 @@ const createLineGeometry = (cells: CellDescriptor[]) => {
   return geometry
 }
 
-export const ParagliderModel = ({ bankRef, speedbarRef }: ParagliderModelProps) => {
+export const ParagliderModel = ({ bankRef, speedbarRef, teamColor = null }: ParagliderModelProps) => {
   const rigRef = useRef<THREE.Group>(null)
   const elapsedRef = useRef(0)
   const bankSmoothRef = useRef(0)
@@ -135,7 +143,7 @@ export const ParagliderModel = ({ bankRef, speedbarRef }: ParagliderModelProps)
   const leftStrapRef = useRef<THREE.Group>(null)
   const rightStrapRef = useRef<THREE.Group>(null)
 
-  const cells = useMemo(() => createCellDescriptors(), [])
+  const cells = useMemo(() => createCellDescriptors(getCanopyColors(teamColor)), [teamColor])
   const lineGeometry = useMemo(() => createLineGeometry(cells), [cells])
 
   useFrame((_, delta) => {
@@ -3,27 +3,27 @@ import { useEffect, useMemo, useRef } from 'react'
 import type { RefObject } from 'react'
 import * as THREE from 'three'
 import {
-  EDGE_SINK_CURVE_EXP,
-  EDGE_SINK_MAX,
-  EDGE_SINK_START_RATIO,
-  FORWARD_SPEED,
+  getGliderAirspeed,
+  getGliderSinkRate,
+  getStormCircle,
+  getStormGlideZone,
+  getThermalClimbRate,
+} from '../../shared/world'
+import type { OrbHolderHandicap, PoseCorrection } from '../../shared/net'
+import type { StormStage } from '../../shared/world'
+import {
   MIN_ALTITUDE,
   PLAYER_CLEARANCE,
-  SINK_RATE,
-  SPEEDBAR_BOOST,
-  SPEEDBAR_SINK_BOOST,
-  STORM_MAX_TOTAL_SINK,
-  STORM_START_RATIO,
+  SPAWN_BASE_XZ,
+  SPAWN_RING_RADIUS,
   TERRAIN_ISLAND_RADIUS,
   TERRAIN_SIZE,
   TERRAIN_WATER_LEVEL,
-  THERMAL_LIFT_MULTIPLIER,
   YAW_RATE,
 } from './constants'
 import { ParagliderModel } from './ParagliderModel'
 import { computeSafeSpawn } from './spawn'
 import type { ThermalColumn } from './thermals'
-import { getThermalLiftAtPoint } from './thermals'
 import { useKeyboard } from './useKeyboard'
 import type { PlayerInput } from './types'
 import type { LocalPoseMessage } from '../net/types'
@@ -31,46 +31,76 @@ import type { LocalPoseMessage } from '../net/types'
 export interface PlayerProps {
   playerRef: RefObject<THREE.Group | null>
   terrainHeightAt?: (x: number, z: number) => number
+  islandRadius?: number
+  // A live storm round's circle, on the local clock; its edge takes over from the island's shoreline sink.
+  stormStage?: StormStage | null
+  spawnRingRadius?: number
   thermals?: ThermalColumn[]
   gameSpeed?: number
   speedEffectPct?: number
+  // Set while the local pilot holds the orb in a room with holder handicaps.
+  holderHandicap?: OrbHolderHandicap | null
+  // The server's answer to poses it rejected: fly on from its position, or from the spawn ring.
+  poseCorrection?: PoseCorrection | null
   onPose?: (pose: LocalPoseMessage) => void
   onCrash?: () => void
+  onRespawn?: () => void
   onVerticalSpeed?: (verticalSpeed: number) => void
   onAirspeed?: (airspeed: number) => void
   onSpeedbarActiveChange?: (active: boolean) => void
   inputOverride?: PlayerInput | null
+  teamColor?: string | null
 }
 
 export const Player = ({
   playerRef,
   terrainHeightAt,
+  islandRadius = TERRAIN_ISLAND_RADIUS,
+  stormStage = null,
+  spawnRingRadius = SPAWN_RING_RADIUS,
   thermals = [],
   gameSpeed = 1,
   speedEffectPct = 0,
+  holderHandicap = null,
+  poseCorrection = null,
   onPose,
   onCrash,
+  onRespawn,
   onVerticalSpeed,
   onAirspeed,
   onSpeedbarActiveChange,
   inputOverride = null,
+  teamColor = null,
 }: PlayerProps) => {
   const WATER_SURFACE_Y = TERRAIN_WATER_LEVEL
   const WATER_RESPAWN_DEPTH = 0.25
   const keyboardInput = useKeyboard()
   const direction = useMemo(() => new THREE.Vector3(), [])
   const initialSpawn = useMemo(
-    () => computeSafeSpawn(terrainHeightAt),
-    [terrainHeightAt],
+    () => computeSafeSpawn(terrainHeightAt, SPAWN_BASE_XZ, spawnRingRadius),
+    [terrainHeightAt, spawnRingRadius],
   )
   const yawRef = useRef(initialSpawn.yaw)
+  const spawnedTerrainRef = useRef(terrainHeightAt)
   const bankRef = useRef(0)
   const speedbarRef = useRef(false)
+  const appliedCorrectionRef = useRef<PoseCorrection | null>(null)
   const waterRadius = TERRAIN_SIZE * 0.9
-  const sinkStartRadius =
-    TERRAIN_ISLAND_RADIUS + (waterRadius - TERRAIN_ISLAND_RADIUS) * EDGE_SINK_START_RATIO
-  const stormStartRadius =
-    TERRAIN_ISLAND_RADIUS + (waterRadius - TERRAIN_ISLAND_RADIUS) * STORM_START_RATIO
+
+  useEffect(() => {
+    // A new island (room terrain arrived or changed) invalidates the current position, so start over on its spawn ring.
+    if (spawnedTerrainRef.current === terrainHeightAt) {
+      return
+    }
+    spawnedTerrainRef.current = terrainHeightAt
+    const player = playerRef.current
+    if (!player) {
+      return
+    }
+    player.position.copy(initialSpawn.position)
+    yawRef.current = initialSpawn.yaw
+    onRespawn?.()
+  }, [initialSpawn, onRespawn, playerRef, terrainHeightAt])
 
   useFrame((_, delta) => {
     const player = playerRef.current
@@ -78,6 +108,17 @@ export const Player = ({
       return
     }
 
+    if (poseCorrection && poseCorrection !== appliedCorrectionRef.current) {
+      appliedCorrectionRef.current = poseCorrection
+      if (poseCorrection.respawn) {
+        const safeSpawn = computeSafeSpawn(terrainHeightAt, SPAWN_BASE_XZ, spawnRingRadius)
+        player.position.copy(safeSpawn.position)
+        yawRef.current = safeSpawn.yaw
+      } else {
+        player.position.set(poseCorrection.x, poseCorrection.y, poseCorrection.z)
+      }
+    }
+
     const input = inputOverride ?? keyboardInput
 
     const scaledDelta = delta * gameSpeed
@@ -100,39 +141,21 @@ export const Player = ({
     direction.applyAxisAngle(THREE.Object3D.DEFAULT_UP, yawRef.current)
     direction.normalize()
 
-    const baseSpeed = FORWARD_SPEED + (input.speedbar ? SPEEDBAR_BOOST : 0)
-    const currentSpeed = baseSpeed * (1 + speedEffectPct / 100)
-    const currentSink = SINK_RATE + (input.speedbar ? SPEEDBAR_SINK_BOOST : 0)
-    const distanceFromCenter = Math.hypot(player.position.x, player.position.z)
-    const edgeSinkT = THREE.MathUtils.clamp(
-      (distanceFromCenter - sinkStartRadius) / Math.max(waterRadius - sinkStartRadius, 1),
-      0,
-      1,
+    const currentSpeed = getGliderAirspeed(input.speedbar, speedEffectPct) * (holderHandicap?.airspeedScale ?? 1)
+    const zone = stormStage
+      ? getStormGlideZone(getStormCircle(stormStage, Date.now()), player.position.x, player.position.z)
+      : { distanceFromCenter: Math.hypot(player.position.x, player.position.z), islandRadius, waterRadius }
+    const totalSink =
+      getGliderSinkRate(input.speedbar, zone.distanceFromCenter, zone.islandRadius, zone.waterRadius) +
+      (holderHandicap?.sinkRate ?? 0)
+    const thermalClimb = getThermalClimbRate(
+      thermals,
+      player.position.x,
+      player.position.y,
+      player.position.z,
+      Date.now() * 0.001,
     )
-    const edgeSink = EDGE_SINK_MAX * Math.pow(edgeSinkT, EDGE_SINK_CURVE_EXP)
-    const stormT = THREE.MathUtils.clamp(
-      (distanceFromCenter - stormStartRadius) / Math.max(waterRadius - stormStartRadius, 1),
-      0,
-      1,
-    )
-    const uncappedSink = currentSink + edgeSink
-    const sinkCap = THREE.MathUtils.lerp(1000, STORM_MAX_TOTAL_SINK, stormT)
-    const totalSink = Math.min(uncappedSink, sinkCap)
-    let thermalLift = 0
-    const nowSeconds = Date.now() * 0.001
-
-    for (const thermal of thermals) {
-      if (nowSeconds < thermal.activationAt) {
-        continue
-      }
-      thermalLift += getThermalLiftAtPoint(
-        thermal,
-        player.position.x,
-        player.position.y,
-        player.position.z,
-      )
-    }
-    const netVerticalSpeed = thermalLift * THERMAL_LIFT_MULTIPLIER - totalSink
+    const netVerticalSpeed = thermalClimb - totalSink
 
     player.position.addScaledVector(direction, currentSpeed * scaledDelta)
     player.position.y += netVerticalSpeed * scaledDelta
@@ -151,7 +174,7 @@ export const Player = ({
 
     if (player.position.y <= impactAltitude) {
       onCrash?.()
-      const safeSpawn = computeSafeSpawn(terrainHeightAt)
+      const safeSpawn = computeSafeSpawn(terrainHeightAt, SPAWN_BASE_XZ, spawnRingRadius)
       player.position.copy(safeSpawn.position)
       yawRef.current = safeSpawn.yaw
     }
@@ -181,7 +204,7 @@ export const Player = ({
   return (
     <group ref={playerRef} position={initialSpawn.position.toArray()}>
       <group scale={0.58}>
-        <ParagliderModel bankRef={bankRef} speedbarRef={speedbarRef} />
+        <ParagliderModel bankRef={bankRef} speedbarRef={speedbarRef} teamColor={teamColor} />
       </group>
     </group>
   )
@@ -0,0 +1,80 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { NICKNAME_MAX_LENGTH, validateNickname } from '../../shared/net'
+import type { NicknameChangeResult } from '../../shared/net'
+
+interface ProfileDialogProps {
+  title: string
+  nickname: string
+  dismissLabel: string
+  // Resolves with the server's answer in a room, or the local check in the lobby.
+  onSave: (nickname: string) => Promise<NicknameChangeResult> | NicknameChangeResult
+  onClose: () => void
+}
+
+export const ProfileDialog = ({ title, nickname, dismissLabel, onSave, onClose }: ProfileDialogProps) => {
+  const [draft, setDraft] = useState(nickname)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+    // Catch the obvious mistakes here; reserved names and clashes are only known to the server.
+    const checked = validateNickname(draft)
+    if (!checked.ok) {
+      setError(checked.error)
+      return
+    }
+    setSaving(true)
+    const result = await onSave(checked.nickname)
+    setSaving(false)
+    if (result.ok) {
+      onClose()
+      return
+    }
+    setError(result.error)
+  }
+
+  return (
+    <div className="help-overlay room-lobby-overlay" onClick={onClose}>
+      <section
+        className="help-panel room-lobby"
+        aria-label="Pilot profile"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h2 className="help-panel__title">{title}</h2>
+        <form className="help-panel__section" onSubmit={(event) => void submit(event)}>
+          <h3>Nickname</h3>
+          <div className="room-lobby__row">
+            <input
+              className="room-lobby__input"
+              value={draft}
+              maxLength={NICKNAME_MAX_LENGTH}
+              placeholder="Your pilot name"
+              aria-label="Nickname"
+              autoComplete="off"
+              autoFocus
+              onKeyDown={(event) => {
+                if (event.key === 'Escape') {
+                  onClose()
+                }
+              }}
+              onChange={(event) => {
+                setDraft(event.target.value)
+                setError(null)
+              }}
+            />
+            <button type="submit" className="room-lobby__button" disabled={saving}>
+              {saving ? 'Saving…' : 'Save'}
+            </button>
+          </div>
+          {error ? <p className="room-lobby__error">{error}</p> : null}
+          <p className="room-lobby__empty">Shown to other pilots and on the leaderboards.</p>
+        </form>
+        <button type="button" className="room-lobby__link" onClick={onClose}>
+          {dismissLabel}
+        </button>
+      </section>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
+import { getTeamInfo } from '../../shared/net'
 import { ParagliderModel } from './ParagliderModel'
 import type { RemotePlayerSnapshot } from '../net/types'
 import type { RemoteSmoothingMode } from './MultiplayerDebug'
@@ -15,6 +16,9 @@ interface RemotePlayersProps {
 const DEFAULT_INTERP_DELAY_MS = 190
 const DEFAULT_MAX_EXTRAPOLATION_MS = 110
 const MAX_SNAPSHOTS = 28
+const MODEL_SCALE = 0.58
+// Rate at which gliders grow in or shrink away as they enter or leave the server's relevant set.
+const VISIBILITY_FADE_RATE = 6
 
 interface PoseSnapshot {
   t: number
@@ -114,6 +118,20 @@ const RemoteGlider = ({
   const snapshotsRef = useRef<PoseSnapshot[]>([])
   const targetPositionRef = useRef(new THREE.Vector3(snapshot.x, snapshot.y, snapshot.z))
   const targetYawRef = useRef(snapshot.yaw)
+  const modelRef = useRef<THREE.Group>(null)
+  const visibilityRef = useRef(0)
+  const inViewRef = useRef(snapshot.inView)
+  const snapToTargetRef = useRef(false)
+
+  useEffect(() => {
+    // Coming back into view after a gap: drop the stale history and jump straight to the new pose
+    // while the glider is still scaled down, rather than sliding across the map.
+    if (snapshot.inView && !inViewRef.current) {
+      snapshotsRef.current = []
+      snapToTargetRef.current = true
+    }
+    inViewRef.current = snapshot.inView
+  }, [snapshot.inView])
 
   useEffect(() => {
     const entry: PoseSnapshot = {
@@ -127,7 +145,7 @@ const RemoteGlider = ({
     }
     const snapshots = snapshotsRef.current
     const last = snapshots[snapshots.length - 1]
-    if (!last || entry.t >= last.t) {
+    if (!last || entry.t > last.t) {
       snapshots.push(entry)
       if (snapshots.length > MAX_SNAPSHOTS) {
         snapshots.splice(0, snapshots.length - MAX_SNAPSHOTS)
@@ -215,15 +233,35 @@ const RemoteGlider = ({
     bankRef.current = bank
     speedbarRef.current = speedbar
 
-    const blend = 1 - Math.exp(-14 * delta)
-    group.position.lerp(targetPositionRef.current, blend)
-    group.rotation.y = lerpAngle(group.rotation.y, targetYawRef.current, blend)
+    if (snapToTargetRef.current) {
+      snapToTargetRef.current = false
+      group.position.copy(targetPositionRef.current)
+      group.rotation.y = targetYawRef.current
+    } else {
+      const blend = 1 - Math.exp(-14 * delta)
+      group.position.lerp(targetPositionRef.current, blend)
+      group.rotation.y = lerpAngle(group.rotation.y, targetYawRef.current, blend)
+    }
+
+    const visibilityTarget = inViewRef.current ? 1 : 0
+    const visibility = THREE.MathUtils.lerp(
+      visibilityRef.current,
+      visibilityTarget,
+      1 - Math.exp(-VISIBILITY_FADE_RATE * delta),
+    )
+    visibilityRef.current = Math.abs(visibility - visibilityTarget) < 0.002 ? visibilityTarget : visibility
+    group.visible = visibilityRef.current > 0
+    modelRef.current?.scale.setScalar(MODEL_SCALE * visibilityRef.current)
   })
 
   return (
     <group ref={groupRef} position={[snapshot.x, snapshot.y, snapshot.z]} rotation={[0, snapshot.yaw, 0]}>
-      <group scale={0.58}>
-        <ParagliderModel bankRef={bankRef} speedbarRef={speedbarRef} />
+      <group ref={modelRef} scale={0}>
+        <ParagliderModel
+          bankRef={bankRef}
+          speedbarRef={speedbarRef}
+          teamColor={getTeamInfo(snapshot.team)?.color}
+        />
       </group>
     </group>
   )
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react'
+import { REPLAY_SPEEDS } from '../replay/replayClock'
+import type { ReplayClock, ReplayClockSnapshot } from '../replay/replayClock'
+import type { ReplayTimeline } from '../replay/replayFile'
+
+interface ReplayControlsProps {
+  timeline: ReplayTimeline
+  clock: ReplayClock
+  followSessionId: string | null
+  onFollowChange: (sessionId: string) => void
+  onExit: () => void
+}
+
+const CLOCK_DISPLAY_REFRESH_MS = 200
+const SEEK_STEP_MS = 50
+
+const formatReplayTime = (timeMs: number) => {
+  const totalSeconds = Math.floor(timeMs / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+const useReplayClockSnapshot = (clock: ReplayClock) => {
+  const [snapshot, setSnapshot] = useState<ReplayClockSnapshot>(() => clock.getSnapshot())
+
+  useEffect(() => {
+    const refresh = () => setSnapshot(clock.getSnapshot())
+    const unsubscribe = clock.subscribe(refresh)
+    const timer = window.setInterval(refresh, CLOCK_DISPLAY_REFRESH_MS)
+    return () => {
+      unsubscribe()
+      window.clearInterval(timer)
+    }
+  }, [clock])
+
+  return snapshot
+}
+
+export const ReplayControls = ({
+  timeline,
+  clock,
+  followSessionId,
+  onFollowChange,
+  onExit,
+}: ReplayControlsProps) => {
+  const { timeMs, playing, speed } = useReplayClockSnapshot(clock)
+  const atEnd = timeMs >= clock.durationMs
+
+  return (
+    <section className="replay-controls" aria-label="Replay controls">
+      <div className="replay-controls__row">
+        <span className="replay-controls__title">Replay · {timeline.header.roomName}</span>
+        <button type="button" className="replay-controls__button" onClick={onExit}>
+          Exit
+        </button>
+      </div>
+      <div className="replay-controls__row">
+        <button
+          type="button"
+          className="replay-controls__button replay-controls__button--play"
+          onClick={() => (playing && !atEnd ? clock.pause() : clock.play())}
+        >
+          {playing && !atEnd ? 'Pause' : 'Play'}
+        </button>
+        <input
+          className="replay-controls__seek"
+          type="range"
+          min={0}
+          max={clock.durationMs}
+          step={SEEK_STEP_MS}
+          value={timeMs}
+          aria-label="Seek"
+          onChange={(event) => clock.seek(Number(event.target.value))}
+        />
+        <span className="replay-controls__time">
+          {formatReplayTime(timeMs)} / {formatReplayTime(clock.durationMs)}
+        </span>
+      </div>
+      <div className="replay-controls__row">
+        <label className="replay-controls__field">
+          <span>Speed</span>
+          <select value={speed} onChange={(event) => clock.setSpeed(Number(event.target.value))}>
+            {REPLAY_SPEEDS.map((option) => (
+              <option key={option} value={option}>
+                {option}×
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="replay-controls__field">
+          <span>Follow</span>
+          <select value={followSessionId ?? ''} onChange={(event) => onFollowChange(event.target.value)}>
+            {timeline.pilots.map((pilot) => (
+              <option key={pilot.sessionId} value={pilot.sessionId}>
+                {pilot.nickname}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react'
+import type { RefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import type { PlayerSnapshot } from '../net/types'
+
+interface ReplayFollowTargetProps {
+  targetRef: RefObject<THREE.Group | null>
+  player: PlayerSnapshot | null
+}
+
+const FOLLOW_RESPONSE = 10
+const FOLLOW_SNAP_DISTANCE = 30
+
+// Invisible stand-in for the local glider while watching a replay: the follow camera and storm
+// effects track it, and it glides after whichever recorded pilot is selected.
+export const ReplayFollowTarget = ({ targetRef, player }: ReplayFollowTargetProps) => {
+  const goalPositionRef = useRef(new THREE.Vector3())
+  const goalYawRef = useRef(0)
+  const hasGoalRef = useRef(false)
+
+  useEffect(() => {
+    if (!player) {
+      hasGoalRef.current = false
+      return
+    }
+    goalPositionRef.current.set(player.x, player.y, player.z)
+    goalYawRef.current = player.yaw
+    hasGoalRef.current = true
+  }, [player])
+
+  useFrame((_, delta) => {
+    const group = targetRef.current
+    if (!group || !hasGoalRef.current) {
+      return
+    }
+    if (group.position.distanceTo(goalPositionRef.current) > FOLLOW_SNAP_DISTANCE) {
+      group.position.copy(goalPositionRef.current)
+      group.rotation.y = goalYawRef.current
+      return
+    }
+    const blend = 1 - Math.exp(-FOLLOW_RESPONSE * delta)
+    group.position.lerp(goalPositionRef.current, blend)
+    const yawDelta = goalYawRef.current - group.rotation.y
+    group.rotation.y += Math.atan2(Math.sin(yawDelta), Math.cos(yawDelta)) * blend
+  })
+
+  return <group ref={targetRef} />
+}
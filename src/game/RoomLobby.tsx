@@ -0,0 +1,396 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import {
+  ORB_HOLDER_SINK_RATE_MAX,
+  ORB_HOLDER_SLOWDOWN_PCT_MAX,
+  ORB_MAX_HOLD_MS_MAX,
+  ORB_MAX_HOLD_MS_MIN,
+  ORB_STEAL_BONUS_PCT_MAX,
+  ROUND_MINUTES_DEFAULT,
+  ROUND_MINUTES_MAX,
+  ROUND_MINUTES_MIN,
+  TEAM_COUNT_MAX,
+  TEAM_COUNT_MIN,
+} from '../../shared/net'
+import type { GameMode } from '../../shared/net'
+import { ROOM_CODE_LENGTH, ROOM_MAX_PLAYERS, normalizeRoomCode } from '../net/rooms'
+import type { BotDifficulty, RoomListing, RoomSettings } from '../net/types'
+
+interface RoomLobbyProps {
+  nickname: string
+  rooms: RoomListing[]
+  listError: string | null
+  joinError: string | null
+  onRefresh: () => void
+  onQuickPlay: () => void
+  onJoinCode: (code: string) => void
+  onCreateRoom: (settings: RoomSettings) => void
+  onOpenReplay: (file: File) => void
+  onEditProfile: () => void
+}
+
+const DEFAULT_SETTINGS: RoomSettings = {
+  roomName: '',
+  private: false,
+  maxPlayers: 12,
+  orbEnabled: true,
+  orbMinPlayers: 2,
+  orbStealCooldownMs: 1000,
+  orbHolderSinkRate: 0,
+  orbHolderSlowdownPct: 0,
+  orbHolderTrail: false,
+  orbStealBonusPct: 0,
+  orbMaxHoldMs: 0,
+  bots: true,
+  botDifficulty: 'normal',
+  mode: 'ffa',
+  teamCount: TEAM_COUNT_MIN,
+  roundMinutes: ROUND_MINUTES_DEFAULT,
+}
+
+const BOT_DIFFICULTY_OPTIONS: { value: BotDifficulty; label: string }[] = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'hard', label: 'Hard' },
+]
+
+const GAME_MODE_OPTIONS: { value: GameMode; label: string }[] = [
+  { value: 'ffa', label: 'Free-for-all' },
+  { value: 'teams', label: 'Teams' },
+  { value: 'task', label: 'Cross-country task' },
+  { value: 'storm', label: 'Storm survival' },
+]
+
+export const RoomLobby = ({
+  nickname,
+  rooms,
+  listError,
+  joinError,
+  onRefresh,
+  onQuickPlay,
+  onJoinCode,
+  onCreateRoom,
+  onOpenReplay,
+  onEditProfile,
+}: RoomLobbyProps) => {
+  const [codeInput, setCodeInput] = useState('')
+  const [codeError, setCodeError] = useState<string | null>(null)
+  const [settings, setSettings] = useState<RoomSettings>(DEFAULT_SETTINGS)
+
+  const orbMode = settings.mode === 'ffa' || settings.mode === 'teams'
+
+  const updateSettings = (patch: Partial<RoomSettings>) => {
+    setSettings((current) => ({ ...current, ...patch }))
+  }
+
+  const submitCode = (event: FormEvent) => {
+    event.preventDefault()
+    const code = normalizeRoomCode(codeInput)
+    if (!code) {
+      setCodeError(`Join codes are ${ROOM_CODE_LENGTH} letters or digits.`)
+      return
+    }
+    setCodeError(null)
+    onJoinCode(code)
+  }
+
+  const submitCreate = (event: FormEvent) => {
+    event.preventDefault()
+    onCreateRoom({
+      ...settings,
+      roomName: settings.roomName.trim(),
+      orbMinPlayers: Math.min(settings.orbMinPlayers, settings.maxPlayers),
+    })
+  }
+
+  return (
+    <div className="help-overlay room-lobby-overlay">
+      <section className="help-panel room-lobby" aria-label="Choose a room">
+        <h2 className="help-panel__title">Choose a sky</h2>
+        <div className="room-lobby__heading">
+          <p className="room-lobby__pilot">
+            Flying as <strong>{nickname || 'a new pilot'}</strong>
+          </p>
+          <button type="button" className="room-lobby__link" onClick={onEditProfile}>
+            Change
+          </button>
+        </div>
+        {joinError ? <p className="room-lobby__error">{joinError}</p> : null}
+        <button type="button" className="room-lobby__primary" onClick={onQuickPlay}>
+          Quick play
+        </button>
+
+        <div className="help-panel__section">
+          <h3>Join with code</h3>
+          <form className="room-lobby__row" onSubmit={submitCode}>
+            <input
+              className="room-lobby__input room-lobby__input--code"
+              value={codeInput}
+              maxLength={ROOM_CODE_LENGTH}
+              placeholder="CODE"
+              aria-label="Room code"
+              autoComplete="off"
+              onChange={(event) => setCodeInput(event.target.value.toUpperCase())}
+            />
+            <button type="submit" className="room-lobby__button">
+              Join
+            </button>
+          </form>
+          {codeError ? <p className="room-lobby__error">{codeError}</p> : null}
+        </div>
+
+        <div className="help-panel__section">
+          <div className="room-lobby__heading">
+            <h3>Public rooms</h3>
+            <button type="button" className="room-lobby__link" onClick={onRefresh}>
+              Refresh
+            </button>
+          </div>
+          {listError ? <p className="room-lobby__error">{listError}</p> : null}
+          {!listError && rooms.length === 0 ? (
+            <p className="room-lobby__empty">No public rooms yet. Start one!</p>
+          ) : null}
+          <ul className="room-lobby__list">
+            {rooms.map((room) => (
+              <li key={room.code} className="room-lobby__room">
+                <span className="room-lobby__room-name">{room.name}</span>
+                <span className="room-lobby__room-meta">
+                  {room.players}/{room.maxPlayers}
+                  {room.mode === 'task' || room.mode === 'storm' ? ` · ${room.mode}` : ''}
+                  {room.orbEnabled || room.mode === 'task' || room.mode === 'storm' ? '' : ' · no orb'}
+                  {room.orbEnabled && room.mode === 'teams' ? ' · teams' : ''}
+                </span>
+                <button
+                  type="button"
+                  className="room-lobby__button"
+                  disabled={room.players >= room.maxPlayers}
+                  onClick={() => onJoinCode(room.code)}
+                >
+                  Join
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="help-panel__section">
+          <h3>Create room</h3>
+          <form className="room-lobby__form" onSubmit={submitCreate}>
+            <label className="room-lobby__field">
+              <span>Name</span>
+              <input
+                className="room-lobby__input"
+                value={settings.roomName}
+                maxLength={32}
+                placeholder="Optional"
+                onChange={(event) => updateSettings({ roomName: event.target.value })}
+              />
+            </label>
+            <label className="room-lobby__field">
+              <span>Max players</span>
+              <input
+                className="room-lobby__input"
+                type="number"
+                min={2}
+                max={ROOM_MAX_PLAYERS}
+                value={settings.maxPlayers}
+                onChange={(event) => updateSettings({ maxPlayers: Number(event.target.value) || 2 })}
+              />
+            </label>
+            <label className="room-lobby__field room-lobby__field--inline">
+              <input
+                type="checkbox"
+                checked={settings.private}
+                onChange={(event) => updateSettings({ private: event.target.checked })}
+              />
+              <span>Private (join by code only)</span>
+            </label>
+            <label className="room-lobby__field">
+              <span>Mode</span>
+              <select
+                className="room-lobby__input"
+                value={settings.mode}
+                onChange={(event) => updateSettings({ mode: event.target.value as GameMode })}
+              >
+                {GAME_MODE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {settings.mode === 'teams' ? (
+              <label className="room-lobby__field">
+                <span>Teams</span>
+                <input
+                  className="room-lobby__input"
+                  type="number"
+                  min={TEAM_COUNT_MIN}
+                  max={TEAM_COUNT_MAX}
+                  value={settings.teamCount}
+                  onChange={(event) => updateSettings({ teamCount: Number(event.target.value) || TEAM_COUNT_MIN })}
+                />
+              </label>
+            ) : null}
+            {orbMode ? (
+              <label className="room-lobby__field room-lobby__field--inline">
+                <input
+                  type="checkbox"
+                  checked={settings.orbEnabled}
+                  onChange={(event) => updateSettings({ orbEnabled: event.target.checked })}
+                />
+                <span>Orb chase</span>
+              </label>
+            ) : null}
+            {(orbMode && settings.orbEnabled) || settings.mode === 'storm' ? (
+              <>
+                <label className="room-lobby__field">
+                  <span>Round length (min)</span>
+                  <input
+                    className="room-lobby__input"
+                    type="number"
+                    min={ROUND_MINUTES_MIN}
+                    max={ROUND_MINUTES_MAX}
+                    value={settings.roundMinutes}
+                    onChange={(event) => updateSettings({ roundMinutes: Number(event.target.value) || ROUND_MINUTES_MIN })}
+                  />
+                </label>
+                <label className="room-lobby__field">
+                  <span>Players to start {orbMode ? 'orb' : 'round'}</span>
+                  <input
+                    className="room-lobby__input"
+                    type="number"
+                    min={2}
+                    max={8}
+                    value={settings.orbMinPlayers}
+                    onChange={(event) => updateSettings({ orbMinPlayers: Number(event.target.value) || 2 })}
+                  />
+                </label>
+                {orbMode ? (
+                  <>
+                    <label className="room-lobby__field">
+                      <span>Steal cooldown (s)</span>
+                      <input
+                        className="room-lobby__input"
+                        type="number"
+                        min={0}
+                        max={10}
+                        step={0.5}
+                        value={settings.orbStealCooldownMs / 1000}
+                        onChange={(event) =>
+                          updateSettings({ orbStealCooldownMs: Math.round(Number(event.target.value) * 1000) || 0 })
+                        }
+                      />
+                    </label>
+                    <label className="room-lobby__field">
+                      <span>Holder extra sink (m/s)</span>
+                      <input
+                        className="room-lobby__input"
+                        type="number"
+                        min={0}
+                        max={ORB_HOLDER_SINK_RATE_MAX}
+                        step={0.1}
+                        value={settings.orbHolderSinkRate}
+                        onChange={(event) => updateSettings({ orbHolderSinkRate: Number(event.target.value) || 0 })}
+                      />
+                    </label>
+                    <label className="room-lobby__field">
+                      <span>Holder slowdown (%)</span>
+                      <input
+                        className="room-lobby__input"
+                        type="number"
+                        min={0}
+                        max={ORB_HOLDER_SLOWDOWN_PCT_MAX}
+                        step={5}
+                        value={settings.orbHolderSlowdownPct}
+                        onChange={(event) => updateSettings({ orbHolderSlowdownPct: Number(event.target.value) || 0 })}
+                      />
+                    </label>
+                    <label className="room-lobby__field">
+                      <span>Steal bonus (%)</span>
+                      <input
+                        className="room-lobby__input"
+                        type="number"
+                        min={0}
+                        max={ORB_STEAL_BONUS_PCT_MAX}
+                        step={25}
+                        value={settings.orbStealBonusPct}
+                        onChange={(event) => updateSettings({ orbStealBonusPct: Number(event.target.value) || 0 })}
+                      />
+                    </label>
+                    <label className="room-lobby__field">
+                      <span>Max hold (s, 0 = none)</span>
+                      <input
+                        className="room-lobby__input"
+                        type="number"
+                        min={0}
+                        max={ORB_MAX_HOLD_MS_MAX / 1000}
+                        step={ORB_MAX_HOLD_MS_MIN / 1000}
+                        value={settings.orbMaxHoldMs / 1000}
+                        onChange={(event) =>
+                          updateSettings({ orbMaxHoldMs: Math.round(Number(event.target.value) * 1000) || 0 })
+                        }
+                      />
+                    </label>
+                    <label className="room-lobby__field room-lobby__field--inline">
+                      <input
+                        type="checkbox"
+                        checked={settings.orbHolderTrail}
+                        onChange={(event) => updateSettings({ orbHolderTrail: event.target.checked })}
+                      />
+                      <span>Holder trail</span>
+                    </label>
+                  </>
+                ) : null}
+              </>
+            ) : null}
+            <label className="room-lobby__field room-lobby__field--inline">
+              <input
+                type="checkbox"
+                checked={settings.bots}
+                onChange={(event) => updateSettings({ bots: event.target.checked })}
+              />
+              <span>Fill with bots</span>
+            </label>
+            {settings.bots ? (
+              <label className="room-lobby__field">
+                <span>Bot skill</span>
+                <select
+                  className="room-lobby__input"
+                  value={settings.botDifficulty}
+                  onChange={(event) => updateSettings({ botDifficulty: event.target.value as BotDifficulty })}
+                >
+                  {BOT_DIFFICULTY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            <button type="submit" className="room-lobby__primary">
+              Create room
+            </button>
+          </form>
+        </div>
+
+        <div className="help-panel__section">
+          <h3>Watch a replay</h3>
+          <input
+            className="room-lobby__input"
+            type="file"
+            accept=".gz,.jsonl"
+            aria-label="Match recording"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              event.target.value = ''
+              if (file) {
+                onOpenReplay(file)
+              }
+            }}
+          />
+        </div>
+      </section>
+    </div>
+  )
+}
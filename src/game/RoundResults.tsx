@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react'
+import { getTeamInfo } from '../../shared/net'
+import type { MatchSnapshot } from '../net/types'
+
+interface RoundResultsProps {
+  // phaseEndsAtMs is on the local clock.
+  match: MatchSnapshot
+  // Storm rounds rank pilots by how long they survived instead of by the orb.
+  storm: boolean
+  localSessionId: string | null
+  onClose: () => void
+}
+
+const CLOCK_TICK_MS = 500
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+const describeWinner = (match: MatchSnapshot, storm: boolean) => {
+  const team = getTeamInfo(match.winnerTeam)
+  if (team) {
+    return `${team.name} team wins`
+  }
+  const winner = match.results.find((result) => result.sessionId === match.winnerSessionId)
+  if (storm) {
+    return winner ? `${winner.nickname} is the last pilot flying` : 'Draw: nobody outlasted the storm'
+  }
+  return winner ? `${winner.nickname} wins` : 'Draw: nobody held the orb longest'
+}
+
+export const RoundResults = ({ match, storm, localSessionId, onClose }: RoundResultsProps) => {
+  const [now, setNow] = useState(() => Date.now())
+  const nextRoundInSeconds = Math.max(0, Math.ceil((match.phaseEndsAtMs - now) / 1000))
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_TICK_MS)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  return (
+    <div className="help-overlay room-lobby-overlay" onClick={onClose}>
+      <section
+        className="help-panel round-results"
+        aria-label="Round results"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <button type="button" className="help-panel__close" aria-label="Close results" onClick={onClose}>
+          ×
+        </button>
+        <h2 className="help-panel__title">Round {match.round} results</h2>
+        <p className="round-results__winner">{describeWinner(match, storm)}</p>
+        <div className="help-panel__section">
+          {match.results.length === 0 ? (
+            <p className="room-lobby__empty">Nobody flew this round.</p>
+          ) : (
+            <table className="round-results__table">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Pilot</th>
+                  {storm ? (
+                    <th>Survived</th>
+                  ) : (
+                    <>
+                      <th>Held</th>
+                      <th>Steals</th>
+                      <th>Pickups</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {match.results.map((result, index) => {
+                  const team = getTeamInfo(result.team)
+                  return (
+                    <tr
+                      key={result.sessionId}
+                      className={result.sessionId === localSessionId ? 'round-results__row--own' : undefined}
+                    >
+                      <td>{index + 1}</td>
+                      <td>
+                        {team ? (
+                          <span className="tag-hud__team-swatch" style={{ background: team.color }} aria-hidden />
+                        ) : null}
+                        {result.nickname}
+                        {result.isBot ? <span className="round-results__bot"> bot</span> : null}
+                      </td>
+                      {storm ? (
+                        <td>{formatDuration(result.survivedMs)}</td>
+                      ) : (
+                        <>
+                          <td>{formatDuration(result.holdMs)}</td>
+                          <td>{result.steals}</td>
+                          <td>{result.pickups}</td>
+                        </>
+                      )}
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <p className="round-results__next">
+          {nextRoundInSeconds > 0 ? `Next round warms up in ${nextRoundInSeconds}s` : 'Next round warming up…'}
+        </p>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react'
+import { STORM_CIRCLE_STAGE_COUNT } from '../../shared/world'
+import type { StormHudState } from './GameScene'
+
+interface StormHudSectionProps {
+  storm: StormHudState
+}
+
+const CLOCK_TICK_MS = 500
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+const describeStormClock = (circle: NonNullable<StormHudState['circle']>, now: number) => {
+  if (now < circle.shrinkStartsAtMs) {
+    return `Storm closes in ${formatDuration(circle.shrinkStartsAtMs - now)}`
+  }
+  if (now < circle.shrinkEndsAtMs) {
+    return `Storm closing · ${formatDuration(circle.shrinkEndsAtMs - now)}`
+  }
+  return 'Final circle'
+}
+
+export const StormHudSection = ({ storm }: StormHudSectionProps) => {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_TICK_MS)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  return (
+    <div className="tag-hud__task">
+      <div className="tag-hud__line">
+        <span className="tag-hud__label">Alive</span>
+        <strong>
+          {storm.survivors}/{storm.pilots}
+        </strong>
+      </div>
+      {storm.circle ? (
+        <>
+          <div className="tag-hud__line">
+            <span className="tag-hud__label">Circle</span>
+            <strong>
+              {Math.min(storm.circle.stage + 1, STORM_CIRCLE_STAGE_COUNT)}/{STORM_CIRCLE_STAGE_COUNT}
+            </strong>
+          </div>
+          <div className="tag-hud__task-note">{describeStormClock(storm.circle, now)}</div>
+        </>
+      ) : (
+        <div className="tag-hud__task-note">The storm gathers when the round starts</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { useFrame } from '@react-three/fiber'
+import { useRef } from 'react'
+import * as THREE from 'three'
+import { getStormCircle } from '../../shared/world'
+import type { StormStage } from '../../shared/world'
+import { TERRAIN_WATER_LEVEL } from './constants'
+
+interface StormWallProps {
+  // On the local clock; null outside a live storm round.
+  stormStage: StormStage | null
+}
+
+const WALL_TOP_Y = 90
+const WALL_SEGMENTS = 96
+const WALL_COLOR = '#3c4654'
+const NEXT_CIRCLE_COLOR = '#f4f7ff'
+const WALL_HEIGHT = WALL_TOP_Y - TERRAIN_WATER_LEVEL
+const WALL_CENTER_Y = (TERRAIN_WATER_LEVEL + WALL_TOP_Y) * 0.5
+
+// The storm's edge as a dark curtain, plus a faint one where it will close to next. The dark curtain is unit
+// geometry rescaled every frame, since the circle moves continuously while it shrinks.
+export const StormWall = ({ stormStage }: StormWallProps) => {
+  const wallRef = useRef<THREE.Mesh>(null)
+
+  useFrame(() => {
+    const wall = wallRef.current
+    if (!stormStage || !wall) {
+      return
+    }
+    const circle = getStormCircle(stormStage, Date.now())
+    wall.position.set(circle.x, WALL_CENTER_Y, circle.z)
+    wall.scale.set(circle.radius, WALL_HEIGHT, circle.radius)
+  })
+
+  if (!stormStage) {
+    return null
+  }
+
+  return (
+    <group>
+      <mesh ref={wallRef} renderOrder={2}>
+        <cylinderGeometry args={[1, 1, 1, WALL_SEGMENTS, 1, true]} />
+        <meshBasicMaterial
+          color={WALL_COLOR}
+          transparent
+          opacity={0.35}
+          side={THREE.DoubleSide}
+          depthWrite={false}
+        />
+      </mesh>
+      <mesh position={[stormStage.to.x, WALL_CENTER_Y, stormStage.to.z]} renderOrder={2}>
+        <cylinderGeometry args={[stormStage.to.radius, stormStage.to.radius, WALL_HEIGHT, WALL_SEGMENTS, 1, true]} />
+        <meshBasicMaterial
+          color={NEXT_CIRCLE_COLOR}
+          transparent
+          opacity={0.07}
+          side={THREE.DoubleSide}
+          depthWrite={false}
+        />
+      </mesh>
+    </group>
+  )
+}
@@ -2,6 +2,8 @@ import { useFrame, useThree } from '@react-three/fiber'
 import { useMemo, useRef } from 'react'
 import type { MutableRefObject, RefObject } from 'react'
 import * as THREE from 'three'
+import { getStormCircle, getStormGlideZone } from '../../shared/world'
+import type { StormStage } from '../../shared/world'
 import {
   FOG_FAR,
   FOG_NEAR,
@@ -19,6 +21,9 @@ interface StormZoneEffectsProps {
   fillLightRef: RefObject<THREE.DirectionalLight | null>
   stormFactorRef?: MutableRefObject<number>
   rain3DMultiplier?: number
+  islandRadius?: number
+  // A live storm round's circle, on the local clock; the weather then follows its edge instead of the shoreline.
+  stormStage?: StormStage | null
 }
 
 const STORM_SKY_RADIUS = 260
@@ -87,6 +92,8 @@ export const StormZoneEffects = ({
   fillLightRef,
   stormFactorRef,
   rain3DMultiplier = 1,
+  islandRadius = TERRAIN_ISLAND_RADIUS,
+  stormStage = null,
 }: StormZoneEffectsProps) => {
   const { gl } = useThree()
   const useShaderRain = !(gl as { isWebGPURenderer?: boolean }).isWebGPURenderer
@@ -122,9 +129,7 @@ export const StormZoneEffects = ({
     }),
     [],
   )
-  const waterRadius = TERRAIN_SIZE * 0.9
-  const sinkStartRadius =
-    TERRAIN_ISLAND_RADIUS + (waterRadius - TERRAIN_ISLAND_RADIUS) * STORM_START_RATIO
+  const shorelineWaterRadius = TERRAIN_SIZE * 0.9
 
   useFrame((_, delta) => {
     const target = targetRef.current
@@ -163,7 +168,16 @@ export const StormZoneEffects = ({
       rainInitializedRef.current = true
     }
 
-    const distance = Math.hypot(target.position.x, target.position.z)
+    const zone = stormStage
+      ? getStormGlideZone(getStormCircle(stormStage, Date.now()), target.position.x, target.position.z)
+      : {
+          distanceFromCenter: Math.hypot(target.position.x, target.position.z),
+          islandRadius,
+          waterRadius: shorelineWaterRadius,
+        }
+    const distance = zone.distanceFromCenter
+    const waterRadius = zone.waterRadius
+    const sinkStartRadius = zone.islandRadius + (waterRadius - zone.islandRadius) * STORM_START_RATIO
     const zoneFactor = THREE.MathUtils.clamp(
       (distance - sinkStartRadius) / Math.max(waterRadius - sinkStartRadius, 1),
       0,
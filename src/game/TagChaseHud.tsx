@@ -1,22 +1,82 @@
-import type { LeaderboardEntry } from '../net/types'
+import { useEffect, useState } from 'react'
+import { getTeamInfo } from '../../shared/net'
+import type { LeaderboardWindow } from '../../shared/net'
+import type { LeaderboardEntry, MatchSnapshot, TeamScoreSnapshot } from '../net/types'
+import { StormHudSection } from './StormHud'
+import type { OrbHoldHudState, StormHudState, TaskHudState } from './GameScene'
+import { TaskHudSection } from './TaskHud'
 
 interface TagChaseHudProps {
   username: string
   holderLabel: string
+  // Null while nobody holds the orb.
+  orbHold: OrbHoldHudState | null
   localScore: number
+  // Empty outside team rooms.
+  teamScores: TeamScoreSnapshot[]
+  localTeam: number
+  // Replaces the orb lines in task rooms.
+  task: TaskHudState | null
+  // Replaces the orb lines in storm rooms.
+  storm: StormHudState | null
+  // phaseEndsAtMs is on the local clock; null outside orb rooms.
+  match: MatchSnapshot | null
   leaderboard: LeaderboardEntry[]
+  leaderboardWindow: LeaderboardWindow
+  // The local pilot's place in the selected window; null while unranked or still loading.
+  localRank: number | null
+  onLeaderboardWindowChange: (leaderboardWindow: LeaderboardWindow) => void
   compact?: boolean
 }
 
+const LEADERBOARD_WINDOW_TABS: { value: LeaderboardWindow; label: string; compactLabel: string; phrase: string }[] = [
+  { value: 'daily', label: 'Today', compactLabel: 'Day', phrase: 'today' },
+  { value: 'weekly', label: 'Week', compactLabel: 'Wk', phrase: 'this week' },
+  { value: 'alltime', label: 'All time', compactLabel: 'All', phrase: 'all time' },
+]
+
+const ROUND_CLOCK_TICK_MS = 500
+
+// A HUD line counting down to `endsAtMs` (local clock), as m:ss followed by `suffix`.
+const ClockLine = ({ label, endsAtMs, suffix = '' }: { label: string; endsAtMs: number; suffix?: string }) => {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), ROUND_CLOCK_TICK_MS)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  const totalSeconds = Math.max(0, Math.ceil((endsAtMs - now) / 1000))
+  return (
+    <div className="tag-hud__line">
+      <span className="tag-hud__label">{label}</span>
+      <strong>
+        {Math.floor(totalSeconds / 60)}:{String(totalSeconds % 60).padStart(2, '0')}
+        {suffix ? ` ${suffix}` : ''}
+      </strong>
+    </div>
+  )
+}
+
 export const TagChaseHud = ({
   username,
   holderLabel,
+  orbHold,
   localScore,
+  teamScores,
+  localTeam,
+  task,
+  storm,
+  match,
   leaderboard,
+  leaderboardWindow,
+  localRank,
+  onLeaderboardWindowChange,
   compact = false,
 }: TagChaseHudProps) => {
   const displayedLeaderboard = compact ? leaderboard.slice(0, 2) : leaderboard
   const leaderboardTitle = compact ? 'Top' : 'Top 3 (Best)'
+  const activeTab = LEADERBOARD_WINDOW_TABS.find((tab) => tab.value === leaderboardWindow) ?? LEADERBOARD_WINDOW_TABS[2]
 
   return (
     <div className={`tag-hud${compact ? ' tag-hud--compact' : ''}`}>
@@ -24,16 +84,75 @@ export const TagChaseHud = ({
         <span className="tag-hud__label">Player</span>
         <strong>{username}</strong>
       </div>
-      <div className="tag-hud__line">
-        <span className="tag-hud__label">Holder</span>
-        <strong>{holderLabel}</strong>
-      </div>
-      <div className="tag-hud__line">
-        <span className="tag-hud__label">My score</span>
-        <strong>{localScore}</strong>
-      </div>
+      {task ? (
+        <TaskHudSection task={task} compact={compact} />
+      ) : storm ? (
+        <>
+          {match?.phase === 'live' ? (
+            <ClockLine label={`Round ${match.round}`} endsAtMs={match.phaseEndsAtMs} suffix="left" />
+          ) : null}
+          <StormHudSection storm={storm} />
+        </>
+      ) : (
+        <>
+          {match?.phase === 'live' ? (
+            <ClockLine label={`Round ${match.round}`} endsAtMs={match.phaseEndsAtMs} suffix="left" />
+          ) : null}
+          <div className="tag-hud__line">
+            <span className="tag-hud__label">Holder</span>
+            <strong>{holderLabel}</strong>
+          </div>
+          {orbHold && orbHold.scoreMultiplier > 1 ? (
+            <div className="tag-hud__line">
+              <span className="tag-hud__label">Steal bonus</span>
+              <strong>×{orbHold.scoreMultiplier.toFixed(1)}</strong>
+            </div>
+          ) : null}
+          {orbHold?.dropsAtMs ? <ClockLine label="Orb drops in" endsAtMs={orbHold.dropsAtMs} /> : null}
+          <div className="tag-hud__line">
+            <span className="tag-hud__label">My score</span>
+            <strong>{localScore}</strong>
+          </div>
+        </>
+      )}
+      {teamScores.length > 0 ? (
+        <div className="tag-hud__rank">
+          <div className="tag-hud__rank-title">Teams</div>
+          {teamScores.map((entry) => {
+            const team = getTeamInfo(entry.team)
+            return (
+              <div
+                key={entry.team}
+                className={`tag-hud__rank-row${entry.team === localTeam ? ' tag-hud__rank-row--own' : ''}`}
+              >
+                <span>
+                  <span className="tag-hud__team-swatch" style={{ background: team?.color }} />
+                  {team?.name ?? `Team ${entry.team + 1}`}
+                </span>
+                <strong>{entry.score}</strong>
+              </div>
+            )
+          })}
+        </div>
+      ) : null}
       <div className="tag-hud__rank">
-        <div className="tag-hud__rank-title">{leaderboardTitle}</div>
+        <div className="tag-hud__rank-heading">
+          <div className="tag-hud__rank-title">{leaderboardTitle}</div>
+          <div className="tag-hud__tabs" role="tablist" aria-label="Leaderboard period">
+            {LEADERBOARD_WINDOW_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                type="button"
+                role="tab"
+                aria-selected={tab.value === leaderboardWindow}
+                className={`tag-hud__tab${tab.value === leaderboardWindow ? ' tag-hud__tab--active' : ''}`}
+                onClick={() => onLeaderboardWindowChange(tab.value)}
+              >
+                {compact ? tab.compactLabel : tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
         {displayedLeaderboard.length === 0 ? <div className="tag-hud__empty">No players</div> : null}
         {displayedLeaderboard.map((entry, index) => (
           <div key={entry.sessionId} className="tag-hud__rank-row">
@@ -41,6 +160,9 @@ export const TagChaseHud = ({
             <strong>{entry.score}</strong>
           </div>
         ))}
+        <div className="tag-hud__own-rank">
+          {localRank ? `You are #${localRank} ${activeTab.phrase}` : `Not ranked ${activeTab.phrase} yet`}
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,91 @@
+import { useFrame } from '@react-three/fiber'
+import { useRef } from 'react'
+import * as THREE from 'three'
+import { TERRAIN_WATER_LEVEL } from './constants'
+import type { TaskTurnpoint, TaskTurnpointKind } from '../../shared/world'
+import type { TaskSnapshot } from '../net/types'
+
+interface TaskCylindersProps {
+  task: TaskSnapshot | null
+  // The local pilot's next cylinder is highlighted; the ones already made fade out.
+  nextTurnpoint: number
+}
+
+interface TaskCylinderProps {
+  turnpoint: TaskTurnpoint
+  state: 'done' | 'next' | 'ahead'
+}
+
+const TURNPOINT_COLORS: Record<TaskTurnpointKind, string> = {
+  start: '#6fe39a',
+  turnpoint: '#ffb347',
+  goal: '#f4f7ff',
+}
+// Open sides of a cylinder are drawn from the sea up to well above cloudbase.
+const CYLINDER_TOP_Y = 90
+const CYLINDER_SEGMENTS = 48
+const WALL_OPACITY = { done: 0.03, next: 0.2, ahead: 0.08 }
+
+const TaskCylinder = ({ turnpoint, state }: TaskCylinderProps) => {
+  const wallRef = useRef<THREE.MeshBasicMaterial>(null)
+  const elapsedRef = useRef(0)
+  const bottomY = turnpoint.minAltitude ?? TERRAIN_WATER_LEVEL
+  const topY = turnpoint.maxAltitude ?? CYLINDER_TOP_Y
+  const height = Math.max(topY - bottomY, 1)
+  const color = TURNPOINT_COLORS[turnpoint.kind]
+
+  useFrame((_, delta) => {
+    const wall = wallRef.current
+    if (!wall || state !== 'next') {
+      return
+    }
+    elapsedRef.current += delta
+    wall.opacity = WALL_OPACITY.next + Math.sin(elapsedRef.current * 2.4) * 0.06
+  })
+
+  return (
+    <group position={[turnpoint.x, 0, turnpoint.z]}>
+      <mesh position={[0, bottomY + height * 0.5, 0]} renderOrder={2}>
+        <cylinderGeometry args={[turnpoint.radius, turnpoint.radius, height, CYLINDER_SEGMENTS, 1, true]} />
+        <meshBasicMaterial
+          ref={wallRef}
+          color={color}
+          transparent
+          opacity={WALL_OPACITY[state]}
+          side={THREE.DoubleSide}
+          depthWrite={false}
+        />
+      </mesh>
+      {turnpoint.minAltitude !== null ? (
+        <mesh position={[0, turnpoint.minAltitude, 0]} rotation={[Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[turnpoint.radius, 0.12, 6, CYLINDER_SEGMENTS]} />
+          <meshBasicMaterial color={color} transparent opacity={state === 'done' ? 0.15 : 0.7} />
+        </mesh>
+      ) : null}
+      {turnpoint.maxAltitude !== null ? (
+        <mesh position={[0, turnpoint.maxAltitude, 0]} rotation={[Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[turnpoint.radius, 0.12, 6, CYLINDER_SEGMENTS]} />
+          <meshBasicMaterial color={color} transparent opacity={state === 'done' ? 0.15 : 0.7} />
+        </mesh>
+      ) : null}
+    </group>
+  )
+}
+
+export const TaskCylinders = ({ task, nextTurnpoint }: TaskCylindersProps) => {
+  if (!task) {
+    return null
+  }
+
+  return (
+    <group>
+      {task.turnpoints.map((turnpoint, index) => (
+        <TaskCylinder
+          key={`${task.seq}-${index}`}
+          turnpoint={turnpoint}
+          state={index < nextTurnpoint ? 'done' : index === nextTurnpoint ? 'next' : 'ahead'}
+        />
+      ))}
+    </group>
+  )
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react'
+import type { TaskHudState } from './GameScene'
+
+interface TaskHudSectionProps {
+  task: TaskHudState
+  compact?: boolean
+}
+
+const CLOCK_TICK_MS = 500
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+const describeTaskClock = (task: TaskHudState, now: number) => {
+  if (task.elapsedMs > 0) {
+    return `In goal · ${formatDuration(task.elapsedMs)}`
+  }
+  if (now < task.startOpensAtMs) {
+    return `Start opens in ${formatDuration(task.startOpensAtMs - now)}`
+  }
+  if (task.startedAtMs > 0) {
+    return `Task time ${formatDuration(now - task.startedAtMs)}`
+  }
+  return `Start open · ${formatDuration(task.deadlineAtMs - now)} left`
+}
+
+const describeAltitudeLimit = (task: TaskHudState) => {
+  if (task.maxAltitude !== null) {
+    return `Enter below ${Math.round(task.maxAltitude)} m`
+  }
+  if (task.minAltitude !== null) {
+    return `Enter above ${Math.round(task.minAltitude)} m`
+  }
+  return null
+}
+
+export const TaskHudSection = ({ task, compact = false }: TaskHudSectionProps) => {
+  const [now, setNow] = useState(() => Date.now())
+  const altitudeLimit = describeAltitudeLimit(task)
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_TICK_MS)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  return (
+    <div className="tag-hud__task">
+      {task.nextLabel ? (
+        <div className="tag-hud__line">
+          <span className="tag-hud__label">{task.nextLabel}</span>
+          <strong className="tag-hud__task-bearing">
+            <span
+              className="tag-hud__task-arrow"
+              style={{ transform: `rotate(${task.relativeBearingDeg}deg)` }}
+              aria-label={`Turn ${Math.abs(task.relativeBearingDeg)}° ${task.relativeBearingDeg < 0 ? 'left' : 'right'}`}
+            >
+              ↑
+            </span>
+            {task.distance} m
+          </strong>
+        </div>
+      ) : null}
+      {altitudeLimit && !compact ? <div className="tag-hud__task-note">{altitudeLimit}</div> : null}
+      <div className="tag-hud__task-note">{describeTaskClock(task, now)}</div>
+      <div className="tag-hud__rank">
+        <div className="tag-hud__rank-title">Task</div>
+        {task.standings.length === 0 ? <div className="tag-hud__empty">Nobody has started</div> : null}
+        {task.standings.map((standing) => (
+          <div key={standing.sessionId} className="tag-hud__rank-row">
+            <span>
+              {standing.rank}. {standing.nickname}
+            </span>
+            <strong>
+              {standing.elapsedMs > 0 ? formatDuration(standing.elapsedMs) : `${standing.turnpointsMade} TP`}
+            </strong>
+          </div>
+        ))}
+        <div className="tag-hud__own-rank">{task.rank > 0 ? `You are #${task.rank}` : 'Not started yet'}</div>
+      </div>
+    </div>
+  )
+}
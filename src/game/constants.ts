@@ -1,10 +1,12 @@
 import * as THREE from 'three'
+import { SPAWN_BASE_X, SPAWN_BASE_Z } from '../../shared/world/constants'
+
+export * from '../../shared/world/constants'
 
 export const SPAWN_POSITION = new THREE.Vector3(0, 6, 0)
-export const SPAWN_BASE_XZ = new THREE.Vector2(0, 0)
+export const SPAWN_BASE_XZ = new THREE.Vector2(SPAWN_BASE_X, SPAWN_BASE_Z)
 export const SPAWN_VERTICAL_MARGIN = 12
 export const SPAWN_MIN_ABSOLUTE_Y = 18
-export const SPAWN_RING_RADIUS = 86
 export const SPAWN_RING_MAX_ATTEMPTS = 20
 export const SPAWN_RING_ANGLE_STEP = Math.PI / 12
 export const SPAWN_BEACH_MAX_GROUND_OFFSET = 3.2
@@ -13,15 +15,9 @@ export const SPAWN_FORWARD_SAMPLES = 6
 export const SPAWN_FORWARD_CLEARANCE = 5
 export const SPAWN_SEARCH_RADIUS = 70
 export const SPAWN_SEARCH_STEPS = 5
-export const SPAWN_MIN_GROUND_HEIGHT = -2
 export const MIN_ALTITUDE = 1.2
 export const PLAYER_CLEARANCE = 0
 
-export const FORWARD_SPEED = 6
-export const SPEEDBAR_BOOST = 1
-export const SINK_RATE = 0.45
-export const SPEEDBAR_SINK_BOOST = 1.4
-export const YAW_RATE = 2.8
 export const PARAGLIDER_CELL_COUNT = 14
 export const PARAGLIDER_SPAN = 7.2
 export const PARAGLIDER_CHORD = 1.7
@@ -44,23 +40,8 @@ export const FOG_COLOR = '#8abdf0'
 export const FOG_NEAR = 70
 export const FOG_FAR = 320
 
-export const TERRAIN_SEED = 1337
 export const TERRAIN_SIZE = 220
 export const TERRAIN_SEGMENTS = 180
-export const TERRAIN_ISLAND_RADIUS = 95
-export const TERRAIN_HEIGHT_BASE = -5
-export const TERRAIN_MAX_HEIGHT = 34
-export const TERRAIN_NOISE_SCALE = 0.028
-export const TERRAIN_WATER_LEVEL = TERRAIN_HEIGHT_BASE - 1.8
-
-export const TERRAIN_BIOME_BEACH_RADIUS_START = 0.84
-export const TERRAIN_BIOME_BEACH_MAX_SLOPE = 0.42
-export const TERRAIN_BIOME_SNOW_MIN_HEIGHT = 0.72
-export const TERRAIN_BIOME_SNOW_MAX_SLOPE = 0.58
-export const TERRAIN_BIOME_ROCK_MIN_SLOPE = 0.55
-export const TERRAIN_BIOME_FOREST_MIN_HEIGHT = 0.18
-export const TERRAIN_BIOME_FOREST_MAX_HEIGHT = 0.7
-export const TERRAIN_BIOME_FOREST_MAX_SLOPE = 0.36
 
 export const TERRAIN_COLOR_BEACH = '#d9c28a'
 export const TERRAIN_COLOR_GRASS = '#6f9d5d'
@@ -68,22 +49,7 @@ export const TERRAIN_COLOR_FOREST = '#3f6f3a'
 export const TERRAIN_COLOR_ROCK = '#7d8388'
 export const TERRAIN_COLOR_SNOW = '#f4f8ff'
 
-export const TERRAIN_FOREST_INSTANCE_COUNT = 170
-export const TERRAIN_FOREST_MIN_SPACING = 3.3
-export const TERRAIN_FOREST_EDGE_MARGIN = 2
-export const TERRAIN_FOREST_SPAWN_EXCLUSION_RADIUS = 24
-export const TERRAIN_FOREST_SCALE_MIN = 0.78
-export const TERRAIN_FOREST_SCALE_MAX = 1.48
-export const TERRAIN_INLAND_LAKE_RADIUS_MIN = 8
-export const TERRAIN_INLAND_LAKE_RADIUS_MAX = 13
-export const TERRAIN_INLAND_LAKE_MAX_CENTER_RADIUS_RATIO = 0.58
-export const TERRAIN_INLAND_LAKE_MIN_DIST_FROM_SPAWN = 34
-export const TERRAIN_INLAND_LAKE_RIM_WIDTH = 2.6
-export const TERRAIN_INLAND_LAKE_DEPTH = 3.4
 export const TERRAIN_INLAND_LAKE_WATER_COLOR = '#4f90c5'
-export const TERRAIN_INLAND_LAKE_SHORE_BLEND = 0.7
-export const TERRAIN_INLAND_LAKE_MIN_UNDERWATER_DEPTH = 0.7
-export const TERRAIN_INLAND_LAKE_MIN_RIM_ABOVE_WATER = 0.55
 
 export const LAKE_MONSTER_SCALE = 1.35
 export const LAKE_MONSTER_BOB_AMPLITUDE = 0.16
@@ -91,37 +57,12 @@ export const LAKE_MONSTER_BOB_SPEED = 1.2
 export const LAKE_MONSTER_SWAY_AMPLITUDE = 0.08
 export const LAKE_MONSTER_SWAY_SPEED = 0.6
 export const LAKE_MONSTER_WATER_OFFSET = 0.24
-export const LAKE_MONSTER_MIN_SHORE_CLEARANCE = 2.3
 
-export const THERMAL_COUNT = 10
-export const THERMAL_RESEED_SECONDS = 18
 export const THERMAL_FADE_IN_SECONDS = 1.0
 export const THERMAL_FADE_OUT_SECONDS = 1.2
 export const THERMAL_CLOUD_LEAD_SECONDS = 0.5
-export const THERMAL_ACTIVATION_DELAY_MIN_SECONDS = 0
-export const THERMAL_ACTIVATION_DELAY_MAX_SECONDS = 6
 export const THERMAL_DESPAWN_DELAY_MAX_SECONDS = 1.4
-export const THERMAL_BASE_Y = 0
-export const THERMAL_SMALL_RATIO = 0.7
-export const THERMAL_SMALL_RADIUS_MIN = 5
-export const THERMAL_SMALL_RADIUS_MAX = 8
-export const THERMAL_LARGE_RADIUS_MIN = 12
-export const THERMAL_LARGE_RADIUS_MAX = 20
-export const THERMAL_BASE_HEIGHT_MIN = 32
-export const THERMAL_BASE_HEIGHT_MAX = 54
-export const THERMAL_HEIGHT_AMPLITUDE_MIN = 8
-export const THERMAL_HEIGHT_AMPLITUDE_MAX = 16
-export const THERMAL_SOFT_CEILING_BELOW = 6
-export const THERMAL_SOFT_CEILING_ABOVE = 3
-export const THERMAL_SMALL_STRENGTH_MIN = 3.8
-export const THERMAL_SMALL_STRENGTH_MAX = 5.2
-export const THERMAL_LARGE_STRENGTH_MIN = 2.5
-export const THERMAL_LARGE_STRENGTH_MAX = 3.8
-export const THERMAL_LIFT_MULTIPLIER = 0.55
-export const THERMAL_EDGE_MARGIN = 0
-export const THERMAL_MIN_GAP = 14
 export const THERMAL_VISUAL_OPACITY = 0.22
-export const THERMAL_SPAWN_EXCLUSION_RADIUS = 18
 export const THERMAL_CLOUD_TOP_OFFSET = 2
 export const THERMAL_CLOUD_SCALE_SMALL_MIN = 1.4
 export const THERMAL_CLOUD_SCALE_SMALL_MAX = 2.3
@@ -150,8 +91,3 @@ export const VARIO_CLIMB_STOP_THRESHOLD = 0.08
 export const VARIO_SINK_START_THRESHOLD = -2.2
 export const VARIO_SINK_STOP_THRESHOLD = -1.8
 
-export const EDGE_SINK_START_RATIO = 0.5
-export const EDGE_SINK_MAX = 8.0
-export const EDGE_SINK_CURVE_EXP = 1.6
-export const STORM_START_RATIO = 0.25
-export const STORM_MAX_TOTAL_SINK = 4.2
@@ -22,9 +22,14 @@ interface SpawnCandidate {
   groundY: number
 }
 
-const candidateOnRing = (center: THREE.Vector2, angle: number, terrainHeightAt: (x: number, z: number) => number): SpawnCandidate => {
-  const x = center.x + Math.cos(angle) * SPAWN_RING_RADIUS
-  const z = center.y + Math.sin(angle) * SPAWN_RING_RADIUS
+const candidateOnRing = (
+  center: THREE.Vector2,
+  angle: number,
+  ringRadius: number,
+  terrainHeightAt: (x: number, z: number) => number,
+): SpawnCandidate => {
+  const x = center.x + Math.cos(angle) * ringRadius
+  const z = center.y + Math.sin(angle) * ringRadius
   const groundY = terrainHeightAt(x, z)
   return { x, z, groundY }
 }
@@ -53,6 +58,7 @@ const safeSpawnFromCandidate = (center: THREE.Vector2, candidate: SpawnCandidate
 export const computeSafeSpawn = (
   terrainHeightAt?: (x: number, z: number) => number,
   preferredXZ: THREE.Vector2 = SPAWN_BASE_XZ,
+  ringRadius: number = SPAWN_RING_RADIUS,
 ): SafeSpawn => {
   if (!terrainHeightAt) {
     return {
@@ -65,7 +71,7 @@ export const computeSafeSpawn = (
 
   for (let i = 0; i < SPAWN_RING_MAX_ATTEMPTS; i += 1) {
     const angle = Math.random() * Math.PI * 2
-    const candidate = candidateOnRing(preferredXZ, angle, terrainHeightAt)
+    const candidate = candidateOnRing(preferredXZ, angle, ringRadius, terrainHeightAt)
     sampledCandidates.push(candidate)
     if (isValidCandidate(candidate)) {
       return safeSpawnFromCandidate(preferredXZ, candidate)
@@ -74,7 +80,7 @@ export const computeSafeSpawn = (
 
   for (let i = 0; i < 72; i += 1) {
     const angle = Math.random() * Math.PI * 2
-    const candidate = candidateOnRing(preferredXZ, angle, terrainHeightAt)
+    const candidate = candidateOnRing(preferredXZ, angle, ringRadius, terrainHeightAt)
     sampledCandidates.push(candidate)
     if (isValidCandidate(candidate)) {
       return safeSpawnFromCandidate(preferredXZ, candidate)
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_WORLD_TERRAIN_PARAMS,
+  THERMAL_COUNT,
+  THERMAL_INITIAL_SEED,
+  createWorldTerrain,
+  findLakeMonsterAnchor,
+  generateForestInstances,
+  generateThermals,
+  normalizeWorldTerrainParams,
+  type WorldTerrainParams,
+} from '../../shared/world'
+import { createProceduralIslandTerrain } from './terrain'
+
+// The server builds its world from room options with createWorldTerrain; the client
+// meshes the same params. Both must agree on every value gameplay depends on.
+
+const PARAMS: WorldTerrainParams[] = [
+  DEFAULT_WORLD_TERRAIN_PARAMS,
+  { ...DEFAULT_WORLD_TERRAIN_PARAMS, seed: 4242, lakeEnabled: false },
+  { ...DEFAULT_WORLD_TERRAIN_PARAMS, seed: 90210, islandRadius: 180, maxHeight: 60 },
+]
+
+describe('createProceduralIslandTerrain', () => {
+  it.each(PARAMS)('matches the server world for seed $seed', (params) => {
+    const client = createProceduralIslandTerrain(params)
+    const server = createWorldTerrain(normalizeWorldTerrainParams({ ...params }))
+
+    for (let x = -150; x <= 150; x += 10) {
+      for (let z = -150; z <= 150; z += 10) {
+        expect(client.getHeightAt(x, z)).toBe(server.heightAt(x, z))
+      }
+    }
+    expect(client.islandRadius).toBe(server.islandRadius)
+    expect(client.spawnRingRadius).toBe(server.spawnRingRadius)
+    expect(client.inlandLake).toEqual(server.inlandLake)
+    expect(client.lakeMonsterAnchor).toEqual(findLakeMonsterAnchor(server))
+    expect(client.forestInstances).toEqual(generateForestInstances(server))
+
+    const seed = THERMAL_INITIAL_SEED + 3
+    expect(generateThermals(THERMAL_COUNT, client.getHeightAt, client.islandRadius, seed, 0)).toEqual(
+      generateThermals(THERMAL_COUNT, server.heightAt, server.islandRadius, seed, 0),
+    )
+
+    client.geometry.dispose()
+  })
+})
@@ -11,6 +11,11 @@ const KEY_MAPPINGS: Record<string, keyof PlayerInput> = {
   spacebar: 'speedbar',
 }
 
+// Typing in the chat box or a lobby field must not steer the glider.
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')
+
 const INITIAL_INPUT: PlayerInput = {
   yawLeft: false,
   yawRight: false,
@@ -23,7 +28,7 @@ export const useKeyboard = () => {
   useEffect(() => {
     const onKey = (pressed: boolean) => (event: KeyboardEvent) => {
       const mapped = KEY_MAPPINGS[event.key.toLowerCase()]
-      if (!mapped) {
+      if (!mapped || (pressed && isEditableTarget(event.target))) {
         return
       }
 
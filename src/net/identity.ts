@@ -0,0 +1,66 @@
+const IDENTITY_TOKEN_STORAGE_KEY = 'gliderBattle.identityToken'
+// Written by clients from before signed identities; sent until a token arrives so the server can hand its
+// record over while the claim window is open.
+const LEGACY_PLAYER_ID_STORAGE_KEY = 'gliderBattle.playerId'
+const PLAYER_NICKNAME_STORAGE_KEY = 'gliderBattle.nickname'
+
+const randomNickname = () => `Pilot-${Math.floor(Math.random() * 9000 + 1000)}`
+
+export interface PersistentPlayerIdentity {
+  nickname: string
+  // Empty until the server has issued one; an empty token asks the server for a new identity.
+  identityToken: string
+  playerId?: string
+}
+
+// The identity token is issued and signed by the server on first join and keys the pilot's persistent scores
+// and leaderboard ranks. Clients cannot pick their own player ID.
+export const getPersistentPlayerIdentity = (): PersistentPlayerIdentity => {
+  try {
+    let nickname = window.localStorage.getItem(PLAYER_NICKNAME_STORAGE_KEY)?.trim() ?? ''
+    if (!nickname) {
+      nickname = randomNickname()
+      window.localStorage.setItem(PLAYER_NICKNAME_STORAGE_KEY, nickname)
+    }
+
+    const identityToken = window.localStorage.getItem(IDENTITY_TOKEN_STORAGE_KEY)?.trim() ?? ''
+    const legacyPlayerId = identityToken
+      ? ''
+      : (window.localStorage.getItem(LEGACY_PLAYER_ID_STORAGE_KEY)?.trim() ?? '')
+
+    return {
+      nickname: nickname.slice(0, 24),
+      identityToken,
+      ...(legacyPlayerId ? { playerId: legacyPlayerId } : {}),
+    }
+  } catch {
+    return { nickname: randomNickname(), identityToken: '' }
+  }
+}
+
+// Called with the token the server sends after joining; the legacy raw ID is no longer needed once it is stored.
+export const storeIdentityToken = (token: string) => {
+  try {
+    window.localStorage.setItem(IDENTITY_TOKEN_STORAGE_KEY, token)
+    window.localStorage.removeItem(LEGACY_PLAYER_ID_STORAGE_KEY)
+  } catch {
+    // Private mode: the pilot simply gets a new identity next session.
+  }
+}
+
+// Empty until the pilot has picked a nickname or joined a room with a generated one.
+export const readStoredNickname = () => {
+  try {
+    return window.localStorage.getItem(PLAYER_NICKNAME_STORAGE_KEY)?.trim() ?? ''
+  } catch {
+    return ''
+  }
+}
+
+export const storeNickname = (nickname: string) => {
+  try {
+    window.localStorage.setItem(PLAYER_NICKNAME_STORAGE_KEY, nickname)
+  } catch {
+    // Without storage the nickname lasts until the page is closed.
+  }
+}
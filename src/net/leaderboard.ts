@@ -0,0 +1,27 @@
+import { resolveColyseusEndpoint } from './rooms'
+import type { LeaderboardPage, LeaderboardWindow } from '../../shared/net'
+
+// The leaderboard API is served by the game server's HTTP listener, on the same host as the websocket.
+const resolveLeaderboardUrl = () => new URL('/api/leaderboard', resolveColyseusEndpoint().replace(/^ws/, 'http'))
+
+export const fetchLeaderboardPage = async (
+  leaderboardWindow: LeaderboardWindow,
+  options: { page?: number; pageSize?: number; playerToken?: string } = {},
+): Promise<LeaderboardPage> => {
+  const url = resolveLeaderboardUrl()
+  url.searchParams.set('window', leaderboardWindow)
+  if (options.page) {
+    url.searchParams.set('page', String(options.page))
+  }
+  if (options.pageSize) {
+    url.searchParams.set('pageSize', String(options.pageSize))
+  }
+  // Sent as a header so the token stays out of URLs, logs and caches.
+  const response = await fetch(url, {
+    headers: options.playerToken ? { Authorization: `Bearer ${options.playerToken}` } : undefined,
+  })
+  if (!response.ok) {
+    throw new Error(`Leaderboard ${response.status}`)
+  }
+  return (await response.json()) as LeaderboardPage
+}
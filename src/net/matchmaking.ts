@@ -0,0 +1,53 @@
+import { resolveColyseusEndpoint } from './rooms'
+import { MATCHMAKING_FALLBACK_MS, guessMatchmakingRegion } from '../../shared/net'
+import type { MatchmakingRegion, MatchmakingResponse } from '../../shared/net'
+
+const resolveMatchmakingUrl = () => new URL('/api/quickplay', resolveColyseusEndpoint().replace(/^ws/, 'http'))
+
+export const getLocalMatchmakingRegion = (): MatchmakingRegion | null => {
+  try {
+    return guessMatchmakingRegion(Intl.DateTimeFormat().resolvedOptions().timeZone ?? '')
+  } catch {
+    return null
+  }
+}
+
+const fetchMatchmaking = async (
+  region: MatchmakingRegion | null,
+  playerToken: string,
+  waitedMs: number,
+): Promise<MatchmakingResponse> => {
+  const url = resolveMatchmakingUrl()
+  if (region) {
+    url.searchParams.set('region', region)
+  }
+  url.searchParams.set('waitedMs', String(Math.round(waitedMs)))
+  const response = await fetch(url, {
+    headers: playerToken ? { Authorization: `Bearer ${playerToken}` } : undefined,
+  })
+  if (!response.ok) {
+    throw new Error(`Matchmaking ${response.status}`)
+  }
+  return (await response.json()) as MatchmakingResponse
+}
+
+// Asks the server for a room until it names one or says to create one. The server stops holding out for a
+// close skill match after MATCHMAKING_FALLBACK_MS, so this ends shortly after that unless `isCancelled` fires.
+export const findQuickPlayRoom = async (
+  region: MatchmakingRegion | null,
+  playerToken: string,
+  isCancelled: () => boolean,
+): Promise<string | null> => {
+  const startedAtMs = Date.now()
+  for (;;) {
+    const waitedMs = Date.now() - startedAtMs
+    const match = await fetchMatchmaking(region, playerToken, waitedMs)
+    if (match.action === 'join') {
+      return match.roomCode
+    }
+    if (match.action === 'create' || isCancelled() || waitedMs >= MATCHMAKING_FALLBACK_MS) {
+      return null
+    }
+    await new Promise((resolve) => window.setTimeout(resolve, match.retryAfterMs))
+  }
+}
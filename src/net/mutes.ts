@@ -0,0 +1,29 @@
+const MUTED_PILOTS_STORAGE_KEY = 'gliderBattle.mutedPilots'
+// Oldest mutes are forgotten first once the list is this long.
+const MUTED_PILOTS_LIMIT = 200
+
+// Chat mutes are kept on this device, keyed by the public player key so they follow a pilot across rejoins and rooms.
+// Values are the nickname the pilot had when muted, for the unmute list.
+export const readMutedPilots = (): ReadonlyMap<string, string> => {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(MUTED_PILOTS_STORAGE_KEY) ?? '[]')
+    const entries = Array.isArray(parsed) ? parsed : []
+    return new Map(
+      entries.filter(
+        (entry): entry is [string, string] =>
+          Array.isArray(entry) && typeof entry[0] === 'string' && typeof entry[1] === 'string',
+      ),
+    )
+  } catch {
+    return new Map()
+  }
+}
+
+export const storeMutedPilots = (mutedPilots: ReadonlyMap<string, string>) => {
+  try {
+    const entries = Array.from(mutedPilots).slice(-MUTED_PILOTS_LIMIT)
+    window.localStorage.setItem(MUTED_PILOTS_STORAGE_KEY, JSON.stringify(entries))
+  } catch {
+    // Without storage mutes last until the page is closed.
+  }
+}
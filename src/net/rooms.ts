@@ -0,0 +1,97 @@
+import { Client } from 'colyseus.js'
+import { isGameMode } from '../../shared/net'
+import type { RoomListing } from './types'
+
+export const ROOM_NAME = 'world'
+export const ROOM_CODE_LENGTH = 5
+export const ROOM_MAX_PLAYERS = 64
+export const ROOM_QUERY_PARAM = 'room'
+const LOCAL_COLYSEUS_PORT = '2567'
+const ROOM_CODE_PATTERN = /^[A-Z0-9]{5}$/
+
+const getSameOriginEndpoint = () => {
+  const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return `${wsProtocol}//${window.location.host}`
+}
+
+const getLocalDevEndpoint = () => {
+  const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return `${wsProtocol}//${window.location.hostname}:${LOCAL_COLYSEUS_PORT}`
+}
+
+const isLocalHostname = (hostname: string) =>
+  hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]'
+
+export const resolveColyseusEndpoint = () => {
+  const configuredEndpoint = import.meta.env.VITE_COLYSEUS_URL?.trim()
+  if (configuredEndpoint) {
+    try {
+      const parsed = new URL(configuredEndpoint)
+      if (import.meta.env.PROD && isLocalHostname(parsed.hostname)) {
+        console.warn(
+          `[multiplayer] ignoring localhost VITE_COLYSEUS_URL in production: ${configuredEndpoint}`,
+        )
+        return getSameOriginEndpoint()
+      }
+    } catch {
+      // Keep configured endpoint as-is if URL parsing fails.
+    }
+    return configuredEndpoint
+  }
+  if (import.meta.env.DEV && isLocalHostname(window.location.hostname) && window.location.port !== LOCAL_COLYSEUS_PORT) {
+    return getLocalDevEndpoint()
+  }
+  return getSameOriginEndpoint()
+}
+
+export const normalizeRoomCode = (value: string) => {
+  const code = value.trim().toUpperCase().replace(/[^A-Z0-9]/g, '')
+  return ROOM_CODE_PATTERN.test(code) ? code : null
+}
+
+export const readRoomCodeFromUrl = () => {
+  const code = new URLSearchParams(window.location.search).get(ROOM_QUERY_PARAM)
+  return code ? normalizeRoomCode(code) : null
+}
+
+// Mirrors the joined room into the address bar so the URL can be shared as a deep link.
+export const writeRoomCodeToUrl = (code: string | null) => {
+  const url = new URL(window.location.href)
+  if (code) {
+    url.searchParams.set(ROOM_QUERY_PARAM, code)
+  } else {
+    url.searchParams.delete(ROOM_QUERY_PARAM)
+  }
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url)
+  }
+}
+
+export const buildRoomLink = (code: string) => {
+  const url = new URL(window.location.href)
+  url.search = ''
+  url.hash = ''
+  url.searchParams.set(ROOM_QUERY_PARAM, code)
+  return url.href
+}
+
+export const fetchRoomListings = async (): Promise<RoomListing[]> => {
+  const client = new Client(resolveColyseusEndpoint())
+  const rooms = await client.getAvailableRooms<{
+    name?: unknown
+    orbEnabled?: unknown
+    orbMinPlayers?: unknown
+    mode?: unknown
+  }>(ROOM_NAME)
+  return rooms
+    .map((room) => ({
+      code: room.roomId,
+      name: typeof room.metadata?.name === 'string' ? room.metadata.name : room.roomId,
+      players: room.clients,
+      maxPlayers: room.maxClients,
+      orbEnabled: room.metadata?.orbEnabled !== false,
+      orbMinPlayers: typeof room.metadata?.orbMinPlayers === 'number' ? room.metadata.orbMinPlayers : 2,
+      mode: isGameMode(room.metadata?.mode) ? room.metadata.mode : 'ffa',
+    }))
+    .sort((a, b) => b.players - a.players || a.name.localeCompare(b.name))
+}
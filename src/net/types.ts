@@ -1,4 +1,7 @@
+import type { ChatMessage, GameMode, MatchPhase, RoundResult } from '../../shared/net'
+import type { StormStage, TaskTurnpoint } from '../../shared/world'
 import type { ThermalColumn } from '../game/thermals'
+import type { WorldTerrainParams } from '../game/terrain'
 
 export interface LocalPoseMessage {
   x: number
@@ -35,7 +38,12 @@ export interface RemotePlayerSnapshot {
   currentOrbScore: number
   bestOrbScore: number
   effect: PlayerEffectSnapshot
+  isBot: boolean
+  // NO_TEAM outside team rooms.
+  team: number
   updatedAtMs: number
+  // False once the pilot has left our relevant set; the glider fades out instead of vanishing.
+  inView: boolean
 }
 
 export interface PlayerSnapshot {
@@ -50,6 +58,47 @@ export interface PlayerSnapshot {
   currentOrbScore: number
   bestOrbScore: number
   effect: PlayerEffectSnapshot
+  isBot: boolean
+  team: number
+  task: PilotTaskProgressSnapshot
+  // Time holding the orb in the current round.
+  roundHoldMs: number
+  // Storm rooms: out of the current round and spectating until the next one.
+  eliminated: boolean
+}
+
+export interface PilotTaskProgressSnapshot {
+  // Index of the next cylinder to tag; 0 until the pilot takes the start.
+  nextTurnpoint: number
+  startedAtMs: number
+  // Time from start to goal, 0 until the pilot makes goal.
+  elapsedMs: number
+  // Place among the pilots who have started, 0 before that.
+  rank: number
+}
+
+export interface TaskSnapshot {
+  seq: number
+  startOpensAtMs: number
+  deadlineAtMs: number
+  turnpoints: TaskTurnpoint[]
+}
+
+export interface MatchSnapshot {
+  phase: MatchPhase
+  // Server time; 0 while warmup waits for enough pilots.
+  phaseEndsAtMs: number
+  round: number
+  // Empty on a draw.
+  winnerSessionId: string
+  winnerTeam: number
+  // The last finished round, best first.
+  results: RoundResult[]
+}
+
+export interface TeamScoreSnapshot {
+  team: number
+  score: number
 }
 
 export interface OrbSnapshot {
@@ -58,6 +107,13 @@ export interface OrbSnapshot {
   z: number
   holderSessionId: string
   lastTransferAtMs: number
+  // Points per second for the current hold.
+  scoreMultiplier: number
+  // A lost orb falling or lying where it came down; velocity is in world units per second.
+  dropped: boolean
+  vx: number
+  vy: number
+  vz: number
 }
 
 export interface StartupCoinSnapshot {
@@ -79,15 +135,91 @@ export interface LeaderboardEntry {
   score: number
 }
 
+// A chat line as shown in the panel; notices are local messages from the client itself, not from a pilot.
+export interface ChatLine extends ChatMessage {
+  notice: boolean
+}
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard'
+
+export interface RoomSettings {
+  roomName: string
+  private: boolean
+  maxPlayers: number
+  orbEnabled: boolean
+  orbMinPlayers: number
+  orbStealCooldownMs: number
+  // Orb holder handicaps; see shared/net/handicaps.ts.
+  orbHolderSinkRate: number
+  orbHolderSlowdownPct: number
+  orbHolderTrail: boolean
+  orbStealBonusPct: number
+  orbMaxHoldMs: number
+  bots: boolean
+  botDifficulty: BotDifficulty
+  mode: GameMode
+  teamCount: number
+  roundMinutes: number
+}
+
+export type RoomJoinTarget =
+  | { kind: 'quick' }
+  | { kind: 'create'; settings: RoomSettings }
+  | { kind: 'code'; code: string }
+
+export interface RoomInfoSnapshot {
+  code: string
+  name: string
+  isPrivate: boolean
+  maxPlayers: number
+  orbEnabled: boolean
+  orbMinPlayers: number
+  orbStealCooldownMs: number
+  orbHolderSinkRate: number
+  orbHolderSlowdownPct: number
+  orbHolderTrail: boolean
+  orbStealBonusPct: number
+  // 0 when holds are not limited.
+  orbMaxHoldMs: number
+  botsEnabled: boolean
+  botDifficulty: BotDifficulty
+  mode: GameMode
+  // 0 in free-for-all rooms.
+  teamCount: number
+  roundDurationMs: number
+}
+
+export interface RoomListing {
+  code: string
+  name: string
+  players: number
+  maxPlayers: number
+  orbEnabled: boolean
+  orbMinPlayers: number
+  mode: GameMode
+}
+
 export interface MultiplayerSessionState {
   connected: boolean
+  reconnecting: boolean
+  error: string | null
   localSessionId: string | null
+  room: RoomInfoSnapshot | null
   players: PlayerSnapshot[]
   remotePlayers: RemotePlayerSnapshot[]
   thermals: ThermalColumn[] | null
+  terrain: WorldTerrainParams | null
   orb: OrbSnapshot | null
   coins: StartupCoinSnapshot[]
   orbActive: boolean
   orbCountdownRemainingMs: number
   leaderboard: LeaderboardEntry[]
+  teamScores: TeamScoreSnapshot[]
+  // Null outside task rooms.
+  task: TaskSnapshot | null
+  match: MatchSnapshot | null
+  // Null unless a storm round is live; times are server time.
+  storm: StormStage | null
+  // Server clock minus ours, as of the last patch; server timestamps minus this are local times.
+  serverTimeOffsetMs: number
 }
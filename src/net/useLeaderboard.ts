@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react'
+import type { LeaderboardPage, LeaderboardWindow } from '../../shared/net'
+import { getPersistentPlayerIdentity } from './identity'
+import { fetchLeaderboardPage } from './leaderboard'
+
+const LEADERBOARD_REFRESH_MS = 10000
+const HUD_LEADERBOARD_SIZE = 3
+
+// Polls the top of one leaderboard window together with the local pilot's rank in it.
+export const useLeaderboard = (leaderboardWindow: LeaderboardWindow, enabled: boolean) => {
+  const [page, setPage] = useState<LeaderboardPage | null>(null)
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    let cancelled = false
+    const load = async () => {
+      try {
+        // Read on every poll: the token only arrives after the first join.
+        const playerToken = getPersistentPlayerIdentity().identityToken
+        const next = await fetchLeaderboardPage(leaderboardWindow, { pageSize: HUD_LEADERBOARD_SIZE, playerToken })
+        if (!cancelled) {
+          setPage(next)
+        }
+      } catch (loadError) {
+        console.warn('[leaderboard] could not load leaderboard.', loadError)
+      }
+    }
+
+    void load()
+    const timer = window.setInterval(() => {
+      void load()
+    }, LEADERBOARD_REFRESH_MS)
+
+    return () => {
+      cancelled = true
+      window.clearInterval(timer)
+    }
+  }, [enabled, leaderboardWindow])
+
+  return page?.window === leaderboardWindow ? page : null
+}
@@ -1,27 +1,172 @@
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { Client, Room } from 'colyseus.js'
+import { getPersistentPlayerIdentity, storeIdentityToken, storeNickname } from './identity'
+import type { PersistentPlayerIdentity } from './identity'
+import { findQuickPlayRoom, getLocalMatchmakingRegion } from './matchmaking'
+import { ROOM_NAME, resolveColyseusEndpoint } from './rooms'
+import { isSameWorldTerrainParams, normalizeWorldTerrainParams } from '../../shared/world'
+import type { StormStage, TaskTurnpointKind } from '../../shared/world'
+import {
+  NO_TEAM,
+  POSE_SEQ_MODULO,
+  decodeInterestPose,
+  encodePosePacket,
+  isGameMode,
+  isMatchPhase,
+  toPoseCorrection,
+} from '../../shared/net'
+import type {
+  ChatSendMessage,
+  DecodedInterestPose,
+  InterestPoseMessage,
+  NicknameChangeResult,
+  PoseCorrection,
+} from '../../shared/net'
+import type { WorldTerrainParams } from '../game/terrain'
 import type { ThermalColumn } from '../game/thermals'
 import type {
+  BotDifficulty,
+  ChatLine,
   LeaderboardEntry,
   LocalPoseMessage,
+  MatchSnapshot,
   MultiplayerSessionState,
   OrbSnapshot,
   PickupNotificationSnapshot,
   PlayerSnapshot,
   PlayerEffectSnapshot,
   RemotePlayerSnapshot,
+  RoomInfoSnapshot,
+  RoomJoinTarget,
   StartupCoinSnapshot,
+  TaskSnapshot,
+  TeamScoreSnapshot,
 } from './types'
 
-const ROOM_NAME = 'world'
+// Poses go out every tick while turning or drifting off the straight line the server would guess,
+// and only every POSE_STEADY_INTERVAL_MS in steady flight.
 const SEND_INTERVAL_MS = 50
-const LOCAL_COLYSEUS_PORT = '2567'
-const PLAYER_ID_STORAGE_KEY = 'gliderBattle.playerId'
-const PLAYER_NICKNAME_STORAGE_KEY = 'gliderBattle.nickname'
+const POSE_STEADY_INTERVAL_MS = 150
+const POSE_TURNING_BANK = 0.12
+const POSE_YAW_TOLERANCE = 0.04
+const POSE_DRIFT_TOLERANCE = 0.35
+const RECONNECT_BASE_DELAY_MS = 500
+const RECONNECT_MAX_DELAY_MS = 8000
+// Matches the server's reconnection grace window; after that the seat is gone anyway.
+const RECONNECT_GIVE_UP_MS = 30000
+const RECONNECTION_TOKEN_STORAGE_KEY = 'gliderBattle.reconnectionToken'
+const CLOSE_CODE_NORMAL = 1000
+const CLOSE_CODE_CONSENTED = 4000
+// Sent by the server's admin API when a moderator kicks or bans the player.
+const CLOSE_CODE_KICKED = 4100
+const CHAT_HISTORY_LIMIT = 50
+const RENAME_TIMEOUT_MS = 5000
 
 const asNumber = (value: unknown, fallback = 0) =>
   typeof value === 'number' && Number.isFinite(value) ? value : fallback
 
+// Latest pose the server streamed for each remote pilot; positions are not part of the synced room state.
+interface StreamedPose extends DecodedInterestPose {
+  receivedAtMs: number
+  inView: boolean
+}
+
+type StreamedPoses = Map<string, StreamedPose>
+
+const applyPoseMessage = (poses: StreamedPoses, message: unknown, receivedAtMs: number) => {
+  if (!message || typeof message !== 'object') {
+    return
+  }
+  const source = message as Partial<InterestPoseMessage>
+  for (const entry of Array.isArray(source.poses) ? source.poses : []) {
+    const pose = decodeInterestPose(entry)
+    if (pose) {
+      poses.set(pose.sessionId, { ...pose, receivedAtMs, inView: true })
+    }
+  }
+  for (const sessionId of Array.isArray(source.gone) ? source.gone : []) {
+    const pose = poses.get(sessionId)
+    if (pose) {
+      poses.set(sessionId, { ...pose, inView: false })
+    }
+  }
+}
+
+interface SentPose {
+  pose: LocalPoseMessage
+  atMs: number
+  vx: number
+  vy: number
+  vz: number
+}
+
+const shouldSendPose = (pose: LocalPoseMessage, last: SentPose | null, nowMs: number) => {
+  if (!last) {
+    return true
+  }
+  const elapsedMs = nowMs - last.atMs
+  if (elapsedMs >= POSE_STEADY_INTERVAL_MS || pose.speedbar !== last.pose.speedbar) {
+    return true
+  }
+  if (Math.abs(pose.bank) > POSE_TURNING_BANK || Math.abs(pose.yaw - last.pose.yaw) > POSE_YAW_TOLERANCE) {
+    return true
+  }
+  const drift = Math.hypot(
+    pose.x - (last.pose.x + last.vx * elapsedMs),
+    pose.y - (last.pose.y + last.vy * elapsedMs),
+    pose.z - (last.pose.z + last.vz * elapsedMs),
+  )
+  return drift > POSE_DRIFT_TOLERANCE
+}
+
+const toSentPose = (pose: LocalPoseMessage, nowMs: number, last: SentPose | null): SentPose => {
+  const dt = last ? Math.max(nowMs - last.atMs, 1) : 0
+  return {
+    pose,
+    atMs: nowMs,
+    vx: last ? (pose.x - last.pose.x) / dt : 0,
+    vy: last ? (pose.y - last.pose.y) / dt : 0,
+    vz: last ? (pose.z - last.pose.z) / dt : 0,
+  }
+}
+
+const toChatLine = (message: unknown): ChatLine | null => {
+  if (!message || typeof message !== 'object') {
+    return null
+  }
+  const source = message as Record<string, unknown>
+  if (typeof source.id !== 'string' || typeof source.sessionId !== 'string' || typeof source.text !== 'string') {
+    return null
+  }
+  return {
+    id: source.id,
+    sessionId: source.sessionId,
+    playerKey: typeof source.playerKey === 'string' && source.playerKey ? source.playerKey : source.sessionId,
+    nickname: typeof source.nickname === 'string' ? source.nickname : `Pilot-${source.sessionId.slice(0, 4)}`,
+    text: source.text,
+    sentAtMs: asNumber(source.sentAtMs, Date.now()),
+    notice: false,
+  }
+}
+
+const toNicknameChangeResult = (message: unknown): NicknameChangeResult => {
+  const source = (message ?? {}) as Record<string, unknown>
+  if (source.ok === true && typeof source.nickname === 'string') {
+    return { ok: true, nickname: source.nickname }
+  }
+  return { ok: false, error: typeof source.error === 'string' ? source.error : 'Nickname change failed.' }
+}
+
+const createChatNotice = (text: string): ChatLine => ({
+  id: `notice-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  sessionId: '',
+  playerKey: '',
+  nickname: '',
+  text,
+  sentAtMs: Date.now(),
+  notice: true,
+})
+
 const toPickupNotification = (state: unknown): PickupNotificationSnapshot | null => {
   if (!state || typeof state !== 'object') {
     return null
@@ -89,8 +234,83 @@ const toThermals = (state: unknown): ThermalColumn[] | null => {
   return output
 }
 
+const toBotDifficulty = (value: unknown): BotDifficulty =>
+  value === 'easy' || value === 'hard' ? value : 'normal'
+
+const toRoomInfo = (state: unknown): RoomInfoSnapshot | null => {
+  if (!state || typeof state !== 'object') {
+    return null
+  }
+  const room = (state as { room?: unknown }).room
+  if (!room || typeof room !== 'object') {
+    return null
+  }
+
+  const source = room as Record<string, unknown>
+  const code = typeof source.code === 'string' ? source.code : ''
+  if (!code) {
+    return null
+  }
+  return {
+    code,
+    name: typeof source.name === 'string' && source.name ? source.name : code,
+    isPrivate: Boolean(source.isPrivate),
+    maxPlayers: asNumber(source.maxPlayers),
+    orbEnabled: source.orbEnabled !== false,
+    orbMinPlayers: asNumber(source.orbMinPlayers, 2),
+    orbStealCooldownMs: asNumber(source.orbStealCooldownMs),
+    orbHolderSinkRate: asNumber(source.orbHolderSinkRate),
+    orbHolderSlowdownPct: asNumber(source.orbHolderSlowdownPct),
+    orbHolderTrail: source.orbHolderTrail === true,
+    orbStealBonusPct: asNumber(source.orbStealBonusPct),
+    orbMaxHoldMs: asNumber(source.orbMaxHoldMs),
+    botsEnabled: source.botsEnabled !== false,
+    botDifficulty: toBotDifficulty(source.botDifficulty),
+    mode: isGameMode(source.mode) ? source.mode : 'ffa',
+    teamCount: asNumber(source.teamCount),
+    roundDurationMs: asNumber(source.roundDurationMs),
+  }
+}
+
+const isSameRoomInfo = (a: RoomInfoSnapshot, b: RoomInfoSnapshot) =>
+  a.code === b.code &&
+  a.name === b.name &&
+  a.isPrivate === b.isPrivate &&
+  a.maxPlayers === b.maxPlayers &&
+  a.orbEnabled === b.orbEnabled &&
+  a.orbMinPlayers === b.orbMinPlayers &&
+  a.orbStealCooldownMs === b.orbStealCooldownMs &&
+  a.orbHolderSinkRate === b.orbHolderSinkRate &&
+  a.orbHolderSlowdownPct === b.orbHolderSlowdownPct &&
+  a.orbHolderTrail === b.orbHolderTrail &&
+  a.orbStealBonusPct === b.orbStealBonusPct &&
+  a.orbMaxHoldMs === b.orbMaxHoldMs &&
+  a.botsEnabled === b.botsEnabled &&
+  a.botDifficulty === b.botDifficulty &&
+  a.mode === b.mode &&
+  a.teamCount === b.teamCount &&
+  a.roundDurationMs === b.roundDurationMs
+
+const toTerrainParams = (
+  state: unknown,
+  previous: WorldTerrainParams | null,
+): WorldTerrainParams | null => {
+  if (!state || typeof state !== 'object') {
+    return null
+  }
+  const source = (state as { terrain?: unknown }).terrain
+  if (!source || typeof source !== 'object') {
+    return null
+  }
+
+  // Keep the previous object when nothing changed so the scene does not rebuild the island on every patch.
+  const params = normalizeWorldTerrainParams(source as Partial<WorldTerrainParams>)
+  return previous && isSameWorldTerrainParams(previous, params) ? previous : params
+}
+
 const toPlayers = (
   state: unknown,
+  poses: StreamedPoses,
 ): PlayerSnapshot[] => {
   if (!state || typeof state !== 'object') {
     return []
@@ -110,35 +330,61 @@ const toPlayers = (
       continue
     }
     const p = player as Record<string, unknown>
+    const pose = poses.get(sessionId)
     output.push({
       sessionId,
       nickname: typeof p.nickname === 'string' ? p.nickname : `Pilot-${sessionId.slice(0, 4)}`,
-      x: asNumber(p.x),
-      y: asNumber(p.y),
-      z: asNumber(p.z),
-      yaw: asNumber(p.yaw),
-      bank: asNumber(p.bank),
-      speedbar: Boolean(p.speedbar),
+      x: pose?.x ?? 0,
+      y: pose?.y ?? 0,
+      z: pose?.z ?? 0,
+      yaw: pose?.yaw ?? 0,
+      bank: pose?.bank ?? 0,
+      speedbar: pose?.speedbar ?? false,
       currentOrbScore: asNumber(p.currentOrbScore, asNumber(p.score, 0)),
       bestOrbScore: asNumber(p.bestOrbScore, asNumber(p.score, 0)),
       effect: toPlayerEffect(p),
+      isBot: Boolean(p.isBot),
+      team: asNumber(p.team, NO_TEAM),
+      task: {
+        nextTurnpoint: asNumber(p.taskNextTurnpoint),
+        startedAtMs: asNumber(p.taskStartedAtMs),
+        elapsedMs: asNumber(p.taskElapsedMs),
+        rank: asNumber(p.taskRank),
+      },
+      roundHoldMs: asNumber(p.roundHoldMs),
+      eliminated: Boolean(p.eliminated),
     })
   }
 
   return output
 }
 
+// Pilots we have never been sent a pose for are left out; they have no position to draw yet. Neither are
+// pilots knocked out of a storm round, who sit it out until the next one.
 const toRemotePlayers = (
   players: PlayerSnapshot[],
+  poses: StreamedPoses,
   localSessionId: string | null,
-  receivedAtMs: number,
-): RemotePlayerSnapshot[] =>
-  players
-    .filter((player) => player.sessionId !== localSessionId)
-    .map((player) => ({
-      ...player,
-      updatedAtMs: receivedAtMs,
-    }))
+): RemotePlayerSnapshot[] => {
+  const output: RemotePlayerSnapshot[] = []
+  for (const player of players) {
+    const pose = poses.get(player.sessionId)
+    if (player.sessionId === localSessionId || !pose || player.eliminated) {
+      continue
+    }
+    output.push({ ...player, updatedAtMs: pose.receivedAtMs, inView: pose.inView })
+  }
+  return output
+}
+
+const prunePoses = (poses: StreamedPoses, players: PlayerSnapshot[]) => {
+  const sessionIds = new Set(players.map((player) => player.sessionId))
+  for (const sessionId of poses.keys()) {
+    if (!sessionIds.has(sessionId)) {
+      poses.delete(sessionId)
+    }
+  }
+}
 
 const toOrb = (state: unknown): OrbSnapshot | null => {
   if (!state || typeof state !== 'object') {
@@ -156,6 +402,11 @@ const toOrb = (state: unknown): OrbSnapshot | null => {
     z: asNumber(source.z),
     holderSessionId: typeof source.holderSessionId === 'string' ? source.holderSessionId : '',
     lastTransferAtMs: asNumber(source.lastTransferAtMs),
+    scoreMultiplier: asNumber(source.scoreMultiplier, 1),
+    dropped: source.dropped === true,
+    vx: asNumber(source.vx),
+    vy: asNumber(source.vy),
+    vz: asNumber(source.vz),
   }
 }
 
@@ -235,6 +486,123 @@ const toLeaderboard = (state: unknown): LeaderboardEntry[] => {
   return output
 }
 
+const toTeamScores = (state: unknown): TeamScoreSnapshot[] => {
+  const source = (state as { teams?: unknown } | null)?.teams
+  if (!source || typeof source !== 'object') {
+    return []
+  }
+  const values = Array.isArray(source)
+    ? source
+    : Array.from((source as { values?: () => Iterable<unknown> }).values?.() ?? [])
+  return values.map((entry, index) => ({
+    team: asNumber((entry as { team?: unknown } | null)?.team, index),
+    score: asNumber((entry as { score?: unknown } | null)?.score),
+  }))
+}
+
+const toTaskTurnpointKind = (value: unknown): TaskTurnpointKind =>
+  value === 'start' || value === 'goal' ? value : 'turnpoint'
+
+// The task only changes when the server sets a new one, so keep the previous object while `seq` is unchanged.
+const toTask = (state: unknown, previous: TaskSnapshot | null): TaskSnapshot | null => {
+  const source = (state as { task?: unknown } | null)?.task
+  if (!source || typeof source !== 'object') {
+    return null
+  }
+  const t = source as Record<string, unknown>
+  const turnpointSource = t.turnpoints as { values?: () => Iterable<unknown> } | undefined
+  const values = Array.isArray(turnpointSource)
+    ? turnpointSource
+    : Array.from(turnpointSource?.values?.() ?? [])
+  if (values.length === 0) {
+    return null
+  }
+  const seq = asNumber(t.seq)
+  if (previous && previous.seq === seq) {
+    return previous
+  }
+  return {
+    seq,
+    startOpensAtMs: asNumber(t.startOpensAtMs),
+    deadlineAtMs: asNumber(t.deadlineAtMs),
+    turnpoints: values.map((entry) => {
+      const turnpoint = (entry ?? {}) as Record<string, unknown>
+      // The server sends an open altitude limit as 0.
+      const minAltitude = asNumber(turnpoint.minAltitude)
+      const maxAltitude = asNumber(turnpoint.maxAltitude)
+      return {
+        kind: toTaskTurnpointKind(turnpoint.kind),
+        x: asNumber(turnpoint.x),
+        z: asNumber(turnpoint.z),
+        radius: asNumber(turnpoint.radius),
+        minAltitude: minAltitude === 0 ? null : minAltitude,
+        maxAltitude: maxAltitude === 0 ? null : maxAltitude,
+      }
+    }),
+  }
+}
+
+// Results only change when a round ends, so keep the previous object while the phase is unchanged.
+const toMatch = (state: unknown, previous: MatchSnapshot | null): MatchSnapshot | null => {
+  const source = (state as { match?: unknown } | null)?.match
+  if (!source || typeof source !== 'object') {
+    return null
+  }
+  const m = source as Record<string, unknown>
+  const phase = isMatchPhase(m.phase) ? m.phase : 'warmup'
+  const phaseEndsAtMs = asNumber(m.phaseEndsAtMs)
+  const round = asNumber(m.round)
+  if (previous && previous.phase === phase && previous.phaseEndsAtMs === phaseEndsAtMs && previous.round === round) {
+    return previous
+  }
+  const resultSource = m.results as { values?: () => Iterable<unknown> } | undefined
+  const results = Array.isArray(resultSource) ? resultSource : Array.from(resultSource?.values?.() ?? [])
+  return {
+    phase,
+    phaseEndsAtMs,
+    round,
+    winnerSessionId: typeof m.winnerSessionId === 'string' ? m.winnerSessionId : '',
+    winnerTeam: asNumber(m.winnerTeam, NO_TEAM),
+    results: results.map((entry) => {
+      const r = (entry ?? {}) as Record<string, unknown>
+      return {
+        sessionId: typeof r.sessionId === 'string' ? r.sessionId : '',
+        nickname: typeof r.nickname === 'string' ? r.nickname : '',
+        team: asNumber(r.team, NO_TEAM),
+        isBot: Boolean(r.isBot),
+        holdMs: asNumber(r.holdMs),
+        steals: asNumber(r.steals),
+        pickups: asNumber(r.pickups),
+        survivedMs: asNumber(r.survivedMs),
+      }
+    }),
+  }
+}
+
+// A stage only changes when the storm moves on to its next circle, so keep the previous object until then.
+const toStorm = (state: unknown, previous: StormStage | null): StormStage | null => {
+  const source = (state as { storm?: unknown } | null)?.storm
+  if (!source || typeof source !== 'object') {
+    return null
+  }
+  const s = source as Record<string, unknown>
+  if (!s.active) {
+    return null
+  }
+  const stage = asNumber(s.stage)
+  const shrinkEndsAtMs = asNumber(s.shrinkEndsAtMs)
+  if (previous && previous.stage === stage && previous.shrinkEndsAtMs === shrinkEndsAtMs) {
+    return previous
+  }
+  return {
+    stage,
+    from: { x: asNumber(s.fromX), z: asNumber(s.fromZ), radius: asNumber(s.fromRadius) },
+    to: { x: asNumber(s.toX), z: asNumber(s.toZ), radius: asNumber(s.toRadius) },
+    shrinkStartsAtMs: asNumber(s.shrinkStartsAtMs),
+    shrinkEndsAtMs,
+  }
+}
+
 const toOrbActive = (state: unknown): boolean => {
   if (!state || typeof state !== 'object') {
     return false
@@ -249,176 +617,335 @@ const toOrbCountdownRemainingMs = (state: unknown): number => {
   return asNumber((state as { orbCountdownRemainingMs?: unknown }).orbCountdownRemainingMs, 0)
 }
 
-const randomNickname = () => `Pilot-${Math.floor(Math.random() * 9000 + 1000)}`
+const EMPTY_SESSION: MultiplayerSessionState = {
+  connected: false,
+  reconnecting: false,
+  error: null,
+  localSessionId: null,
+  room: null,
+  players: [],
+  remotePlayers: [],
+  thermals: null,
+  terrain: null,
+  orb: null,
+  coins: [],
+  orbActive: false,
+  orbCountdownRemainingMs: 0,
+  leaderboard: [],
+  teamScores: [],
+  task: null,
+  match: null,
+  storm: null,
+  serverTimeOffsetMs: 0,
+}
 
-const createPlayerId = () => {
-  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
-    return crypto.randomUUID().replace(/-/g, '')
+const describeJoinError = (error: unknown, target: RoomJoinTarget) => {
+  const message = error instanceof Error ? error.message : String(error)
+  if (/banned/i.test(message)) {
+    return 'This player is banned from the server.'
+  }
+  if (target.kind === 'code' && /not found|locked|full/i.test(message)) {
+    return `Room ${target.code} is full or no longer exists.`
   }
-  return `player${Math.random().toString(36).slice(2, 14)}${Date.now().toString(36)}`
+  return 'Could not connect to the multiplayer server.'
 }
 
-const getPersistentPlayerIdentity = () => {
+// Session storage keeps the token per tab, so a reload can reclaim the seat without two tabs fighting over it.
+const readStoredReconnectionToken = () => {
   try {
-    let playerId = window.localStorage.getItem(PLAYER_ID_STORAGE_KEY)?.trim() ?? ''
-    if (!/^[a-zA-Z0-9_-]{8,80}$/.test(playerId)) {
-      playerId = createPlayerId()
-      window.localStorage.setItem(PLAYER_ID_STORAGE_KEY, playerId)
-    }
-
-    let nickname = window.localStorage.getItem(PLAYER_NICKNAME_STORAGE_KEY)?.trim() ?? ''
-    if (!nickname) {
-      nickname = randomNickname()
-      window.localStorage.setItem(PLAYER_NICKNAME_STORAGE_KEY, nickname)
-    }
-
-    return { playerId, nickname: nickname.slice(0, 24) }
+    return window.sessionStorage.getItem(RECONNECTION_TOKEN_STORAGE_KEY)
   } catch {
-    return {
-      playerId: createPlayerId(),
-      nickname: randomNickname(),
-    }
+    return null
   }
 }
 
-const getSameOriginEndpoint = () => {
-  const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
-  return `${wsProtocol}//${window.location.host}`
-}
-
-const getLocalDevEndpoint = () => {
-  const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
-  return `${wsProtocol}//${window.location.hostname}:${LOCAL_COLYSEUS_PORT}`
+const storeReconnectionToken = (token: string | null) => {
+  try {
+    if (token) {
+      window.sessionStorage.setItem(RECONNECTION_TOKEN_STORAGE_KEY, token)
+    } else {
+      window.sessionStorage.removeItem(RECONNECTION_TOKEN_STORAGE_KEY)
+    }
+  } catch {
+    // Storage can be unavailable in private mode; reconnection then only works within this page load.
+  }
 }
 
-const isLocalHostname = (hostname: string) =>
-  hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]'
-
-const resolveColyseusEndpoint = () => {
-  const configuredEndpoint = import.meta.env.VITE_COLYSEUS_URL?.trim()
-  if (configuredEndpoint) {
+const joinRoom = async (
+  client: Client,
+  target: RoomJoinTarget,
+  identity: PersistentPlayerIdentity,
+  isCancelled: () => boolean,
+) => {
+  const storedToken = readStoredReconnectionToken()
+  if (target.kind === 'code' && storedToken?.startsWith(`${target.code}:`)) {
     try {
-      const parsed = new URL(configuredEndpoint)
-      if (import.meta.env.PROD && isLocalHostname(parsed.hostname)) {
-        console.warn(
-          `[multiplayer] ignoring localhost VITE_COLYSEUS_URL in production: ${configuredEndpoint}`,
-        )
-        return getSameOriginEndpoint()
-      }
+      return await client.reconnect(storedToken)
     } catch {
-      // Keep configured endpoint as-is if URL parsing fails.
+      storeReconnectionToken(null)
     }
-    return configuredEndpoint
   }
-  if (import.meta.env.DEV && isLocalHostname(window.location.hostname) && window.location.port !== LOCAL_COLYSEUS_PORT) {
-    return getLocalDevEndpoint()
+  if (target.kind === 'code') {
+    return client.joinById(target.code, identity)
+  }
+  // Rooms created by this pilot are tagged with their region for matchmaking.
+  const region = getLocalMatchmakingRegion()
+  const createOptions = region ? { ...identity, region } : identity
+  if (target.kind === 'create') {
+    return client.create(ROOM_NAME, { ...createOptions, ...target.settings })
   }
-  return getSameOriginEndpoint()
+  try {
+    const roomCode = await findQuickPlayRoom(region, identity.identityToken, isCancelled)
+    if (roomCode) {
+      return await client.joinById(roomCode, identity)
+    }
+  } catch (error) {
+    // The picked room may have filled up meanwhile; any room with space will do.
+    console.warn('[multiplayer] matchmaking failed, joining the first open room.', error)
+  }
+  return client.joinOrCreate(ROOM_NAME, createOptions)
 }
 
-export const useMultiplayerSession = () => {
-  const [session, setSession] = useState<MultiplayerSessionState>({
-    connected: false,
-    localSessionId: null,
-    players: [],
-    remotePlayers: [],
-    thermals: null,
-    orb: null,
-    coins: [],
-    orbActive: false,
-    orbCountdownRemainingMs: 0,
-    leaderboard: [],
-  })
+// `viewDelayMs` is how far behind the server remote gliders are drawn; the server adds our round trip
+// to it when rewinding the orb holder for steal checks.
+export const useMultiplayerSession = (target: RoomJoinTarget | null, viewDelayMs = 0) => {
+  const [session, setSession] = useState<MultiplayerSessionState>(EMPTY_SESSION)
+  const [chat, setChat] = useState<ChatLine[]>([])
+  // Latest `pose-correction`; a new object each time, so the same spot sent twice still moves the glider back.
+  const [poseCorrection, setPoseCorrection] = useState<PoseCorrection | null>(null)
   const roomRef = useRef<Room | null>(null)
+  const renameResolverRef = useRef<((result: NicknameChangeResult) => void) | null>(null)
   const pendingPoseRef = useRef<LocalPoseMessage | null>(null)
+  // Set when the glider crashed while the socket was down. The server only takes a respawn pose after a crash, and
+  // otherwise holds the pilot where it last saw them.
+  const crashedOfflineRef = useRef(false)
+  const posesRef = useRef<StreamedPoses>(new Map())
+  const viewDelayMsRef = useRef(viewDelayMs)
+
+  useEffect(() => {
+    viewDelayMsRef.current = viewDelayMs
+  }, [viewDelayMs])
 
   useEffect(() => {
+    if (!target) {
+      return
+    }
+
     let cancelled = false
     const endpoint = resolveColyseusEndpoint()
     const client = new Client(endpoint)
-    const identity = getPersistentPlayerIdentity()
 
-    const connect = async () => {
-      try {
-        const room = await client.joinOrCreate(ROOM_NAME, {
-          nickname: identity.nickname,
-          playerId: identity.playerId,
-        })
+    let reconnectTimer: number | null = null
+
+    const attachRoom = (room: Room) => {
+      roomRef.current = room
+      if (crashedOfflineRef.current) {
+        crashedOfflineRef.current = false
+        room.send('crash')
+      }
+      // A fresh socket gets everyone in range resent, so start from a clean pose cache.
+      posesRef.current = new Map()
+      storeReconnectionToken(room.reconnectionToken)
+      setSession((prev) => ({
+        ...prev,
+        connected: true,
+        reconnecting: false,
+        localSessionId: room.sessionId,
+      }))
+
+      room.onMessage('ping', (sentAtMs: number) => {
+        room.send('pong', sentAtMs)
+      })
+
+      room.onMessage('identity', (message: unknown) => {
+        const token = (message as { token?: unknown } | null)?.token
+        if (typeof token === 'string' && token) {
+          storeIdentityToken(token)
+        }
+      })
+
+      room.onMessage('rename-result', (message: unknown) => {
+        const result = toNicknameChangeResult(message)
+        if (result.ok) {
+          storeNickname(result.nickname)
+        }
+        renameResolverRef.current?.(result)
+      })
+
+      room.onMessage('pose-correction', (message: unknown) => {
+        const correction = toPoseCorrection(message)
+        if (!cancelled && correction) {
+          pendingPoseRef.current = null
+          setPoseCorrection(correction)
+        }
+      })
+
+      room.onMessage('chat', (message: unknown) => {
+        const line = toChatLine(message)
+        if (!cancelled && line) {
+          setChat((prev) => [...prev, line].slice(-CHAT_HISTORY_LIMIT))
+        }
+      })
+
+      room.onMessage('chat-rate-limited', (message: unknown) => {
+        if (cancelled) {
+          return
+        }
+        const retryAfterMs = asNumber((message as { retryAfterMs?: unknown } | null)?.retryAfterMs, 1000)
+        const notice = createChatNotice(
+          `You are sending messages too fast. Try again in ${Math.max(1, Math.ceil(retryAfterMs / 1000))}s.`,
+        )
+        setChat((prev) => [...prev, notice].slice(-CHAT_HISTORY_LIMIT))
+      })
+
+      room.onMessage('poses', (message: unknown) => {
         if (cancelled) {
-          room.leave()
           return
         }
-        roomRef.current = room
+        applyPoseMessage(posesRef.current, message, performance.now())
+        const players = toPlayers(room.state, posesRef.current)
         setSession((prev) => ({
           ...prev,
+          players,
+          remotePlayers: toRemotePlayers(players, posesRef.current, room.sessionId),
+        }))
+      })
+
+      room.onStateChange((state) => {
+        if (cancelled) {
+          return
+        }
+        const players = toPlayers(state, posesRef.current)
+        prunePoses(posesRef.current, players)
+        const roomInfo = toRoomInfo(state)
+        setSession((prev) => ({
           connected: true,
+          reconnecting: false,
+          error: null,
           localSessionId: room.sessionId,
+          room: prev.room && roomInfo && isSameRoomInfo(prev.room, roomInfo) ? prev.room : roomInfo,
+          players,
+          remotePlayers: toRemotePlayers(players, posesRef.current, room.sessionId),
+          thermals: toThermals(state),
+          terrain: toTerrainParams(state, prev.terrain),
+          orb: toOrb(state),
+          coins: toCoins(state),
+          orbActive: toOrbActive(state),
+          orbCountdownRemainingMs: toOrbCountdownRemainingMs(state),
+          leaderboard: toLeaderboard(state),
+          teamScores: toTeamScores(state),
+          task: toTask(state, prev.task),
+          match: toMatch(state, prev.match),
+          storm: toStorm(state, prev.storm),
+          serverTimeOffsetMs: asNumber((state as { serverTimeMs?: unknown }).serverTimeMs, Date.now()) - Date.now(),
         }))
+      })
 
-        room.onStateChange((state) => {
-          if (cancelled) {
-            return
-          }
-          const receivedAtMs = performance.now()
-          const players = toPlayers(state)
-          setSession({
-            connected: true,
-            localSessionId: room.sessionId,
-            players,
-            remotePlayers: toRemotePlayers(players, room.sessionId, receivedAtMs),
-            thermals: toThermals(state),
-            orb: toOrb(state),
-            coins: toCoins(state),
-            orbActive: toOrbActive(state),
-            orbCountdownRemainingMs: toOrbCountdownRemainingMs(state),
-            leaderboard: toLeaderboard(state),
-          })
-        })
-
-        room.onLeave(() => {
-          if (cancelled) {
-            return
+      room.onLeave((code) => {
+        if (cancelled) {
+          return
+        }
+        roomRef.current = null
+        if (code === CLOSE_CODE_NORMAL || code === CLOSE_CODE_CONSENTED) {
+          storeReconnectionToken(null)
+          setSession(EMPTY_SESSION)
+          return
+        }
+        if (code === CLOSE_CODE_KICKED) {
+          storeReconnectionToken(null)
+          setSession({ ...EMPTY_SESSION, error: 'A moderator removed you from the room.' })
+          return
+        }
+        // Keep the last snapshot (terrain, thermals, orb) on screen while the server holds our seat.
+        setSession((prev) => ({ ...prev, connected: false, reconnecting: true }))
+        scheduleReconnect(room.reconnectionToken, Date.now(), 0)
+      })
+    }
+
+    const scheduleReconnect = (token: string, droppedAtMs: number, attempt: number) => {
+      const delayMs = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS)
+      reconnectTimer = window.setTimeout(() => {
+        reconnectTimer = null
+        void (async () => {
+          try {
+            const room = await client.reconnect(token)
+            if (cancelled) {
+              room.leave()
+              return
+            }
+            attachRoom(room)
+          } catch (error) {
+            if (cancelled) {
+              return
+            }
+            if (Date.now() - droppedAtMs + delayMs < RECONNECT_GIVE_UP_MS) {
+              scheduleReconnect(token, droppedAtMs, attempt + 1)
+              return
+            }
+            console.warn('[multiplayer] reconnection failed, giving up.', error)
+            storeReconnectionToken(null)
+            setSession({ ...EMPTY_SESSION, error: 'Connection lost. Your seat in the room has expired.' })
           }
-          setSession({
-            connected: false,
-            localSessionId: null,
-            players: [],
-            remotePlayers: [],
-            thermals: null,
-            orb: null,
-            coins: [],
-            orbActive: false,
-            orbCountdownRemainingMs: 0,
-            leaderboard: [],
-          })
-        })
+        })()
+      }, delayMs)
+    }
+
+    const connect = async () => {
+      crashedOfflineRef.current = false
+      try {
+        const room = await joinRoom(client, target, getPersistentPlayerIdentity(), () => cancelled)
+        if (cancelled) {
+          room.leave()
+          return
+        }
+        attachRoom(room)
       } catch (error) {
         console.warn('[multiplayer] disabled, could not connect to server.', error)
+        if (!cancelled) {
+          setSession({ ...EMPTY_SESSION, error: describeJoinError(error, target) })
+        }
       }
     }
 
     void connect()
 
+    let poseSeq = 0
+    let lastSent: SentPose | null = null
     const sendTimer = window.setInterval(() => {
       const room = roomRef.current
       const pose = pendingPoseRef.current
-      if (!room || !pose) {
+      const nowMs = performance.now()
+      if (!room || !pose || !shouldSendPose(pose, lastSent, nowMs)) {
         return
       }
-      room.send('pose', pose)
+      room.sendBytes(
+        'pose',
+        encodePosePacket({ ...pose, seq: poseSeq, clientTimeMs: nowMs, viewDelayMs: viewDelayMsRef.current }).buffer,
+      )
+      poseSeq = (poseSeq + 1) % POSE_SEQ_MODULO
+      lastSent = toSentPose(pose, nowMs, lastSent)
       pendingPoseRef.current = null
     }, SEND_INTERVAL_MS)
 
     return () => {
       cancelled = true
       window.clearInterval(sendTimer)
+      if (reconnectTimer !== null) {
+        window.clearTimeout(reconnectTimer)
+      }
       const room = roomRef.current
       roomRef.current = null
+      pendingPoseRef.current = null
+      posesRef.current = new Map()
       if (room) {
         room.leave()
       }
+      storeReconnectionToken(null)
+      setSession(EMPTY_SESSION)
+      setChat([])
+      setPoseCorrection(null)
     }
-  }, [])
+  }, [target])
 
   const setLocalPose = useMemo(
     () => (pose: LocalPoseMessage) => {
@@ -431,6 +958,7 @@ export const useMultiplayerSession = () => {
     () => () => {
       const room = roomRef.current
       if (!room) {
+        crashedOfflineRef.current = true
         return
       }
       room.send('crash')
@@ -438,9 +966,74 @@ export const useMultiplayerSession = () => {
     [],
   )
 
+  const sendRespawn = useMemo(
+    () => () => {
+      const room = roomRef.current
+      if (!room) {
+        return
+      }
+      room.send('respawn')
+    },
+    [],
+  )
+
+  // Eliminated pilots tell the server whom they are watching, so that pilot's neighbourhood streams at full rate.
+  const sendSpectate = useMemo(
+    () => (sessionId: string) => {
+      const room = roomRef.current
+      if (!room) {
+        return
+      }
+      room.send('spectate', { sessionId })
+    },
+    [],
+  )
+
+  const sendChat = useMemo(
+    () => (message: ChatSendMessage) => {
+      const room = roomRef.current
+      if (!room) {
+        return
+      }
+      room.send('chat', message)
+    },
+    [],
+  )
+
+  // Resolves with the server's `rename-result`; on success the new name is also stored for later sessions.
+  const sendRename = useMemo(
+    () => (nickname: string) =>
+      new Promise<NicknameChangeResult>((resolve) => {
+        const room = roomRef.current
+        if (!room) {
+          resolve({ ok: false, error: 'Not connected to a room.' })
+          return
+        }
+        const settle = (result: NicknameChangeResult) => {
+          window.clearTimeout(timer)
+          if (renameResolverRef.current === settle) {
+            renameResolverRef.current = null
+          }
+          resolve(result)
+        }
+        const timer = window.setTimeout(() => {
+          settle({ ok: false, error: 'The server did not answer. Try again.' })
+        }, RENAME_TIMEOUT_MS)
+        renameResolverRef.current = settle
+        room.send('rename', { nickname })
+      }),
+    [],
+  )
+
   return {
     ...session,
+    chat,
+    poseCorrection,
     setLocalPose,
     sendCrash,
+    sendRespawn,
+    sendSpectate,
+    sendChat,
+    sendRename,
   }
 }
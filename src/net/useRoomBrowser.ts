@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react'
+import { fetchRoomListings } from './rooms'
+import type { RoomListing } from './types'
+
+const ROOM_LIST_REFRESH_MS = 5000
+
+export const useRoomBrowser = (enabled: boolean) => {
+  const [rooms, setRooms] = useState<RoomListing[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [refreshSeq, setRefreshSeq] = useState(0)
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    let cancelled = false
+    const load = async () => {
+      try {
+        const listings = await fetchRoomListings()
+        if (!cancelled) {
+          setRooms(listings)
+          setError(null)
+        }
+      } catch (loadError) {
+        console.warn('[multiplayer] could not list rooms.', loadError)
+        if (!cancelled) {
+          setError('Room list unavailable right now.')
+        }
+      }
+    }
+
+    void load()
+    const timer = window.setInterval(() => {
+      void load()
+    }, ROOM_LIST_REFRESH_MS)
+
+    return () => {
+      cancelled = true
+      window.clearInterval(timer)
+    }
+  }, [enabled, refreshSeq])
+
+  const refresh = useCallback(() => {
+    setRefreshSeq((value) => value + 1)
+  }, [])
+
+  return { rooms, error, refresh }
+}
@@ -0,0 +1,85 @@
+export interface ReplayClockSnapshot {
+  timeMs: number
+  playing: boolean
+  speed: number
+  seekSeq: number
+}
+
+export interface ReplayClock {
+  durationMs: number
+  getTimeMs: () => number
+  getSnapshot: () => ReplayClockSnapshot
+  play: () => void
+  pause: () => void
+  seek: (timeMs: number) => void
+  setSpeed: (speed: number) => void
+  subscribe: (listener: () => void) => () => void
+}
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4]
+
+// Wall-clock anchored playhead; scene code samples it every frame without React re-renders.
+export const createReplayClock = (durationMs: number): ReplayClock => {
+  let anchorTimeMs = 0
+  let anchorWallMs = performance.now()
+  let playing = true
+  let speed = 1
+  let seekSeq = 0
+  const listeners = new Set<() => void>()
+
+  const getTimeMs = () => {
+    if (!playing) {
+      return anchorTimeMs
+    }
+    return Math.min(durationMs, anchorTimeMs + (performance.now() - anchorWallMs) * speed)
+  }
+
+  const reanchor = (timeMs: number) => {
+    anchorTimeMs = Math.min(Math.max(timeMs, 0), durationMs)
+    anchorWallMs = performance.now()
+  }
+
+  const notify = () => {
+    for (const listener of listeners) {
+      listener()
+    }
+  }
+
+  return {
+    durationMs,
+    getTimeMs,
+    getSnapshot: () => ({ timeMs: getTimeMs(), playing, speed, seekSeq }),
+    play: () => {
+      const timeMs = getTimeMs()
+      if (timeMs >= durationMs) {
+        seekSeq += 1
+        reanchor(0)
+      } else {
+        reanchor(timeMs)
+      }
+      playing = true
+      notify()
+    },
+    pause: () => {
+      reanchor(getTimeMs())
+      playing = false
+      notify()
+    },
+    seek: (timeMs) => {
+      reanchor(timeMs)
+      seekSeq += 1
+      notify()
+    },
+    setSpeed: (nextSpeed) => {
+      reanchor(getTimeMs())
+      speed = nextSpeed
+      notify()
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
@@ -0,0 +1,115 @@
+import { REPLAY_FORMAT_VERSION } from '../../shared/replay'
+import type {
+  ReplayEventRecord,
+  ReplayFrameRecord,
+  ReplayHeaderRecord,
+  ReplayJoinRecord,
+  ReplayRecord,
+} from '../../shared/replay'
+
+export interface ReplayPilot {
+  slot: number
+  sessionId: string
+  nickname: string
+  isBot: boolean
+}
+
+export interface ReplayTimeline {
+  header: ReplayHeaderRecord
+  frames: ReplayFrameRecord[]
+  events: ReplayEventRecord[]
+  pilots: ReplayPilot[]
+  durationMs: number
+}
+
+const isGzip = (bytes: Uint8Array) => bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b
+
+const readReplayText = async (file: Blob) => {
+  const magic = new Uint8Array(await file.slice(0, 2).arrayBuffer())
+  if (!isGzip(magic)) {
+    return file.text()
+  }
+
+  const reader = file
+    .stream()
+    .pipeThrough(new DecompressionStream('gzip'))
+    .pipeThrough(new TextDecoderStream())
+    .getReader()
+  let text = ''
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) {
+        break
+      }
+      text += value
+    }
+  } catch (error) {
+    // Recordings cut short by a server crash end mid-stream; keep everything that decoded.
+    console.warn('[replay] recording is truncated, playing what could be decoded.', error)
+  }
+  return text
+}
+
+const toReplayPilot = (record: ReplayJoinRecord): ReplayPilot => ({
+  slot: record.slot,
+  sessionId: record.sessionId,
+  nickname: record.nickname,
+  isBot: record.isBot,
+})
+
+export const parseReplay = (text: string): ReplayTimeline => {
+  const lines = text.split('\n')
+  let header: ReplayHeaderRecord | null = null
+  const frames: ReplayFrameRecord[] = []
+  const events: ReplayEventRecord[] = []
+  const pilots: ReplayPilot[] = []
+
+  for (const line of lines) {
+    if (!line.trim()) {
+      continue
+    }
+    let record: ReplayRecord
+    try {
+      record = JSON.parse(line) as ReplayRecord
+    } catch {
+      // Only the final line of a truncated recording can be partial.
+      break
+    }
+
+    if (record.type === 'header') {
+      header = record
+      continue
+    }
+    if (!header) {
+      break
+    }
+    if (record.type === 'frame') {
+      frames.push(record)
+      continue
+    }
+    if (record.type === 'join') {
+      pilots.push(toReplayPilot(record))
+    }
+    events.push(record)
+  }
+
+  if (!header) {
+    throw new Error('This file is not a match recording.')
+  }
+  if (header.version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported recording version ${header.version}.`)
+  }
+
+  const lastFrameMs = frames[frames.length - 1]?.t ?? 0
+  const lastEventMs = events[events.length - 1]?.t ?? 0
+  return {
+    header,
+    frames,
+    events,
+    pilots,
+    durationMs: Math.max(lastFrameMs, lastEventMs),
+  }
+}
+
+export const loadReplayFile = async (file: Blob) => parseReplay(await readReplayText(file))
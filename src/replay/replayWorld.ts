@@ -0,0 +1,141 @@
+import { REPLAY_NO_PILOT } from '../../shared/replay'
+import type { ReplayCoin, ReplayEventRecord, ReplayThermalsRecord } from '../../shared/replay'
+import type { LeaderboardEntry, PlayerEffectSnapshot } from '../net/types'
+import type { ReplayTimeline } from './replayFile'
+
+export interface ReplayPilotState {
+  sessionId: string
+  nickname: string
+  isBot: boolean
+  currentOrbScore: number
+  bestOrbScore: number
+  effect: PlayerEffectSnapshot
+}
+
+export interface ReplayOrbState {
+  active: boolean
+  holder: number
+  x: number
+  y: number
+  z: number
+}
+
+// Everything but poses, rebuilt by folding the event records up to the playhead.
+export interface ReplayWorld {
+  eventIndex: number
+  pilots: Map<number, ReplayPilotState>
+  orb: ReplayOrbState
+  coins: Map<string, ReplayCoin>
+  thermals: ReplayThermalsRecord | null
+  leaderboard: LeaderboardEntry[]
+}
+
+export const createReplayWorld = (): ReplayWorld => ({
+  eventIndex: 0,
+  pilots: new Map(),
+  orb: { active: false, holder: REPLAY_NO_PILOT, x: 0, y: 0, z: 0 },
+  coins: new Map(),
+  thermals: null,
+  leaderboard: [],
+})
+
+const applyReplayEvent = (world: ReplayWorld, event: ReplayEventRecord, startedAtMs: number) => {
+  switch (event.type) {
+    case 'join':
+      world.pilots.set(event.slot, {
+        sessionId: event.sessionId,
+        nickname: event.nickname,
+        isBot: event.isBot,
+        currentOrbScore: 0,
+        bestOrbScore: 0,
+        effect: { active: false, speedPct: 0, endsAtMs: 0, pickup: null },
+      })
+      return
+    case 'leave':
+      world.pilots.delete(event.slot)
+      return
+    case 'score': {
+      const pilot = world.pilots.get(event.slot)
+      if (pilot) {
+        world.pilots.set(event.slot, { ...pilot, currentOrbScore: event.current, bestOrbScore: event.best })
+      }
+      return
+    }
+    case 'effect': {
+      const pilot = world.pilots.get(event.slot)
+      if (pilot) {
+        world.pilots.set(event.slot, {
+          ...pilot,
+          effect: { ...pilot.effect, active: event.active, speedPct: event.speedPct, endsAtMs: event.endsAtMs },
+        })
+      }
+      return
+    }
+    case 'orb':
+      world.orb = { active: event.active, holder: event.holder, x: event.x, y: event.y, z: event.z }
+      return
+    case 'coin':
+      world.coins.set(event.coin.id, event.coin)
+      return
+    case 'coin-remove': {
+      const coin = world.coins.get(event.id)
+      world.coins.delete(event.id)
+      const pilot = event.pickedBy === REPLAY_NO_PILOT ? undefined : world.pilots.get(event.pickedBy)
+      if (coin && pilot) {
+        world.pilots.set(event.pickedBy, {
+          ...pilot,
+          effect: {
+            ...pilot.effect,
+            pickup: {
+              seq: (pilot.effect.pickup?.seq ?? 0) + 1,
+              growthPct: coin.growth30d,
+              pickedAtMs: startedAtMs + event.t,
+              startupName: coin.name,
+            },
+          },
+        })
+      }
+      return
+    }
+    case 'thermals':
+      world.thermals = event
+      return
+    case 'leaderboard':
+      world.leaderboard = event.entries.map((entry, index) => ({
+        sessionId: `replay-${index}`,
+        nickname: entry.nickname,
+        score: entry.score,
+      }))
+      return
+  }
+}
+
+// Moves `world` to `timeMs`, replaying from the start when the playhead went backwards.
+export const advanceReplayWorld = (world: ReplayWorld, timeline: ReplayTimeline, timeMs: number) => {
+  let current = world
+  const previousEvent = timeline.events[current.eventIndex - 1]
+  if (previousEvent && previousEvent.t > timeMs) {
+    current = createReplayWorld()
+  }
+  while (current.eventIndex < timeline.events.length && timeline.events[current.eventIndex].t <= timeMs) {
+    applyReplayEvent(current, timeline.events[current.eventIndex], timeline.header.startedAtMs)
+    current.eventIndex += 1
+  }
+  return current
+}
+
+export const findReplayFrameIndex = (timeline: ReplayTimeline, timeMs: number) => {
+  let low = 0
+  let high = timeline.frames.length - 1
+  let found = -1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (timeline.frames[middle].t <= timeMs) {
+      found = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  return found
+}
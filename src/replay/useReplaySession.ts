@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react'
+import { NO_TEAM } from '../../shared/net'
+import { normalizeWorldTerrainParams } from '../../shared/world'
+import type { ReplayThermalsRecord } from '../../shared/replay'
+import type { ThermalColumn } from '../game/thermals'
+import type { MultiplayerSessionState, OrbSnapshot, PlayerSnapshot } from '../net/types'
+import type { ReplayClock } from './replayClock'
+import type { ReplayTimeline } from './replayFile'
+import { advanceReplayWorld, createReplayWorld, findReplayFrameIndex } from './replayWorld'
+
+export interface ReplaySource {
+  timeline: ReplayTimeline
+  clock: ReplayClock
+}
+
+export interface ReplaySessionState extends MultiplayerSessionState {
+  seekSeq: number
+}
+
+const REPLAY_SAMPLE_MS = 50
+const ORB_HOLDER_OFFSET_Y = 0.9
+
+// Turns a recording into the same session snapshot shape the live room produces, so the scene
+// components render a replay exactly like a match in progress.
+export const useReplaySession = (source: ReplaySource | null) => {
+  const [session, setSession] = useState<ReplaySessionState | null>(null)
+
+  useEffect(() => {
+    if (!source) {
+      return
+    }
+
+    const { timeline, clock } = source
+    const terrain = normalizeWorldTerrainParams(timeline.header.terrain)
+    let world = createReplayWorld()
+    let lastFrameIndex = -2
+    let lastSeekSeq = -1
+    let thermalsRecord: ReplayThermalsRecord | null = null
+    let thermals: ThermalColumn[] | null = null
+
+    const sample = () => {
+      const { timeMs, seekSeq } = clock.getSnapshot()
+      const frameIndex = findReplayFrameIndex(timeline, timeMs)
+      if (frameIndex === lastFrameIndex && seekSeq === lastSeekSeq) {
+        return
+      }
+      lastFrameIndex = frameIndex
+      lastSeekSeq = seekSeq
+      world = advanceReplayWorld(world, timeline, timeMs)
+
+      // Recorded timestamps are shifted onto the local clock so effect timers and thermal fades line up.
+      const wallNowMs = Date.now()
+      const recordedNowMs = timeline.header.startedAtMs + timeMs
+      const toWallMs = (recordedMs: number) => wallNowMs + recordedMs - recordedNowMs
+
+      if (world.thermals !== thermalsRecord) {
+        thermalsRecord = world.thermals
+        thermals =
+          thermalsRecord?.thermals.map((thermal) => ({
+            ...thermal,
+            activationAt: toWallMs(thermal.activationAt * 1000) * 0.001,
+          })) ?? null
+      }
+
+      const receivedAtMs = performance.now()
+      const players: PlayerSnapshot[] = []
+      for (const [slot, x, y, z, yaw, bank, speedbar] of timeline.frames[frameIndex]?.poses ?? []) {
+        const pilot = world.pilots.get(slot)
+        if (!pilot) {
+          continue
+        }
+        const pickup = pilot.effect.pickup
+        players.push({
+          sessionId: pilot.sessionId,
+          nickname: pilot.nickname,
+          x,
+          y,
+          z,
+          yaw,
+          bank,
+          speedbar: speedbar === 1,
+          currentOrbScore: pilot.currentOrbScore,
+          bestOrbScore: pilot.bestOrbScore,
+          effect: {
+            ...pilot.effect,
+            endsAtMs: toWallMs(pilot.effect.endsAtMs),
+            pickup: pickup ? { ...pickup, pickedAtMs: toWallMs(pickup.pickedAtMs) } : null,
+          },
+          isBot: pilot.isBot,
+          // Recordings do not carry teams, task progress or storm rounds yet.
+          team: NO_TEAM,
+          task: { nextTurnpoint: 0, startedAtMs: 0, elapsedMs: 0, rank: 0 },
+          roundHoldMs: 0,
+          eliminated: false,
+        })
+      }
+
+      const holderSessionId = world.pilots.get(world.orb.holder)?.sessionId ?? ''
+      const holder = holderSessionId ? players.find((player) => player.sessionId === holderSessionId) : null
+      const orb: OrbSnapshot = {
+        x: holder ? holder.x : world.orb.x,
+        y: holder ? holder.y + ORB_HOLDER_OFFSET_Y : world.orb.y,
+        z: holder ? holder.z : world.orb.z,
+        holderSessionId,
+        lastTransferAtMs: 0,
+        scoreMultiplier: 1,
+        dropped: false,
+        vx: 0,
+        vy: 0,
+        vz: 0,
+      }
+
+      setSession({
+        connected: false,
+        reconnecting: false,
+        error: null,
+        localSessionId: null,
+        room: null,
+        players,
+        remotePlayers: players.map((player) => ({ ...player, updatedAtMs: receivedAtMs, inView: true })),
+        thermals,
+        terrain,
+        orb,
+        coins: Array.from(world.coins.values()),
+        orbActive: world.orb.active,
+        orbCountdownRemainingMs: 0,
+        leaderboard: world.leaderboard,
+        teamScores: [],
+        task: null,
+        match: null,
+        storm: null,
+        serverTimeOffsetMs: 0,
+        seekSeq,
+      })
+    }
+
+    const timer = window.setInterval(sample, REPLAY_SAMPLE_MS)
+    return () => {
+      window.clearInterval(timer)
+      setSession(null)
+    }
+  }, [source])
+
+  return session
+}